@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { issueBatch } from '../services/batchService';
+import { uploadSignatureImage } from '../services/certificateDocumentService';
+import { ApiError } from '../services/apiClient';
+import { PRINT_SHEETS_FILE, buildBatchZip } from '../utils/batchZip';
+import { ParsedParticipantList, parseParticipantFile } from '../utils/participantList';
+import { DEFAULT_TEMPLATE, getTemplate, listTemplates } from '../templates';
+import { DEFAULT_THEME, listThemes } from '../themes';
+import { MissingGlyphsError } from '../fonts';
+import { CERTIFICATE_LANGUAGES, isCertificateLanguage } from '../i18n';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_PRINT_OPTIONS, PAPER_FORMATS, sheetCapacity, templatePageSize } from '../utils/printLayout';
+import { CertificateLanguage, PaperFormat } from '../types';
+
+const TOKEN_KEY = 'coordinator_token';
+
+const PAPER_NAMES: Record<PaperFormat, string> = { a4: 'A4', a3: 'A3', sra3: 'SRA3', letter: 'Letter', tabloid: 'Tabloid' };
+
+const BatchGenerator: React.FC = () => {
+  const { locale, t } = useI18n();
+  const [adminToken, setAdminToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE.id);
+  const [themeId, setThemeId] = useState(DEFAULT_THEME.id);
+  const [language, setLanguage] = useState<CertificateLanguage>(locale);
+  const [signatureFile, setSignatureFile] = useState<File | null>(null);
+  const [printPaper, setPrintPaper] = useState<PaperFormat | ''>('');
+  const [fileName, setFileName] = useState('');
+  const [list, setList] = useState<ParsedParticipantList | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const invalidCount = list?.rows.filter((r) => r.errors.length > 0).length ?? 0;
+  const busy = progress !== null;
+  const trim = templatePageSize(getTemplate(language === 'tr-en' ? 'bilingual' : templateId));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setDoneMessage(null);
+    setFileName(file.name);
+
+    try {
+      setList(await parseParticipantFile(file));
+    } catch (err) {
+      console.error(err);
+      setList(null);
+      setError(err instanceof Error ? err.message : t('batch.fileError'));
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!list || invalidCount > 0 || !adminToken.trim()) return;
+
+    setError(null);
+    setDoneMessage(null);
+    setProgress({ done: 0, total: list.rows.length });
+    sessionStorage.setItem(TOKEN_KEY, adminToken.trim());
+
+    try {
+      const token = adminToken.trim();
+      const signatureImageId = signatureFile ? await uploadSignatureImage(signatureFile, token) : undefined;
+      const result = await issueBatch(list.rows.map((r) => r.row), { templateId, themeId, language, signatureImageId }, token);
+      const zip = await buildBatchZip(result.certificates, result.signedPdf, (done, total) => setProgress({ done, total }), printPaper || undefined);
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(zip, `Sertifikalar_${stamp}_${result.batchId.slice(0, 8)}.zip`);
+      setDoneMessage(t('batch.done', { count: result.certificates.length }));
+      setList(null);
+      setFileName('');
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError && err.status === 401) {
+        sessionStorage.removeItem(TOKEN_KEY);
+      }
+      if (err instanceof ApiError) {
+        setError(errorMessage(t, err));
+      } else if (err instanceof MissingGlyphsError) {
+        setError(t('errors.missingGlyphs', { characters: err.characters.join(' ') }));
+      } else {
+        setError(t('batch.error'));
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('batch.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('batch.subtitle')}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="adminToken" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.token')}
+            </label>
+            <input
+              type="password"
+              id="adminToken"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              disabled={busy}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+            />
+          </div>
+          <div>
+            <label htmlFor="templateId" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.template')}
+            </label>
+            <select
+              id="templateId"
+              value={language === 'tr-en' ? 'bilingual' : templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              disabled={busy || language === 'tr-en'}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 bg-white"
+            >
+              {listTemplates().map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="themeId" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.theme')}
+            </label>
+            <select
+              id="themeId"
+              value={themeId}
+              onChange={(e) => setThemeId(e.target.value)}
+              disabled={busy}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 bg-white"
+            >
+              {listThemes().map((theme) => (
+                <option key={theme.id} value={theme.id}>{theme.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="language" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.language')}
+            </label>
+            <select
+              id="language"
+              value={language}
+              onChange={(e) => isCertificateLanguage(e.target.value) && setLanguage(e.target.value)}
+              disabled={busy}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 bg-white"
+            >
+              {CERTIFICATE_LANGUAGES.map((option) => (
+                <option key={option} value={option}>{t(`language.${option}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="signatureFile" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.signature')}
+            </label>
+            <label className="flex items-center gap-2 w-full px-3 py-3 border border-dashed border-slate-300 rounded-xl cursor-pointer text-slate-500 hover:border-cyan-500 transition-all">
+              <i className="fas fa-signature"></i>
+              <span className="truncate">{signatureFile?.name || t('batch.signaturePlaceholder')}</span>
+              <input
+                type="file"
+                id="signatureFile"
+                accept="image/png,image/jpeg"
+                onChange={(e) => setSignatureFile(e.target.files?.[0] ?? null)}
+                disabled={busy}
+                className="hidden"
+              />
+            </label>
+          </div>
+          <div>
+            <label htmlFor="printPaper" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.printSheets')}
+            </label>
+            <select
+              id="printPaper"
+              value={printPaper}
+              onChange={(e) => setPrintPaper(e.target.value as PaperFormat | '')}
+              disabled={busy}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 bg-white"
+            >
+              <option value="">{t('batch.printNone')}</option>
+              {(Object.keys(PAPER_FORMATS) as PaperFormat[]).map((paper) => {
+                const count = sheetCapacity(trim, { ...DEFAULT_PRINT_OPTIONS, paper });
+                return (
+                  <option key={paper} value={paper} disabled={count === 0}>
+                    {count > 0
+                      ? t('batch.printPaper', { paper: PAPER_NAMES[paper], count })
+                      : t('batch.printTooSmall', { paper: PAPER_NAMES[paper] })}
+                  </option>
+                );
+              })}
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="participantFile" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.file')}
+            </label>
+            <label className="flex items-center gap-2 w-full px-3 py-3 border border-dashed border-slate-300 rounded-xl cursor-pointer text-slate-500 hover:border-cyan-500 transition-all">
+              <i className="fas fa-file-csv"></i>
+              <span className="truncate">{fileName || t('batch.filePlaceholder')}</span>
+              <input
+                type="file"
+                id="participantFile"
+                accept=".csv,.xlsx,.xls,.ods,text/csv"
+                onChange={handleFile}
+                disabled={busy}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500">{t('batch.columnsHelp')}</p>
+        {printPaper && <p className="text-xs text-slate-500">{t('batch.printHelp', { file: PRINT_SHEETS_FILE, bleed: DEFAULT_PRINT_OPTIONS.bleed })}</p>}
+
+        {list && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-slate-700 font-medium">{t('batch.rowsRead', { count: list.rows.length })}</span>
+              {invalidCount > 0 && (
+                <span className="text-red-600">{t('batch.rowsInvalid', { count: invalidCount })}</span>
+              )}
+            </div>
+
+            {list.unknownColumns.length > 0 && (
+              <div className="text-amber-700 text-sm bg-amber-50 p-3 rounded-lg border border-amber-100">
+                {t('batch.unknownColumns', { columns: list.unknownColumns.join(', ') })}
+              </div>
+            )}
+
+            <div className="max-h-96 overflow-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{t('batch.col.line')}</th>
+                    <th className="px-3 py-2 text-left">{t('batch.col.name')}</th>
+                    <th className="px-3 py-2 text-left">{t('batch.col.certificateNo')}</th>
+                    <th className="px-3 py-2 text-left">{t('batch.col.coordinator')}</th>
+                    <th className="px-3 py-2 text-left">{t('batch.col.location')}</th>
+                    <th className="px-3 py-2 text-left">{t('batch.col.status')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {list.rows.map(({ line, row, errors }) => (
+                    <tr key={line} className={`border-t border-slate-100 ${errors.length ? 'bg-red-50' : ''}`}>
+                      <td className="px-3 py-2 text-slate-400">{line}</td>
+                      <td className="px-3 py-2 text-slate-900">{row.name}</td>
+                      <td className="px-3 py-2 text-slate-600 font-mono">{row.certificateNo ?? <span className="text-slate-400">{t('batch.autoNumber')}</span>}</td>
+                      <td className="px-3 py-2 text-slate-600">{row.coordinatorName}</td>
+                      <td className="px-3 py-2 text-slate-600">{row.location}</td>
+                      <td className="px-3 py-2">
+                        {errors.length ? (
+                          <span className="text-red-600">{errors.join(' ')}</span>
+                        ) : (
+                          <i className="fas fa-check text-green-600"></i>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        )}
+
+        {doneMessage && (
+          <div className="text-green-700 text-sm flex items-center gap-2 bg-green-50 p-3 rounded-lg border border-green-100">
+            <i className="fas fa-check-circle"></i>
+            {doneMessage}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={busy || !list || list.rows.length === 0 || invalidCount > 0 || !adminToken.trim()}
+          className="w-full bg-cyan-900 hover:bg-cyan-950 text-white font-semibold py-3.5 px-6 rounded-xl transition-all shadow-lg hover:shadow-cyan-900/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ? (
+            <>
+              <i className="fas fa-spinner fa-spin"></i>
+              {t('batch.progress', { done: progress.done, total: progress.total })}
+            </>
+          ) : (
+            <>
+              <i className="fas fa-file-zipper"></i>
+              {t('batch.submit')}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchGenerator;
@@ -0,0 +1,583 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateImpactMessage } from '../services/impactMessageService';
+import { ApiError } from '../services/apiClient';
+import { fetchCampaign } from '../services/campaignService';
+import {
+  emailCertificate, fetchUserStats, issueCertificate, matchCompletionToken, matchRosterEntry, previewCertificate
+} from '../services/ledgerService';
+import { certificatePdf, certificatePreviewPdf } from '../services/certificateDocumentService';
+import { rememberCertificate, rememberDeletionKey } from '../services/certificateHistory';
+import { reportPortalEvent } from '../services/dashboardService';
+import { certificateFileName } from '../utils/pdfUtils';
+import { downloadBlob } from '../utils/download';
+import { moderateImpactMessage } from '../utils/impactMessage';
+import { checkPersonName, displayName } from '../utils/personName';
+import { DEFAULT_CAMPAIGN_SLUG, privacyHref } from '../utils/routing';
+import { MissingGlyphsError } from '../fonts';
+import { getTemplate } from '../templates';
+import CertificatePreview from './CertificatePreview';
+import { CERTIFICATE_LANGUAGES, dateLocaleTag, isCertificateLanguage, primaryLocale } from '../i18n';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { CampaignInfo, CertificateLanguage, IssuanceRequest, Locale, UserStats } from '../types';
+
+interface CertificateFormProps {
+  campaignSlug: string;
+  // From a survey link ("#/c/<slug>/complete/<token>") on completion token campaigns
+  completionToken?: string;
+}
+
+// The request a preview was drawn from, confirmed as is.
+interface Preview {
+  credential: string;
+  request: IssuanceRequest;
+  holder: string;
+  pdfUrl: string;
+  landscape: boolean;
+}
+
+const formatDateTime = (iso: string, locale: Locale) =>
+  new Date(iso).toLocaleString(dateLocaleTag(locale), { dateStyle: 'long', timeStyle: 'short' });
+
+const CertificateForm: React.FC<CertificateFormProps> = ({ campaignSlug, completionToken }) => {
+  const { locale, t } = useI18n();
+  const [language, setLanguage] = useState<CertificateLanguage>(locale);
+  const [campaign, setCampaign] = useState<CampaignInfo | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [name, setName] = useState('');
+  const [accessCode, setAccessCode] = useState('');
+  const [completion, setCompletion] = useState<{ name?: string; used: boolean } | null>(null);
+  const [sendEmail, setSendEmail] = useState(false);
+  const [email, setEmail] = useState('');
+  const [emailedTo, setEmailedTo] = useState<string | null>(null);
+  const [impact, setImpact] = useState('');
+  const [impactEn, setImpactEn] = useState('');
+  const [impactAttempt, setImpactAttempt] = useState(0);
+  // Whether the holder's name may go to the AI provider; asked before the first preview
+  const [aiConsent, setAiConsent] = useState<boolean | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [loading, setLoading] = useState<'preview' | 'confirm' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The campaign carries the issuer details and quota; the quota is tracked per client IP by the portal API.
+    Promise.all([fetchCampaign(campaignSlug), fetchUserStats(campaignSlug)])
+      .then(([info, userStats]) => {
+        setCampaign(info);
+        setStats(userStats);
+        reportPortalEvent(campaignSlug, 'view');
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && err.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        console.error("Campaign check failed", err);
+        setError(t('errors.serviceUnavailable'));
+      });
+  }, [campaignSlug]);
+
+  // A survey link may carry the holder's name, which is then printed as is. A name that fails
+  // the check is not returned, so the participant types it instead.
+  useEffect(() => {
+    if (!campaign?.completionTokens || !completionToken) return;
+    matchCompletionToken(campaignSlug, completionToken, language)
+      .then((info) => {
+        setCompletion(info);
+        if (info.name) setName(info.name);
+      })
+      .catch(showError);
+  }, [campaign, completionToken, language]);
+
+  // The object URL of the previous preview is released when it is replaced.
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.pdfUrl);
+  }, [preview]);
+
+  const count = stats?.count ?? 0;
+  const limit = stats?.limit ?? campaign?.issuanceLimit ?? 0;
+  // Roster studies issue certificates by access code, in the name the coordinator listed.
+  const rosterMode = Boolean(campaign?.roster);
+  // Completion token studies issue one certificate per survey link instead of a per-IP quota.
+  const tokenMode = Boolean(campaign?.completionTokens);
+  const ipQuota = !rosterMode && !tokenMode;
+  const nameLocked = Boolean(completion?.name);
+  const credential = rosterMode ? accessCode.trim() : name.trim();
+  const wantsEmail = Boolean(campaign?.emailDelivery) && sendEmail;
+  // Set when the API sends names to an outside service for the thank-you message
+  const impactMessageProcessor = campaign?.impactMessageProcessor;
+  const consentMissing = Boolean(impactMessageProcessor) && aiConsent === null;
+  // Any edit after the preview was drawn has to be previewed again before it can be confirmed.
+  const previewStale = preview !== null && (
+    preview.credential !== credential
+    || preview.request.language !== language
+    || preview.request.impactMessage !== impact.trim()
+    || (language === 'tr-en' && preview.request.translations?.en?.impactMessage !== impactEn.trim())
+  );
+
+  const showError = (err: unknown) => {
+    console.error(err);
+    if (err instanceof ApiError && err.code === 'quotaReached') {
+      setError(errorMessage(t, err, { limit }));
+      fetchUserStats(campaignSlug).then(setStats).catch(() => undefined);
+    } else if (err instanceof ApiError) {
+      setError(errorMessage(t, err));
+    } else if (err instanceof MissingGlyphsError) {
+      setError(t('errors.missingGlyphs', { characters: err.characters.join(' ') }));
+    } else {
+      setError(t('errors.pdfFailed'));
+    }
+  };
+
+  // Bilingual certificates get the thank-you message in both languages.
+  const generateMessages = (holder: string, attempt: number) => {
+    // The home page campaign's title is portal wording, not a study name.
+    const impactRequest = (impactLocale: Locale) => ({
+      name: holder,
+      locale: impactLocale,
+      campaignSlug,
+      attempt,
+      aiConsent: aiConsent === true,
+      study: campaignSlug === DEFAULT_CAMPAIGN_SLUG
+        ? undefined
+        : campaign?.translations?.[impactLocale]?.title ?? campaign?.title
+    });
+    return Promise.all([
+      generateImpactMessage(impactRequest(language === 'en' ? 'en' : 'tr'), impactMessageProcessor),
+      language === 'tr-en' ? generateImpactMessage(impactRequest('en'), impactMessageProcessor) : Promise.resolve('')
+    ]);
+  };
+
+  // Resolves the holder's name, fills in missing messages and renders the watermarked preview.
+  // Nothing is recorded, so previews and corrections do not count towards the quota.
+  const renderPreview = async (regenerate: boolean) => {
+    if (!credential || consentMissing || (wantsEmail && !email.trim())) return;
+    // Views and starts are counted on the coordinator dashboard; the API counts what follows.
+    if (!started.current) {
+      started.current = true;
+      reportPortalEvent(campaignSlug, 'start');
+    }
+    if (ipQuota && count >= limit) {
+      setError(t('errors.quotaReached', { limit }));
+      return;
+    }
+    const checkedName = rosterMode ? null : checkPersonName(name, primaryLocale(language));
+    if (checkedName && !checkedName.ok) {
+      setError(t(`errors.${checkedName.error}`));
+      return;
+    }
+
+    setLoading('preview');
+    setError(null);
+    setEmailedTo(null);
+    setIsSuccess(false);
+
+    try {
+      let holder = checkedName?.ok ? checkedName.value.name : '';
+      if (rosterMode) {
+        const entry = await matchRosterEntry(campaignSlug, credential);
+        if (entry.remaining === 0) {
+          setError(t('errors.accessCodeUsed'));
+          return;
+        }
+        holder = entry.name;
+      }
+
+      let messages = [impact.trim(), impactEn.trim()];
+      if (regenerate || !messages[0] || (language === 'tr-en' && !messages[1])) {
+        const attempt = regenerate ? impactAttempt + 1 : impactAttempt;
+        messages = await generateMessages(holder, attempt);
+        setImpactAttempt(attempt);
+        setImpact(messages[0]);
+        setImpactEn(messages[1]);
+      }
+
+      // Edited messages are checked here too, so the visitor sees the problem before confirming.
+      const [impactMessage, impactMessageEn] = messages.map((message) => message && moderateImpactMessage(message));
+      if (impactMessage === null || impactMessageEn === null) {
+        setError(t('errors.impactMessageRejected'));
+        return;
+      }
+      setImpact(impactMessage);
+      setImpactEn(impactMessageEn);
+
+      const request: IssuanceRequest = {
+        name: holder,
+        accessCode: rosterMode ? credential : undefined,
+        completionToken: tokenMode ? completionToken : undefined,
+        impactMessage,
+        language,
+        translations: language === 'tr-en' ? { en: { impactMessage: impactMessageEn } } : undefined
+      };
+      const { certificate } = await previewCertificate(campaignSlug, request);
+      const pdf = await certificatePreviewPdf(certificate, t('preview.watermark'));
+      setPreview({
+        credential,
+        request,
+        holder: displayName(certificate),
+        pdfUrl: URL.createObjectURL(pdf),
+        landscape: getTemplate(certificate.templateId).page.orientation === 'landscape'
+      });
+    } catch (err) {
+      showError(err);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    renderPreview(false);
+  };
+
+  // Issues exactly what was previewed; the server checks the quota (or the roster
+  // redemption limit) again and assigns the certificate number.
+  const handleConfirm = async () => {
+    if (!preview || previewStale) return;
+
+    setLoading('confirm');
+    setError(null);
+
+    try {
+      const issued = await issueCertificate(campaignSlug, preview.request);
+      setStats(issued.stats);
+      rememberCertificate(issued.certificate);
+      rememberDeletionKey(issued.certificate.certificateNo, issued.deletionKey);
+      if (completion) setCompletion({ ...completion, used: true });
+
+      const pdf = await certificatePdf(issued.certificate, campaign?.signedPdf ?? false);
+      downloadBlob(pdf, certificateFileName(issued.certificate.name, issued.certificate.language));
+
+      setIsSuccess(true);
+      setPreview(null);
+      setName('');
+      setAccessCode('');
+      setImpact('');
+      setImpactEn('');
+      setTimeout(() => setIsSuccess(false), 5000);
+
+      // The download already succeeded, so a failed e-mail is reported without undoing it.
+      if (wantsEmail) {
+        try {
+          await emailCertificate(issued.certificate.certificateNo, email.trim());
+          setEmailedTo(email.trim());
+        } catch (err) {
+          console.error(err);
+          setError(err instanceof ApiError ? errorMessage(t, err) : t('errors.emailFailed'));
+        }
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  // Shows the name as it will be printed ("ayşe yılmaz" becomes "Ayşe Yılmaz").
+  const tidyName = () => {
+    const checked = checkPersonName(name, primaryLocale(language));
+    if (checked.ok) setName(displayName(checked.value));
+  };
+
+  const changeLanguage = (value: string) => {
+    if (!isCertificateLanguage(value)) return;
+    setLanguage(value);
+    // Messages are written in the certificate's language, so they are generated again.
+    setImpact('');
+    setImpactEn('');
+  };
+
+  // Messages already written by the provider are dropped when the holder withdraws consent.
+  const changeConsent = (value: boolean) => {
+    setAiConsent(value);
+    setImpact('');
+    setImpactEn('');
+  };
+
+  const busy = loading !== null;
+  const limitReached = ipQuota && stats !== null && count >= limit;
+  const wording = campaign?.translations?.[locale];
+
+  if (notFound) {
+    return (
+      <div className="max-w-lg w-full bg-white rounded-2xl shadow-xl border border-slate-100 p-8 text-center">
+        <i className="fas fa-circle-question text-slate-400 text-3xl mb-3"></i>
+        <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('form.notFoundTitle')}</h3>
+        <p className="text-slate-600 text-sm">{t('form.notFoundBody')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${preview ? 'max-w-3xl' : 'max-w-lg'} w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden transition-all`}>
+      <div className="bg-cyan-900 p-6 text-white flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">{wording?.title ?? campaign?.title ?? t('form.title')}</h2>
+          <p className="text-cyan-200 text-sm">{wording?.description ?? campaign?.description ?? t('form.subtitle')}</p>
+        </div>
+        {ipQuota && (
+          <div className="text-right">
+            <span className="block text-xs uppercase tracking-wider text-cyan-300">{t('form.remaining')}</span>
+            <span className="text-2xl font-bold">{Math.max(0, limit - count)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="p-8">
+        {campaign && campaign.status !== 'open' ? (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 text-center">
+            <i className="fas fa-calendar-xmark text-slate-400 text-3xl mb-3"></i>
+            {campaign.status === 'scheduled' ? (
+              <>
+                <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('form.scheduledTitle')}</h3>
+                <p className="text-slate-600">
+                  {t('form.scheduledBody', { date: campaign.opensAt ? formatDateTime(campaign.opensAt, locale) : '' })}
+                </p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('form.closedTitle')}</h3>
+                <p className="text-slate-600">
+                  {t('form.closedBody', { date: campaign.closesAt ? formatDateTime(campaign.closesAt, locale) : '' })}
+                </p>
+              </>
+            )}
+          </div>
+        ) : tokenMode && !completionToken ? (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 text-center">
+            <i className="fas fa-link text-slate-400 text-3xl mb-3"></i>
+            <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('form.completionRequiredTitle')}</h3>
+            <p className="text-slate-600">{t('form.completionRequiredBody')}</p>
+          </div>
+        ) : completion?.used && !isSuccess ? (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 text-center">
+            <i className="fas fa-circle-check text-green-600 text-3xl mb-3"></i>
+            <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('form.completionUsedTitle')}</h3>
+            <p className="text-slate-600">
+              {t('form.completionUsedBody')}{' '}
+              <a href="#/my" className="underline hover:text-cyan-800">{t('app.footer.mine')}</a>
+            </p>
+          </div>
+        ) : limitReached ? (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 text-center">
+            <i className="fas fa-exclamation-triangle text-amber-500 text-3xl mb-3"></i>
+            <h3 className="text-amber-900 font-semibold text-lg mb-2">{t('form.limitTitle')}</h3>
+            <p className="text-amber-700">{t('form.limitBody', { limit })}</p>
+          </div>
+        ) : (
+          <form onSubmit={handlePreview} className="space-y-6">
+            {rosterMode ? (
+              <div>
+                <label htmlFor="accessCode" className="block text-sm font-medium text-slate-700 mb-2">
+                  {t('form.accessCodeLabel')}
+                </label>
+                <div className="relative">
+                  <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-slate-400">
+                    <i className="fas fa-key"></i>
+                  </span>
+                  <input
+                    type="text"
+                    id="accessCode"
+                    value={accessCode}
+                    onChange={(e) => setAccessCode(e.target.value)}
+                    required
+                    disabled={busy}
+                    autoComplete="off"
+                    placeholder={t('form.accessCodePlaceholder')}
+                    className="block w-full pl-10 pr-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+                  />
+                </div>
+                <p className="mt-2 text-xs text-slate-500">{t('form.accessCodeHelp')}</p>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-slate-700 mb-2">
+                  {t('form.nameLabel')}
+                </label>
+                <div className="relative">
+                  <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-slate-400">
+                    <i className={`fas ${nameLocked ? 'fa-lock' : 'fa-user'}`}></i>
+                  </span>
+                  <input
+                    type="text"
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={nameLocked ? undefined : tidyName}
+                    required
+                    readOnly={nameLocked}
+                    disabled={busy}
+                    placeholder={t('form.namePlaceholder')}
+                    className="block w-full pl-10 pr-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 read-only:bg-slate-50 read-only:text-slate-600"
+                  />
+                </div>
+                <p className="mt-2 text-xs text-slate-500">{t(nameLocked ? 'form.nameFromStudy' : 'form.nameHelp')}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium text-slate-700 mb-2">
+                {t('form.languageLabel')}
+              </label>
+              <select
+                id="language"
+                value={language}
+                onChange={(e) => changeLanguage(e.target.value)}
+                disabled={busy}
+                className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all bg-white disabled:bg-slate-50"
+              >
+                {CERTIFICATE_LANGUAGES.map((option) => (
+                  <option key={option} value={option}>{t(`language.${option}`)}</option>
+                ))}
+              </select>
+            </div>
+
+            {impactMessageProcessor && (
+              <fieldset>
+                <legend className="block text-sm font-medium text-slate-700 mb-2">{t('form.aiConsentLabel')}</legend>
+                <div className="space-y-2">
+                  {([true, false] as const).map((option) => (
+                    <label key={String(option)} className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="aiConsent"
+                        checked={aiConsent === option}
+                        onChange={() => changeConsent(option)}
+                        required
+                        disabled={busy}
+                        className="mt-0.5 h-4 w-4 border-slate-300 text-cyan-700 focus:ring-cyan-500"
+                      />
+                      {option ? t('form.aiConsentYes', { processor: impactMessageProcessor }) : t('form.aiConsentNo')}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-slate-500">
+                  {t('form.aiConsentHelp')}{' '}
+                  <a href={privacyHref(campaignSlug)} className="underline hover:text-cyan-800">{t('app.footer.privacy')}</a>
+                </p>
+              </fieldset>
+            )}
+
+            {campaign?.emailDelivery && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sendEmail}
+                    onChange={(e) => setSendEmail(e.target.checked)}
+                    disabled={busy}
+                    className="h-4 w-4 rounded border-slate-300 text-cyan-700 focus:ring-cyan-500"
+                  />
+                  {t('form.emailOption')}
+                </label>
+                {sendEmail && (
+                  <div className="relative">
+                    <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-slate-400">
+                      <i className="fas fa-envelope"></i>
+                    </span>
+                    <input
+                      type="email"
+                      id="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      disabled={busy}
+                      autoComplete="email"
+                      placeholder={t('form.emailPlaceholder')}
+                      aria-label={t('form.emailLabel')}
+                      className="block w-full pl-10 pr-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+                <i className="fas fa-circle-exclamation"></i>
+                {error}
+              </div>
+            )}
+
+            {isSuccess && (
+              <div className="text-green-700 text-sm flex items-center gap-2 bg-green-50 p-3 rounded-lg border border-green-100">
+                <i className="fas fa-check-circle"></i>
+                <span>
+                  {t('form.success')}{' '}
+                  <a href="#/my" className="underline hover:text-green-900">{t('form.successHistory')}</a>
+                </span>
+              </div>
+            )}
+
+            {emailedTo && (
+              <div className="text-green-700 text-sm flex items-center gap-2 bg-green-50 p-3 rounded-lg border border-green-100">
+                <i className="fas fa-envelope-circle-check"></i>
+                {t('form.emailSent', { email: emailedTo })}
+              </div>
+            )}
+
+            {(!preview || previewStale) && (
+              <button
+                type="submit"
+                disabled={busy || !credential || !campaign || consentMissing || (wantsEmail && !email.trim())}
+                className="w-full bg-cyan-900 hover:bg-cyan-950 text-white font-semibold py-3.5 px-6 rounded-xl transition-all shadow-lg hover:shadow-cyan-900/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading === 'preview' ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin"></i>
+                    {t('form.preparing')}
+                  </>
+                ) : (
+                  <>
+                    <i className="fas fa-eye"></i>
+                    {preview ? t('preview.update') : t('form.submit')}
+                  </>
+                )}
+              </button>
+            )}
+
+            {preview && (
+              <CertificatePreview
+                pdfUrl={preview.pdfUrl}
+                landscape={preview.landscape}
+                holder={preview.holder}
+                impact={impact}
+                impactEn={language === 'tr-en' ? impactEn : undefined}
+                onImpactChange={setImpact}
+                onImpactEnChange={setImpactEn}
+                onRegenerate={() => renderPreview(true)}
+                onConfirm={handleConfirm}
+                stale={previewStale}
+                loading={loading}
+              />
+            )}
+          </form>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-slate-100">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">
+            {t('form.howItWorks')}
+          </h4>
+          <ul className="space-y-3">
+            <li className="flex gap-3 text-sm text-slate-500">
+              <span className="flex-shrink-0 w-5 h-5 bg-slate-100 text-slate-600 rounded-full flex items-center justify-center text-xs font-bold">1</span>
+              <span>{t('form.step1')}</span>
+            </li>
+            <li className="flex gap-3 text-sm text-slate-500">
+              <span className="flex-shrink-0 w-5 h-5 bg-slate-100 text-slate-600 rounded-full flex items-center justify-center text-xs font-bold">2</span>
+              <span>{t('form.step2')}</span>
+            </li>
+            <li className="flex gap-3 text-sm text-slate-500">
+              <span className="flex-shrink-0 w-5 h-5 bg-slate-100 text-slate-600 rounded-full flex items-center justify-center text-xs font-bold">3</span>
+              <span>{t('form.step3')}</span>
+            </li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateForm;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { IMPACT_MESSAGE_LIMITS } from '../utils/impactMessage';
+import { useI18n } from '../i18n/LocaleContext';
+
+interface CertificatePreviewProps {
+  pdfUrl: string;
+  landscape: boolean;
+  holder: string;
+  impact: string;
+  // Only for bilingual certificates
+  impactEn?: string;
+  onImpactChange: (value: string) => void;
+  onImpactEnChange: (value: string) => void;
+  onRegenerate: () => void;
+  onConfirm: () => void;
+  stale: boolean;
+  loading: 'preview' | 'confirm' | null;
+}
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const ImpactField: React.FC<{ id: string; label: string; value: string; disabled: boolean; onChange: (value: string) => void }> = ({
+  id, label, value, disabled, onChange
+}) => {
+  const { t } = useI18n();
+  const words = wordCount(value);
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-2">{label}</label>
+      <textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        rows={2}
+        maxLength={IMPACT_MESSAGE_LIMITS.maxLength}
+        className="block w-full px-3 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 text-sm"
+      />
+      <p className={`mt-1 text-xs text-right ${words > IMPACT_MESSAGE_LIMITS.maxWords ? 'text-red-600' : 'text-slate-400'}`}>
+        {t('preview.wordCount', { count: words, max: IMPACT_MESSAGE_LIMITS.maxWords })}
+      </p>
+    </div>
+  );
+};
+
+// The watermarked certificate with its editable thank-you message; confirming issues it.
+const CertificatePreview: React.FC<CertificatePreviewProps> = ({
+  pdfUrl, landscape, holder, impact, impactEn, onImpactChange, onImpactEnChange, onRegenerate, onConfirm, stale, loading
+}) => {
+  const { t } = useI18n();
+  const busy = loading !== null;
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-slate-100">
+      <div className="flex justify-between items-baseline">
+        <h3 className="text-slate-900 font-semibold">{t('preview.title')}</h3>
+        <a href={pdfUrl} target="_blank" rel="noreferrer" className="text-xs text-cyan-700 hover:text-cyan-900">
+          <i className="fas fa-up-right-from-square mr-1"></i>
+          {t('preview.open')}
+        </a>
+      </div>
+
+      {/* Browsers without an inline PDF viewer (most phones) show the link instead. */}
+      <object
+        data={pdfUrl}
+        type="application/pdf"
+        aria-label={t('preview.title')}
+        className={`w-full rounded-xl border border-slate-200 bg-slate-50 ${landscape ? 'aspect-[297/210]' : 'aspect-[148/210] max-h-[36rem]'}`}
+      >
+        <div className="h-full flex flex-col items-center justify-center gap-2 p-6 text-center text-sm text-slate-500">
+          <i className="fas fa-file-pdf text-3xl text-slate-300"></i>
+          <a href={pdfUrl} target="_blank" rel="noreferrer" className="text-cyan-700 font-medium">{t('preview.open')}</a>
+        </div>
+      </object>
+
+      <p className="text-sm text-slate-600">{t('preview.holder', { name: holder })}</p>
+
+      <ImpactField id="impact" label={t('preview.impactLabel')} value={impact} disabled={busy} onChange={onImpactChange} />
+      {impactEn !== undefined && (
+        <ImpactField id="impactEn" label={t('preview.impactEnLabel')} value={impactEn} disabled={busy} onChange={onImpactEnChange} />
+      )}
+
+      <button
+        type="button"
+        onClick={onRegenerate}
+        disabled={busy}
+        className="text-sm text-cyan-700 hover:text-cyan-900 font-medium flex items-center gap-2 disabled:opacity-50"
+      >
+        <i className={`fas fa-rotate ${loading === 'preview' ? 'fa-spin' : ''}`}></i>
+        {t('preview.regenerate')}
+      </button>
+
+      {stale && (
+        <p className="text-amber-700 text-sm bg-amber-50 p-3 rounded-lg border border-amber-100">{t('preview.stale')}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={onConfirm}
+        disabled={busy || stale}
+        className="w-full bg-cyan-900 hover:bg-cyan-950 text-white font-semibold py-3.5 px-6 rounded-xl transition-all shadow-lg hover:shadow-cyan-900/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {loading === 'confirm' ? (
+          <>
+            <i className="fas fa-spinner fa-spin"></i>
+            {t('form.preparing')}
+          </>
+        ) : (
+          <>
+            <i className="fas fa-file-pdf"></i>
+            {t('preview.confirm')}
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default CertificatePreview;
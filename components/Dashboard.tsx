@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { fetchDashboard } from '../services/dashboardService';
+import { ApiError } from '../services/apiClient';
+import {
+  Bucket, EMPTY_FILTER, ISSUANCE_SOURCES, IssuanceFilter, eventsByCode, filterEvents, filterIssuances,
+  issuanceReportCsv, issuanceReportXlsx, issuancesOverTime, issuancesPerCampaign
+} from '../utils/issuanceReport';
+import { downloadBlob } from '../utils/download';
+import { displayName } from '../utils/personName';
+import { dateLocaleTag } from '../i18n';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { DashboardData, PortalEventKind } from '../types';
+
+const TOKEN_KEY = 'coordinator_token';
+
+const inputClass = 'block w-full px-3 py-2.5 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 bg-white text-sm';
+
+// Horizontal bars, one per bucket, scaled to the largest.
+const BarList: React.FC<{ buckets: Bucket[]; label: (key: string) => string }> = ({ buckets, label }) => {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  return (
+    <ul className="space-y-2">
+      {buckets.map((bucket) => (
+        <li key={bucket.key} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_3rem] items-center gap-3 text-sm">
+          <span className="truncate text-slate-700" title={label(bucket.key)}>{label(bucket.key)}</span>
+          <span className="h-3 bg-slate-100 rounded-full overflow-hidden">
+            <span className="block h-full bg-cyan-600 rounded-full" style={{ width: `${(bucket.count / max) * 100}%` }}></span>
+          </span>
+          <span className="text-right text-slate-600 tabular-nums">{bucket.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const Dashboard: React.FC = () => {
+  const { locale, t } = useI18n();
+  const [adminToken, setAdminToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [filter, setFilter] = useState<IssuanceFilter>(EMPTY_FILTER);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const token = adminToken.trim();
+    if (!token) return;
+
+    setBusy(true);
+    setError(null);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    try {
+      setData(await fetchDashboard(token));
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError && err.status === 401) {
+        sessionStorage.removeItem(TOKEN_KEY);
+      }
+      setError(err instanceof ApiError ? errorMessage(t, err) : t('dashboard.error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (adminToken) load();
+  }, []);
+
+  const issuances = useMemo(() => (data ? filterIssuances(data.issuances, filter) : []), [data, filter]);
+  const events = useMemo(() => (data ? filterEvents(data.events, filter) : []), [data, filter]);
+  const campaignTitles = useMemo(() => new Map(data?.campaigns.map((c) => [c.slug, c.title]) ?? []), [data]);
+  const overTime = useMemo(() => issuancesOverTime(issuances), [issuances]);
+  const maxPerPeriod = Math.max(1, ...overTime.map((bucket) => bucket.count));
+
+  const eventsOf = (kind: PortalEventKind) => events.filter((event) => event.kind === kind);
+  const total = (kind: PortalEventKind) => eventsOf(kind).reduce((sum, event) => sum + event.count, 0);
+  const update = (changes: Partial<IssuanceFilter>) => setFilter((current) => ({ ...current, ...changes }));
+
+  const campaignLabel = (slug: string) => (slug ? campaignTitles.get(slug) ?? slug : t('dashboard.noCampaign'));
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString(dateLocaleTag(locale), { dateStyle: 'medium', timeStyle: 'short' });
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const stats: { label: string; value: number; tone: string }[] = [
+    { label: t('dashboard.stat.views'), value: total('view'), tone: 'text-slate-700' },
+    { label: t('dashboard.stat.starts'), value: total('start'), tone: 'text-slate-700' },
+    { label: t('dashboard.stat.issued'), value: issuances.length, tone: 'text-cyan-800' },
+    { label: t('dashboard.stat.revoked'), value: issuances.filter((i) => i.revokedAt).length, tone: 'text-slate-700' },
+    { label: t('dashboard.stat.quotaReached'), value: total('quotaReached'), tone: 'text-amber-700' },
+    { label: t('dashboard.stat.errors'), value: total('error'), tone: 'text-red-700' },
+    { label: t('dashboard.stat.impactFallback'), value: total('impactFallback'), tone: 'text-violet-700' }
+  ];
+
+  return (
+    <div className="max-w-4xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('dashboard.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('dashboard.subtitle')}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="sm:w-1/2">
+          <label htmlFor="adminToken" className="block text-sm font-medium text-slate-700 mb-2">
+            {t('batch.token')}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              id="adminToken"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && load()}
+              disabled={busy}
+              className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+            />
+            <button
+              type="button"
+              onClick={load}
+              disabled={busy || !adminToken.trim()}
+              className="px-4 border border-slate-300 rounded-xl text-slate-600 hover:border-cyan-500 transition-all disabled:opacity-50"
+              aria-label={t('dashboard.load')}
+            >
+              <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-rotate'}`}></i>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Filters */}
+            <div className="grid sm:grid-cols-3 lg:grid-cols-6 gap-3">
+              <div className="sm:col-span-3 lg:col-span-2">
+                <label htmlFor="dashboardQuery" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.search')}</label>
+                <input
+                  type="search"
+                  id="dashboardQuery"
+                  value={filter.query}
+                  onChange={(e) => update({ query: e.target.value })}
+                  placeholder={t('dashboard.searchPlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="dashboardCampaign" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.campaign')}</label>
+                <select id="dashboardCampaign" value={filter.campaignSlug} onChange={(e) => update({ campaignSlug: e.target.value })} className={inputClass}>
+                  <option value="">{t('dashboard.all')}</option>
+                  {data.campaigns.map((campaign) => (
+                    <option key={campaign.slug} value={campaign.slug}>{campaign.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="dashboardSource" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.source')}</label>
+                <select
+                  id="dashboardSource"
+                  value={filter.source}
+                  onChange={(e) => update({ source: e.target.value as IssuanceFilter['source'] })}
+                  className={inputClass}
+                >
+                  <option value="">{t('dashboard.all')}</option>
+                  {ISSUANCE_SOURCES.map((source) => (
+                    <option key={source} value={source}>{t(`dashboard.source.${source}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="dashboardFrom" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.from')}</label>
+                <input type="date" id="dashboardFrom" value={filter.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label htmlFor="dashboardTo" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.to')}</label>
+                <input type="date" id="dashboardTo" value={filter.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label htmlFor="dashboardStatus" className="block text-xs font-medium text-slate-500 mb-1">{t('dashboard.status')}</label>
+                <select
+                  id="dashboardStatus"
+                  value={filter.status}
+                  onChange={(e) => update({ status: e.target.value as IssuanceFilter['status'] })}
+                  className={inputClass}
+                >
+                  <option value="">{t('dashboard.all')}</option>
+                  <option value="active">{t('dashboard.status.active')}</option>
+                  <option value="revoked">{t('dashboard.status.revoked')}</option>
+                </select>
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="button"
+                  onClick={() => setFilter(EMPTY_FILTER)}
+                  className="text-sm text-cyan-700 hover:text-cyan-900 font-medium flex items-center gap-1 py-2.5"
+                >
+                  <i className="fas fa-filter-circle-xmark"></i>
+                  {t('dashboard.reset')}
+                </button>
+              </div>
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+              {stats.map((stat) => (
+                <div key={stat.label} className="bg-slate-50 border border-slate-100 rounded-xl p-4">
+                  <div className={`text-2xl font-bold tabular-nums ${stat.tone}`}>{stat.value}</div>
+                  <div className="text-xs text-slate-500 mt-1">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {issuances.length === 0 && events.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">{t('dashboard.noData')}</p>
+            ) : (
+              <>
+                {/* Charts */}
+                <div className="grid lg:grid-cols-2 gap-6">
+                  <section>
+                    <h3 className="text-sm font-semibold text-slate-700 mb-3">{t('dashboard.overTime')}</h3>
+                    <div className="flex items-end gap-px h-40 border-b border-slate-200" role="img" aria-label={t('dashboard.overTime')}>
+                      {overTime.map((bucket) => (
+                        <div
+                          key={bucket.key}
+                          title={`${bucket.key}: ${bucket.count}`}
+                          className="flex-1 bg-cyan-600 hover:bg-cyan-800 rounded-t transition-colors"
+                          style={{ height: `${(bucket.count / maxPerPeriod) * 100}%` }}
+                        ></div>
+                      ))}
+                    </div>
+                    {overTime.length > 0 && (
+                      <div className="flex justify-between text-xs text-slate-400 mt-1">
+                        <span>{overTime[0].key}</span>
+                        <span>{overTime[overTime.length - 1].key}</span>
+                      </div>
+                    )}
+                  </section>
+                  <section>
+                    <h3 className="text-sm font-semibold text-slate-700 mb-3">{t('dashboard.perCampaign')}</h3>
+                    <BarList buckets={issuancesPerCampaign(issuances)} label={campaignLabel} />
+                  </section>
+                </div>
+
+                {(total('error') > 0 || total('impactFallback') > 0) && (
+                  <div className="grid lg:grid-cols-2 gap-6">
+                    <section>
+                      <h3 className="text-sm font-semibold text-slate-700 mb-3">{t('dashboard.errorCodes')}</h3>
+                      <BarList buckets={eventsByCode(eventsOf('error'))} label={(code) => code} />
+                    </section>
+                    <section>
+                      <h3 className="text-sm font-semibold text-slate-700 mb-3">{t('dashboard.stat.impactFallback')}</h3>
+                      <BarList buckets={eventsByCode(eventsOf('impactFallback'))} label={(code) => code} />
+                      <p className="text-xs text-slate-500 mt-2">{t('dashboard.fallbackHelp')}</p>
+                    </section>
+                  </div>
+                )}
+
+                {/* Issuance list */}
+                <div className="space-y-3">
+                  <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+                    <span className="text-slate-700 font-medium">{t('dashboard.listed', { count: issuances.length })}</span>
+                    <div className="flex gap-4">
+                      <button
+                        type="button"
+                        onClick={() => downloadBlob(issuanceReportCsv(issuances, campaignTitles), `Sertifikalar_${stamp}.csv`)}
+                        disabled={issuances.length === 0}
+                        className="text-cyan-700 hover:text-cyan-900 font-medium flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <i className="fas fa-file-csv"></i>
+                        {t('dashboard.exportCsv')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => downloadBlob(issuanceReportXlsx(issuances, campaignTitles), `Sertifikalar_${stamp}.xlsx`)}
+                        disabled={issuances.length === 0}
+                        className="text-cyan-700 hover:text-cyan-900 font-medium flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <i className="fas fa-file-excel"></i>
+                        {t('dashboard.exportXlsx')}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="max-h-96 overflow-auto border border-slate-200 rounded-xl">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left">{t('dashboard.col.issuedAt')}</th>
+                          <th className="px-3 py-2 text-left">{t('batch.col.certificateNo')}</th>
+                          <th className="px-3 py-2 text-left">{t('batch.col.name')}</th>
+                          <th className="px-3 py-2 text-left">{t('dashboard.col.campaign')}</th>
+                          <th className="px-3 py-2 text-left">{t('dashboard.source')}</th>
+                          <th className="px-3 py-2 text-left">{t('dashboard.status')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {issuances.map((issuance) => (
+                          <tr key={issuance.certificateNo} className="border-t border-slate-100">
+                            <td className="px-3 py-2 text-slate-600 whitespace-nowrap">{formatDate(issuance.issuedAt)}</td>
+                            <td className="px-3 py-2 font-mono">
+                              <a href={`#/verify/${encodeURIComponent(issuance.certificateNo)}`} className="text-cyan-700 hover:text-cyan-900">
+                                {issuance.certificateNo}
+                              </a>
+                            </td>
+                            <td className="px-3 py-2 text-slate-900">{displayName(issuance)}</td>
+                            <td className="px-3 py-2 text-slate-600">{campaignLabel(issuance.campaignSlug ?? '')}</td>
+                            <td className="px-3 py-2 text-slate-600">{t(`dashboard.source.${issuance.source}`)}</td>
+                            <td className={`px-3 py-2 ${issuance.revokedAt ? 'text-red-600' : 'text-green-700'}`}>
+                              {t(issuance.revokedAt ? 'dashboard.status.revoked' : 'dashboard.status.active')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
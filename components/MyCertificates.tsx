@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { ApiError } from '../services/apiClient';
+import { fetchPortalFeatures } from '../services/campaignService';
+import { deleteCertificateData, findCertificate } from '../services/ledgerService';
+import { certificateCredential, certificatePdf } from '../services/certificateDocumentService';
+import {
+  deletionKeyOf, forgetCertificate, forgetDeletedCertificate, loadHistory, refreshCertificate, rememberCertificate
+} from '../services/certificateHistory';
+import { certificateFileName } from '../utils/pdfUtils';
+import { addToProfileUrl } from '../utils/openBadge';
+import { buildVerifyUrl } from '../utils/routing';
+import { downloadBlob } from '../utils/download';
+import { isValidCertificateNo, normalizeCertificateNo } from '../utils/certificateNumber';
+import { displayName } from '../utils/personName';
+import { MissingGlyphsError } from '../fonts';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { IssuedCertificate } from '../types';
+
+// Certificates issued in this browser. Downloads render the stored data again, so they are
+// identical to the original file and never count towards a quota.
+const MyCertificates: React.FC = () => {
+  const { t } = useI18n();
+  const [certificates, setCertificates] = useState<IssuedCertificate[]>(loadHistory);
+  const [signedPdf, setSignedPdf] = useState(false);
+  const [openBadges, setOpenBadges] = useState(false);
+  const [query, setQuery] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleted, setDeleted] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Without the API the certificates are still rendered locally, unsigned.
+    fetchPortalFeatures()
+      .then((features) => {
+        setSignedPdf(features.signedPdf);
+        setOpenBadges(features.openBadges);
+      })
+      .catch(() => undefined);
+
+    // Picks up revocations made since the certificates were saved. A certificate whose data was
+    // deleted (possibly from another device) only has a tombstone left, so it is dropped here too.
+    let cancelled = false;
+    loadHistory().forEach((saved) => {
+      findCertificate(saved.certificateNo)
+        .then((current) => {
+          if (cancelled) return;
+          setCertificates(current.erasedAt ? forgetDeletedCertificate(current.certificateNo) : refreshCertificate(current));
+        })
+        .catch(() => undefined);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleDownload = async (certificate: IssuedCertificate) => {
+    setBusy(certificate.certificateNo);
+    setError(null);
+    try {
+      const pdf = await certificatePdf(certificate, signedPdf);
+      downloadBlob(pdf, certificateFileName(certificate.name, certificate.language));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof MissingGlyphsError
+        ? t('errors.missingGlyphs', { characters: err.characters.join(' ') })
+        : t('errors.pdfFailed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async (certificate: IssuedCertificate, format: 'credential' | 'badge') => {
+    setBusy(`${format}:${certificate.certificateNo}`);
+    setError(null);
+    try {
+      const file = await certificateCredential(certificate.certificateNo, format);
+      const pdfName = certificateFileName(certificate.name, certificate.language);
+      downloadBlob(file, pdfName.replace(/\.pdf$/, format === 'badge' ? '.png' : '.json'));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ApiError ? errorMessage(t, err) : t('errors.serviceUnavailable'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Deletes the ledger record for good; only possible in the browser that claimed the certificate.
+  const handleDeleteData = async (certificate: IssuedCertificate) => {
+    const deletionKey = deletionKeyOf(certificate.certificateNo);
+    if (!deletionKey || !window.confirm(t('mine.deleteDataConfirm', { certificateNo: certificate.certificateNo }))) return;
+
+    setBusy(`delete:${certificate.certificateNo}`);
+    setError(null);
+    setDeleted(null);
+    try {
+      await deleteCertificateData(certificate.certificateNo, deletionKey);
+      setCertificates(forgetDeletedCertificate(certificate.certificateNo));
+      setDeleted(certificate.certificateNo);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ApiError ? errorMessage(t, err) : t('errors.serviceUnavailable'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Certificates from another device (or an e-mail) can be added by number.
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const raw = query.trim();
+    if (!raw) return;
+
+    const normalized = normalizeCertificateNo(raw);
+    setBusy('add');
+    setError(null);
+    try {
+      const found = await findCertificate(isValidCertificateNo(normalized) ? normalized : raw);
+      if (found.erasedAt) {
+        setError(t('mine.erased', { certificateNo: found.certificateNo }));
+        return;
+      }
+      setCertificates(rememberCertificate(found));
+      setQuery('');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ApiError && err.status === 404 ? t('mine.notFound') : t('errors.serviceUnavailable'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('mine.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('mine.subtitle')}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        {certificates.length === 0 ? (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 text-center">
+            <i className="fas fa-folder-open text-slate-400 text-3xl mb-3"></i>
+            <p className="text-slate-600 text-sm">{t('mine.empty')}</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {certificates.map((certificate) => (
+              <li
+                key={certificate.certificateNo}
+                className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between border border-slate-200 rounded-xl p-4"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-slate-900 truncate">
+                    {displayName(certificate)}
+                    {certificate.revocation && (
+                      <span className="ml-2 align-middle text-xs font-semibold uppercase tracking-wider text-red-700 bg-red-50 border border-red-100 rounded px-1.5 py-0.5">
+                        {t('mine.revoked')}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-slate-500 truncate">
+                    {[certificate.departmentOrUnit ?? certificate.institution, certificate.date, t(`language.${certificate.language ?? 'tr'}`)]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                  <a href={`#/verify/${encodeURIComponent(certificate.certificateNo)}`} className="text-xs font-mono text-cyan-700 hover:text-cyan-900">
+                    {certificate.certificateNo}
+                  </a>
+                  <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                    {!certificate.revocation && !certificate.erasedAt && (
+                      <>
+                        {openBadges && (['badge', 'credential'] as const).map((format) => (
+                          <button
+                            key={format}
+                            type="button"
+                            onClick={() => handleExport(certificate, format)}
+                            disabled={busy !== null}
+                            className="text-slate-600 hover:text-cyan-800 transition-colors disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <i className={`fas ${busy === `${format}:${certificate.certificateNo}` ? 'fa-spinner fa-spin' : format === 'badge' ? 'fa-award' : 'fa-file-code'}`}></i>
+                            {t(`mine.${format}`)}
+                          </button>
+                        ))}
+                        <a
+                          href={addToProfileUrl({ ...certificate, verificationUrl: buildVerifyUrl(certificate.certificateNo) })}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-slate-600 hover:text-cyan-800 transition-colors flex items-center gap-1"
+                        >
+                          <i className="fab fa-linkedin"></i>
+                          {t('mine.addToProfile')}
+                        </a>
+                      </>
+                    )}
+                    {deletionKeyOf(certificate.certificateNo) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteData(certificate)}
+                        disabled={busy !== null}
+                        className="text-slate-600 hover:text-red-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <i className={`fas ${busy === `delete:${certificate.certificateNo}` ? 'fa-spinner fa-spin' : 'fa-user-slash'}`}></i>
+                        {t('mine.deleteData')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {certificate.revocation ? (
+                    certificate.replacedBy && (
+                      <a
+                        href={`#/verify/${encodeURIComponent(certificate.replacedBy)}`}
+                        className="text-sm font-semibold py-2 px-4 rounded-lg border border-slate-200 text-cyan-800 hover:border-cyan-500 transition-all flex items-center gap-2"
+                      >
+                        <i className="fas fa-arrow-right"></i>
+                        {t('mine.replacement')}
+                      </a>
+                    )
+                  ) : !certificate.erasedAt && (
+                    <button
+                      type="button"
+                      onClick={() => handleDownload(certificate)}
+                      disabled={busy !== null}
+                      className="bg-cyan-900 hover:bg-cyan-950 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <i className={`fas ${busy === certificate.certificateNo ? 'fa-spinner fa-spin' : 'fa-download'}`}></i>
+                      {t('mine.download')}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setCertificates(forgetCertificate(certificate.certificateNo))}
+                    disabled={busy !== null}
+                    aria-label={t('mine.remove')}
+                    title={t('mine.remove')}
+                    className="text-slate-400 hover:text-red-600 px-3 rounded-lg border border-slate-200 transition-colors disabled:opacity-50"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        )}
+
+        {deleted && (
+          <div className="text-green-700 text-sm flex items-center gap-2 bg-green-50 p-3 rounded-lg border border-green-100">
+            <i className="fas fa-check-circle"></i>
+            {t('mine.dataDeleted', { certificateNo: deleted })}
+          </div>
+        )}
+
+        <p className="text-xs text-slate-500">
+          {t('mine.privacyNote')}{' '}
+          <a href="#/privacy" className="underline hover:text-cyan-800">{t('app.footer.privacy')}</a>
+        </p>
+
+        <form onSubmit={handleAdd} className="pt-6 border-t border-slate-100 space-y-2">
+          <label htmlFor="addCertificate" className="block text-sm font-medium text-slate-700">{t('mine.addLabel')}</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              id="addCertificate"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('verify.placeholder')}
+              className="flex-1 px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all font-mono uppercase"
+            />
+            <button
+              type="submit"
+              disabled={busy !== null || !query.trim()}
+              className="px-5 bg-cyan-900 hover:bg-cyan-950 text-white rounded-xl transition-all disabled:opacity-50"
+              aria-label={t('mine.add')}
+            >
+              <i className={`fas ${busy === 'add' ? 'fa-spinner fa-spin' : 'fa-plus'}`}></i>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MyCertificates;
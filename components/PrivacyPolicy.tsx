@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { ApiError } from '../services/apiClient';
+import { fetchCampaign } from '../services/campaignService';
+import { DEFAULT_CAMPAIGN_SLUG } from '../utils/routing';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/LocaleContext';
+import { CampaignInfo } from '../types';
+
+interface PrivacyPolicyProps {
+  campaignSlug: string;
+}
+
+// KVKK/GDPR notice for one study, put together from its campaign configuration: what the portal
+// stores for it, who is responsible, how long records are kept and how to have them deleted.
+const PrivacyPolicy: React.FC<PrivacyPolicyProps> = ({ campaignSlug }) => {
+  const { locale, t } = useI18n();
+  const [campaign, setCampaign] = useState<CampaignInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCampaign(campaignSlug)
+      .then(setCampaign)
+      .catch((err) => {
+        console.error("Campaign lookup failed", err);
+        setError(t(err instanceof ApiError && err.status === 404 ? 'errors.campaignNotFound' : 'errors.serviceUnavailable'));
+      });
+  }, [campaignSlug]);
+
+  const wording = campaign?.translations?.[locale];
+  const privacy = campaign?.privacy ?? {};
+  const controller = privacy.controller ?? wording?.institution ?? campaign?.extras.institution;
+
+  // Only what this study actually records.
+  const storedData: MessageKey[] = campaign ? [
+    'privacy.dataName',
+    'privacy.dataIp',
+    ...(campaign.roster ? ['privacy.dataRoster' as const] : []),
+    ...(campaign.completionTokens ? ['privacy.dataCompletion' as const] : []),
+    ...(campaign.emailDelivery ? ['privacy.dataEmail' as const] : []),
+    'privacy.dataEvents'
+  ] : [];
+
+  const section = (title: MessageKey, body: React.ReactNode) => (
+    <section>
+      <h3 className="text-sm font-bold text-slate-900 mb-2">{t(title)}</h3>
+      <div className="text-sm text-slate-600 space-y-2">{body}</div>
+    </section>
+  );
+
+  return (
+    <div className="max-w-2xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('privacy.title')}</h2>
+        <p className="text-cyan-200 text-sm">
+          {campaign && campaignSlug !== DEFAULT_CAMPAIGN_SLUG ? wording?.title ?? campaign.title : t('privacy.subtitle')}
+        </p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        {error ? (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        ) : !campaign ? (
+          <div className="text-center text-slate-400">
+            <i className="fas fa-spinner fa-spin text-2xl"></i>
+          </div>
+        ) : (
+          <>
+            {section('privacy.controllerTitle', (
+              <p>{controller ? t('privacy.controller', { controller }) : t('privacy.controllerTeam')}</p>
+            ))}
+
+            {section('privacy.dataTitle', (
+              <ul className="list-disc pl-5 space-y-1">
+                {storedData.map((key) => <li key={key}>{t(key)}</li>)}
+              </ul>
+            ))}
+
+            {section('privacy.aiTitle', (
+              <p>{campaign.impactMessageProcessor ? t('privacy.aiConsent', { processor: campaign.impactMessageProcessor }) : t('privacy.aiNone')}</p>
+            ))}
+
+            {section('privacy.browserTitle', <p>{t('privacy.browser')}</p>)}
+
+            {section('privacy.retentionTitle', (
+              <p>
+                {privacy.retentionDays
+                  ? t('privacy.retention', { days: privacy.retentionDays })
+                  : t('privacy.retentionNone')}
+              </p>
+            ))}
+
+            {section('privacy.rightsTitle', (
+              <>
+                <p>{t('privacy.rights')}</p>
+                <p>
+                  {t('privacy.deleteSelf')}{' '}
+                  <a href="#/my" className="underline text-cyan-700 hover:text-cyan-900">{t('app.footer.mine')}</a>
+                </p>
+                <p>
+                  {privacy.contactEmail ? (
+                    <>
+                      {t('privacy.contact')}{' '}
+                      <a href={`mailto:${privacy.contactEmail}`} className="underline text-cyan-700 hover:text-cyan-900">
+                        {privacy.contactEmail}
+                      </a>
+                    </>
+                  ) : t('privacy.contactTeam')}
+                </p>
+              </>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyPolicy;
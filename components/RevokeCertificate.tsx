@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { ApiError } from '../services/apiClient';
+import { fetchPortalFeatures } from '../services/campaignService';
+import { findCertificate, revokeCertificate } from '../services/ledgerService';
+import { certificatePdf } from '../services/certificateDocumentService';
+import { certificateFileName } from '../utils/pdfUtils';
+import { downloadBlob } from '../utils/download';
+import { isValidCertificateNo, normalizeCertificateNo } from '../utils/certificateNumber';
+import { IMPACT_MESSAGE_LIMITS } from '../utils/impactMessage';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { IssuedCertificate, RevocationResult } from '../types';
+
+interface RevokeCertificateProps {
+  certificateNo: string;
+}
+
+const TOKEN_KEY = 'coordinator_token';
+
+// Coordinator page: revokes a certificate and, for corrections, issues a new one that replaces it.
+const RevokeCertificate: React.FC<RevokeCertificateProps> = ({ certificateNo }) => {
+  const { t } = useI18n();
+  const [adminToken, setAdminToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [query, setQuery] = useState(certificateNo);
+  const [certificate, setCertificate] = useState<IssuedCertificate | null>(null);
+  const [reason, setReason] = useState('');
+  const [reissue, setReissue] = useState(false);
+  const [name, setName] = useState('');
+  const [impactMessage, setImpactMessage] = useState('');
+  const [result, setResult] = useState<RevocationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookUp = async (raw: string) => {
+    const normalized = normalizeCertificateNo(raw);
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const found = await findCertificate(isValidCertificateNo(normalized) ? normalized : raw.trim());
+      setCertificate(found);
+      setName(found.name);
+      setImpactMessage(found.impactMessage);
+    } catch (err) {
+      console.error(err);
+      setCertificate(null);
+      setError(err instanceof ApiError && err.status === 404 ? t('verify.notFoundTitle') : t('errors.serviceUnavailable'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (certificateNo) lookUp(certificateNo);
+  }, [certificateNo]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) lookUp(query);
+  };
+
+  const handleRevoke = async () => {
+    const token = adminToken.trim();
+    if (!certificate || !token || !reason.trim()) return;
+    if (!window.confirm(t('revoke.confirm', { certificateNo: certificate.certificateNo }))) return;
+
+    setBusy(true);
+    setError(null);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    try {
+      const revoked = await revokeCertificate(certificate.certificateNo, {
+        reason: reason.trim(),
+        reissue: reissue ? { name: name.trim(), impactMessage: impactMessage.trim() } : undefined
+      }, token);
+      setResult(revoked);
+      setCertificate(revoked.revoked);
+      setReason('');
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError && err.status === 401) {
+        sessionStorage.removeItem(TOKEN_KEY);
+      }
+      setError(err instanceof ApiError ? errorMessage(t, err) : t('revoke.error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadReplacement = async (replacement: IssuedCertificate) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { signedPdf } = await fetchPortalFeatures();
+      const pdf = await certificatePdf(replacement, signedPdf);
+      downloadBlob(pdf, certificateFileName(replacement.name, replacement.language));
+    } catch (err) {
+      console.error(err);
+      setError(t('errors.pdfFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('revoke.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('revoke.subtitle')}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div>
+          <label htmlFor="adminToken" className="block text-sm font-medium text-slate-700 mb-2">
+            {t('batch.token')}
+          </label>
+          <input
+            type="password"
+            id="adminToken"
+            value={adminToken}
+            onChange={(e) => setAdminToken(e.target.value)}
+            disabled={busy}
+            className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+          />
+        </div>
+
+        <form onSubmit={handleLookup}>
+          <label htmlFor="revokeNo" className="block text-sm font-medium text-slate-700 mb-2">
+            {t('verify.certificateNo')}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              id="revokeNo"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('verify.placeholder')}
+              disabled={busy}
+              className="flex-1 px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all font-mono uppercase disabled:bg-slate-50"
+            />
+            <button
+              type="submit"
+              disabled={busy || !query.trim()}
+              className="bg-cyan-900 hover:bg-cyan-950 text-white font-semibold px-5 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={t('revoke.lookup')}
+            >
+              <i className="fas fa-magnifying-glass"></i>
+            </button>
+          </div>
+        </form>
+
+        {certificate && (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm space-y-1">
+            <p className="font-semibold text-slate-900">{certificate.name}</p>
+            <p className="text-slate-500">{certificate.date} · <span className="font-mono">{certificate.certificateNo}</span></p>
+            {certificate.revocation && (
+              <p className="text-red-700">
+                <i className="fas fa-ban mr-1"></i>
+                {t('revoke.alreadyRevoked', { reason: certificate.revocation.reason })}
+              </p>
+            )}
+          </div>
+        )}
+
+        {certificate && !certificate.revocation && (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="revokeReason" className="block text-sm font-medium text-slate-700 mb-2">
+                {t('revoke.reason')}
+              </label>
+              <textarea
+                id="revokeReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                disabled={busy}
+                rows={2}
+                maxLength={300}
+                className="block w-full px-3 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 text-sm"
+              />
+              <p className="mt-1 text-xs text-slate-500">{t('revoke.reasonHelp')}</p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={reissue}
+                onChange={(e) => setReissue(e.target.checked)}
+                disabled={busy}
+                className="rounded border-slate-300 text-cyan-700 focus:ring-cyan-500"
+              />
+              {t('revoke.reissue')}
+            </label>
+
+            {reissue && (
+              <div className="space-y-4 pl-6 border-l-2 border-cyan-100">
+                <div>
+                  <label htmlFor="reissueName" className="block text-sm font-medium text-slate-700 mb-2">
+                    {t('revoke.reissueName')}
+                  </label>
+                  <input
+                    type="text"
+                    id="reissueName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={busy}
+                    maxLength={120}
+                    className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="reissueImpact" className="block text-sm font-medium text-slate-700 mb-2">
+                    {t('preview.impactLabel')}
+                  </label>
+                  <textarea
+                    id="reissueImpact"
+                    value={impactMessage}
+                    onChange={(e) => setImpactMessage(e.target.value)}
+                    disabled={busy}
+                    rows={2}
+                    maxLength={IMPACT_MESSAGE_LIMITS.maxLength}
+                    className="block w-full px-3 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50 text-sm"
+                  />
+                </div>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={handleRevoke}
+              disabled={busy || !reason.trim() || !adminToken.trim() || (reissue && !name.trim())}
+              className="w-full bg-red-700 hover:bg-red-800 text-white font-semibold py-3.5 px-6 rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-ban'}`}></i>
+              {reissue ? t('revoke.submitReissue') : t('revoke.submit')}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="text-green-700 text-sm bg-green-50 p-4 rounded-lg border border-green-100 space-y-3">
+            <p className="flex items-center gap-2">
+              <i className="fas fa-check-circle"></i>
+              {result.replacement
+                ? t('revoke.doneReissued', { revoked: result.revoked.certificateNo, replacement: result.replacement.certificateNo })
+                : t('revoke.done', { revoked: result.revoked.certificateNo })}
+            </p>
+            {result.replacement && (
+              <button
+                type="button"
+                onClick={() => handleDownloadReplacement(result.replacement!)}
+                disabled={busy}
+                className="bg-cyan-900 hover:bg-cyan-950 text-white font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2 disabled:opacity-50"
+              >
+                <i className="fas fa-download"></i>
+                {t('revoke.downloadReplacement')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevokeCertificate;
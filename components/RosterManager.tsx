@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { fetchRoster, uploadRoster } from '../services/rosterService';
+import { ApiError } from '../services/apiClient';
+import { ParsedRosterRow, parseRosterFile, rosterCsv } from '../utils/participantList';
+import { downloadBlob } from '../utils/download';
+import { errorMessage, useI18n } from '../i18n/LocaleContext';
+import { Roster } from '../types';
+
+interface RosterManagerProps {
+  campaignSlug: string;
+}
+
+const TOKEN_KEY = 'coordinator_token';
+
+const RosterManager: React.FC<RosterManagerProps> = ({ campaignSlug }) => {
+  const { t } = useI18n();
+  const [adminToken, setAdminToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ParsedRosterRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const invalidCount = rows?.filter((r) => r.errors.length > 0).length ?? 0;
+
+  const withToken = async (action: (token: string) => Promise<Roster>) => {
+    const token = adminToken.trim();
+    if (!token) return;
+
+    setBusy(true);
+    setError(null);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    try {
+      setRoster(await action(token));
+      return true;
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError && err.status === 401) {
+        sessionStorage.removeItem(TOKEN_KEY);
+      }
+      setError(err instanceof ApiError ? errorMessage(t, err) : t('roster.error'));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (adminToken) withToken((token) => fetchRoster(campaignSlug, token));
+  }, [campaignSlug]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setDoneMessage(null);
+    setFileName(file.name);
+
+    try {
+      setRows((await parseRosterFile(file)).rows);
+    } catch (err) {
+      console.error(err);
+      setRows(null);
+      setError(err instanceof Error ? err.message : t('batch.fileError'));
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!rows || invalidCount > 0) return;
+
+    setDoneMessage(null);
+    const uploaded = await withToken((token) => uploadRoster(campaignSlug, rows.map((r) => r.entry), token));
+    if (uploaded) {
+      setDoneMessage(t('roster.uploaded', { count: rows.length }));
+      setRows(null);
+      setFileName('');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('roster.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('roster.subtitle', { slug: campaignSlug })}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="adminToken" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('batch.token')}
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                id="adminToken"
+                value={adminToken}
+                onChange={(e) => setAdminToken(e.target.value)}
+                disabled={busy}
+                className="block w-full px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all disabled:bg-slate-50"
+              />
+              <button
+                type="button"
+                onClick={() => withToken((token) => fetchRoster(campaignSlug, token))}
+                disabled={busy || !adminToken.trim()}
+                className="px-4 border border-slate-300 rounded-xl text-slate-600 hover:border-cyan-500 transition-all disabled:opacity-50"
+                aria-label={t('roster.load')}
+              >
+                <i className="fas fa-rotate"></i>
+              </button>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="rosterFile" className="block text-sm font-medium text-slate-700 mb-2">
+              {t('roster.file')}
+            </label>
+            <label className="flex items-center gap-2 w-full px-3 py-3 border border-dashed border-slate-300 rounded-xl cursor-pointer text-slate-500 hover:border-cyan-500 transition-all">
+              <i className="fas fa-file-csv"></i>
+              <span className="truncate">{fileName || t('batch.filePlaceholder')}</span>
+              <input
+                type="file"
+                id="rosterFile"
+                accept=".csv,.xlsx,.xls,.ods,text/csv"
+                onChange={handleFile}
+                disabled={busy}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500">{t('roster.columnsHelp')}</p>
+
+        {rows && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-slate-700 font-medium">{t('batch.rowsRead', { count: rows.length })}</span>
+              {invalidCount > 0 && (
+                <span className="text-red-600">{t('batch.rowsInvalid', { count: invalidCount })}</span>
+              )}
+            </div>
+            {invalidCount > 0 && (
+              <ul className="text-red-600 text-sm bg-red-50 p-3 rounded-lg border border-red-100 space-y-1">
+                {rows.filter((r) => r.errors.length > 0).map(({ line, errors }) => (
+                  <li key={line}>{t('batch.col.line')} {line}: {errors.join(' ')}</li>
+                ))}
+              </ul>
+            )}
+            <button
+              type="button"
+              onClick={handleUpload}
+              disabled={busy || rows.length === 0 || invalidCount > 0 || !adminToken.trim()}
+              className="w-full bg-cyan-900 hover:bg-cyan-950 text-white font-semibold py-3.5 px-6 rounded-xl transition-all shadow-lg hover:shadow-cyan-900/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-upload'}`}></i>
+              {t('roster.submit')}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {error}
+          </div>
+        )}
+
+        {doneMessage && (
+          <div className="text-green-700 text-sm flex items-center gap-2 bg-green-50 p-3 rounded-lg border border-green-100">
+            <i className="fas fa-check-circle"></i>
+            {doneMessage}
+          </div>
+        )}
+
+        {roster && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-slate-700 font-medium">
+                {t('roster.summary', {
+                  count: roster.entries.length,
+                  redeemed: roster.entries.filter((entry) => entry.redemptions > 0).length,
+                  limit: roster.redemptionLimit
+                })}
+              </span>
+              <button
+                type="button"
+                onClick={() => downloadBlob(rosterCsv(roster.entries), `Erisim_Kodlari_${roster.campaignSlug}.csv`)}
+                disabled={roster.entries.length === 0}
+                className="text-cyan-700 hover:text-cyan-900 font-medium flex items-center gap-1 disabled:opacity-50"
+              >
+                <i className="fas fa-download"></i>
+                {t('roster.downloadCodes')}
+              </button>
+            </div>
+
+            <div className="max-h-96 overflow-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{t('batch.col.name')}</th>
+                    <th className="px-3 py-2 text-left">{t('roster.col.accessCode')}</th>
+                    <th className="px-3 py-2 text-left">{t('roster.col.email')}</th>
+                    <th className="px-3 py-2 text-left">{t('roster.col.redemptions')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {roster.entries.map((entry) => (
+                    <tr key={entry.accessCode} className="border-t border-slate-100">
+                      <td className="px-3 py-2 text-slate-900">{entry.name}</td>
+                      <td className="px-3 py-2 text-slate-600 font-mono">{entry.accessCode}</td>
+                      <td className="px-3 py-2 text-slate-600">{entry.email}</td>
+                      <td className={`px-3 py-2 ${entry.redemptions >= roster.redemptionLimit ? 'text-green-700' : 'text-slate-600'}`}>
+                        {entry.redemptions}/{roster.redemptionLimit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RosterManager;
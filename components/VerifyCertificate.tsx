@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { ApiError } from '../services/apiClient';
+import { findCertificate } from '../services/ledgerService';
+import { isValidCertificateNo, normalizeCertificateNo } from '../utils/certificateNumber';
+import { navigate } from '../utils/routing';
+import { displayName } from '../utils/personName';
+import { formatHours, formatPeriod } from '../utils/participation';
+import { PDF_STRINGS } from '../i18n/pdfStrings';
+import { MessageKey, formatCertificateDate, primaryLocale } from '../i18n';
+import { useI18n } from '../i18n/LocaleContext';
+import { IssuedCertificate } from '../types';
+
+interface VerifyCertificateProps {
+  certificateNo: string;
+}
+
+type LookupState = 'idle' | 'loading' | 'found' | 'not-found' | 'error';
+
+// Participation details as printed, in the certificate's own language.
+const participationRows = (certificate: IssuedCertificate): [MessageKey, string][] => {
+  const locale = primaryLocale(certificate.language ?? 'tr');
+  const rows: [MessageKey, string | undefined][] = [
+    ['verify.studyTitle', certificate.studyTitle],
+    ['verify.ethicsApprovalNo', certificate.ethicsApprovalNo],
+    ['verify.role', certificate.role],
+    ['verify.period', formatPeriod(certificate, locale)],
+    ['verify.totalHours', certificate.totalHours ? formatHours(certificate.totalHours, locale) : undefined]
+  ];
+  return rows.filter((row): row is [MessageKey, string] => Boolean(row[1]));
+};
+
+const VerifyCertificate: React.FC<VerifyCertificateProps> = ({ certificateNo }) => {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState(certificateNo);
+  const [state, setState] = useState<LookupState>('idle');
+  const [certificate, setCertificate] = useState<IssuedCertificate | null>(null);
+
+  useEffect(() => {
+    setQuery(certificateNo);
+    if (!certificateNo) {
+      setState('idle');
+      return;
+    }
+
+    // Portal numbers are normalized (typos like O/0); study-specific numbers from batch lists are sent as written.
+    const normalized = normalizeCertificateNo(certificateNo);
+    const lookupNo = isValidCertificateNo(normalized) ? normalized : certificateNo.trim();
+
+    let cancelled = false;
+    setState('loading');
+
+    findCertificate(lookupNo)
+      .then((found) => {
+        if (cancelled) return;
+        setCertificate(found);
+        setState('found');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.status === 404) {
+          setState('not-found');
+        } else {
+          console.error("Certificate lookup failed", err);
+          setState('error');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificateNo]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    navigate(`/verify/${encodeURIComponent(query.trim())}`);
+  };
+
+  return (
+    <div className="max-w-lg w-full bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
+      <div className="bg-cyan-900 p-6 text-white">
+        <h2 className="text-xl font-semibold">{t('verify.title')}</h2>
+        <p className="text-cyan-200 text-sm">{t('verify.subtitle')}</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('verify.placeholder')}
+            className="flex-1 px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all font-mono uppercase"
+          />
+          <button
+            type="submit"
+            disabled={!query.trim()}
+            className="bg-cyan-900 hover:bg-cyan-950 text-white font-semibold px-5 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-magnifying-glass"></i>
+          </button>
+        </form>
+
+        {state === 'loading' && (
+          <div className="text-slate-500 text-sm flex items-center gap-2">
+            <i className="fas fa-spinner fa-spin"></i>
+            {t('verify.loading')}
+          </div>
+        )}
+
+        {state === 'error' && (
+          <div className="text-red-600 text-sm flex items-center gap-2 bg-red-50 p-3 rounded-lg border border-red-100">
+            <i className="fas fa-circle-exclamation"></i>
+            {t('verify.error')}
+          </div>
+        )}
+
+        {state === 'not-found' && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+            <i className="fas fa-circle-xmark text-red-500 text-3xl mb-3"></i>
+            <h3 className="text-red-900 font-semibold text-lg mb-2">{t('verify.notFoundTitle')}</h3>
+            <p className="text-red-700 text-sm">{t('verify.notFoundBody')}</p>
+          </div>
+        )}
+
+        {state === 'found' && certificate?.erasedAt && !certificate.revocation && (
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 text-center">
+            <i className="fas fa-user-slash text-slate-400 text-3xl mb-3"></i>
+            <h3 className="text-slate-900 font-semibold text-lg mb-2">{t('verify.erasedTitle')}</h3>
+            <p className="text-slate-600 text-sm">{t('verify.erasedBody', { certificateNo: certificate.certificateNo })}</p>
+          </div>
+        )}
+
+        {state === 'found' && certificate && (!certificate.erasedAt || certificate.revocation) && (
+          <div className={`${certificate.revocation ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'} border rounded-xl p-6`}>
+            {certificate.revocation ? (
+              <div className="mb-4 space-y-2">
+                <div className="flex items-center gap-2 text-red-800 font-semibold">
+                  <i className="fas fa-ban text-red-600 text-xl"></i>
+                  {t('verify.revoked')}
+                </div>
+                <p className="text-red-700 text-sm">
+                  {t('verify.revokedBody', {
+                    date: formatCertificateDate(new Date(certificate.revocation.revokedAt), locale),
+                    reason: certificate.revocation.reason
+                  })}
+                </p>
+                {certificate.replacedBy && (
+                  <a
+                    href={`#/verify/${encodeURIComponent(certificate.replacedBy)}`}
+                    className="inline-block text-sm text-red-800 font-medium underline hover:text-red-950"
+                  >
+                    {t('verify.replacedBy', { certificateNo: certificate.replacedBy })}
+                  </a>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-green-800 font-semibold mb-4">
+                <i className="fas fa-circle-check text-green-600 text-xl"></i>
+                {t('verify.valid')}
+              </div>
+            )}
+            <dl className="space-y-3 text-sm">
+              {/* A revoked certificate whose holder's data was deleted keeps only its number */}
+              {!certificate.erasedAt && (
+                <>
+                  <div>
+                    <dt className="text-xs uppercase tracking-wider text-slate-400">{t('verify.holder')}</dt>
+                    <dd className="text-slate-900 font-semibold text-lg">{displayName(certificate)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs uppercase tracking-wider text-slate-400">{t('verify.issueDate')}</dt>
+                    <dd className="text-slate-700">{certificate.date}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs uppercase tracking-wider text-slate-400">{t('verify.study')}</dt>
+                    <dd className="text-slate-700">
+                      {/* Shown as printed: the certificate's own wording, else its language's standard wording */}
+                      {certificate.institution ?? PDF_STRINGS[primaryLocale(certificate.language ?? 'tr')].institution}
+                      {' — '}
+                      {certificate.departmentOrUnit ?? PDF_STRINGS[primaryLocale(certificate.language ?? 'tr')].departmentOrUnit}
+                    </dd>
+                  </div>
+                  {participationRows(certificate).map(([key, value]) => (
+                    <div key={key}>
+                      <dt className="text-xs uppercase tracking-wider text-slate-400">{t(key)}</dt>
+                      <dd className="text-slate-700">{value}</dd>
+                    </div>
+                  ))}
+                </>
+              )}
+              <div>
+                <dt className="text-xs uppercase tracking-wider text-slate-400">{t('verify.certificateNo')}</dt>
+                <dd className="text-slate-700 font-mono">{certificate.certificateNo}</dd>
+              </div>
+              {certificate.replaces && (
+                <div>
+                  <dt className="text-xs uppercase tracking-wider text-slate-400">{t('verify.replaces')}</dt>
+                  <dd className="text-slate-700 font-mono">
+                    <a href={`#/verify/${encodeURIComponent(certificate.replaces)}`} className="hover:text-cyan-700">
+                      {certificate.replaces}
+                    </a>
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        )}
+
+        <a href="#/" className="block text-center text-sm text-cyan-700 hover:text-cyan-900 transition-colors">
+          <i className="fas fa-arrow-left mr-1"></i>
+          {t('verify.back')}
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
@@ -0,0 +1,190 @@
+// ---------- Certificate fonts ----------
+// The TTF files in ./files ship with the app (SIL Open Font License, see the *-OFL.txt files),
+// so certificates never depend on a font CDN. Each file is loaded and parsed once per session.
+
+export type FontStyle = 'normal' | 'bold';
+
+export interface FontFamily {
+  id: string;      // used as "font" in templates and as the jsPDF font name
+  name: string;
+  files: Record<FontStyle, string>;  // URLs of the TTF files
+  // Family used for a text block this one cannot render completely
+  fallback?: string;
+}
+
+export interface LoadedFontFile {
+  base64: string;
+  codePoints: Set<number>;
+}
+
+export const DEFAULT_FONT_ID = 'roboto';
+
+// Raised instead of transliterating: a certificate must print the name exactly as written.
+export class MissingGlyphsError extends Error {
+  constructor(readonly characters: string[]) {
+    super(`No certificate font can render: ${characters.join(' ')}`);
+  }
+}
+
+const families = new Map<string, FontFamily>([
+  [DEFAULT_FONT_ID, {
+    id: DEFAULT_FONT_ID,
+    name: 'Roboto',
+    files: {
+      normal: new URL('./files/Roboto-Regular.ttf', import.meta.url).href,
+      // Medium reads better than Bold at certificate sizes
+      bold: new URL('./files/Roboto-Medium.ttf', import.meta.url).href
+    }
+  }],
+  ['playfair-display', {
+    id: 'playfair-display',
+    name: 'Playfair Display',
+    files: {
+      normal: new URL('./files/PlayfairDisplay-Regular.ttf', import.meta.url).href,
+      bold: new URL('./files/PlayfairDisplay-Bold.ttf', import.meta.url).href
+    },
+    fallback: DEFAULT_FONT_ID
+  }]
+]);
+
+export const registerFont = (family: FontFamily) => {
+  families.set(family.id, family);
+};
+
+export const hasFont = (id: string): boolean => families.has(id);
+
+export const getFontFamily = (id: string): FontFamily => {
+  const family = families.get(id);
+  if (!family) throw new Error(`Unknown certificate font "${id}".`);
+  return family;
+};
+
+export const listFontFamilies = (): FontFamily[] => [...families.values()];
+
+// The family followed by its fallbacks, e.g. playfair-display -> roboto.
+export const fontChain = (id: string): FontFamily[] => {
+  const chain: FontFamily[] = [];
+  for (let family: FontFamily | undefined = getFontFamily(id); family; family = family.fallback ? getFontFamily(family.fallback) : undefined) {
+    if (chain.includes(family)) break;
+    chain.push(family);
+  }
+  return chain;
+};
+
+// ---------- Loading ----------
+
+type FontFileLoader = (url: string) => Promise<ArrayBuffer>;
+
+const fetchFontFile: FontFileLoader = async (url) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return res.arrayBuffer();
+};
+
+let loader: FontFileLoader = fetchFontFile;
+const loaded = new Map<string, Promise<LoadedFontFile>>();
+
+// Node callers (scripts, tests) read the files from disk instead of fetching them.
+export const setFontFileLoader = (next: FontFileLoader) => {
+  loader = next;
+  loaded.clear();
+};
+
+// Convert ArrayBuffer -> base64 (chunked for safety)
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+
+  return btoa(binary);
+};
+
+export const loadFontFile = (url: string): Promise<LoadedFontFile> => {
+  let file = loaded.get(url);
+  if (!file) {
+    file = loader(url).then((buffer) => ({
+      base64: arrayBufferToBase64(buffer),
+      codePoints: readCodePoints(buffer)
+    }));
+    // A failed load is retried on the next certificate rather than cached.
+    file.catch(() => loaded.delete(url));
+    loaded.set(url, file);
+  }
+  return file;
+};
+
+// ---------- Glyph coverage ----------
+
+// Characters of `text` the font has no glyph for (whitespace is never drawn).
+export const missingCharacters = (text: string, codePoints: Set<number>): string[] =>
+  [...new Set(Array.from(text))].filter((ch) => !/\s/.test(ch) && !codePoints.has(ch.codePointAt(0)!));
+
+// Reads the code points mapped by the font's Unicode cmap subtable (format 4 or 12).
+const readCodePoints = (buffer: ArrayBuffer): Set<number> => {
+  const view = new DataView(buffer);
+  const codePoints = new Set<number>();
+
+  let cmap = -1;
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...new Uint8Array(buffer, record, 4));
+    if (tag === 'cmap') cmap = view.getUint32(record + 8);
+  }
+  if (cmap < 0) throw new Error('Font has no cmap table.');
+
+  // Prefer the full-repertoire subtable (Windows UCS-4), then the BMP one.
+  let subtable = -1;
+  let bestRank = 0;
+  const numSubtables = view.getUint16(cmap + 2);
+  for (let i = 0; i < numSubtables; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const rank = platform === 3 && encoding === 10 ? 3 : platform === 0 ? 2 : platform === 3 && encoding === 1 ? 1 : 0;
+    if (rank > bestRank) {
+      bestRank = rank;
+      subtable = cmap + view.getUint32(record + 4);
+    }
+  }
+  if (subtable < 0) throw new Error('Font has no Unicode cmap subtable.');
+
+  const format = view.getUint16(subtable);
+  if (format === 12) {
+    const groups = view.getUint32(subtable + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = subtable + 16 + i * 12;
+      const end = view.getUint32(group + 4);
+      for (let code = view.getUint32(group); code <= end; code++) codePoints.add(code);
+    }
+  } else if (format === 4) {
+    const segCount = view.getUint16(subtable + 6) / 2;
+    const endCodes = subtable + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let i = 0; i < segCount; i++) {
+      const start = view.getUint16(startCodes + i * 2);
+      const end = view.getUint16(endCodes + i * 2);
+      const delta = view.getUint16(idDeltas + i * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        const glyph = rangeOffset === 0
+          ? (code + delta) & 0xffff
+          : view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+        if (glyph !== 0) codePoints.add(code);
+      }
+    }
+  } else {
+    throw new Error(`Unsupported cmap format ${format}.`);
+  }
+
+  return codePoints;
+};
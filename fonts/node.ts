@@ -0,0 +1,12 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { setFontFileLoader } from '.';
+
+// ---------- Fonts in Node ----------
+// Imported for its effect by the API server and the certgen CLI: the bundled fonts are read
+// from disk instead of fetched.
+
+setFontFileLoader(async (url) => {
+  const bytes = await readFile(fileURLToPath(url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+});
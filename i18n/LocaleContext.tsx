@@ -0,0 +1,57 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { MessageKey, isLocale, isMessageKey, negotiateLocale, translate } from './index';
+import { ApiError } from '../services/apiClient';
+import { Locale } from '../types';
+
+// ---------- UI locale ----------
+// The visitor's choice is remembered in localStorage; the first visit follows the browser language.
+
+const STORAGE_KEY = 'portal_locale';
+
+type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const initialLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLocale(stored) ? stored : negotiateLocale(navigator.languages);
+};
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params)
+  }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useI18n = (): LocaleContextValue => {
+  const context = useContext(LocaleContext);
+  if (!context) throw new Error('useI18n must be used inside <LocaleProvider>');
+  return context;
+};
+
+// API errors carry a code for known cases; anything else shows the server's own message.
+export const errorMessage = (t: Translate, err: ApiError, params: Record<string, string | number> = {}): string => {
+  const key = `errors.${err.code}`;
+  return err.code && isMessageKey(key) ? t(key, params) : err.message;
+};
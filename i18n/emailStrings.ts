@@ -0,0 +1,37 @@
+import { Locale } from '../types';
+
+// ---------- Certificate e-mail wording per language ----------
+// Placeholders: {name}, {study}, {certificateNo}, {verifyUrl}. Lines are joined into the
+// plain-text body and wrapped in <p> for the HTML body; {verifyUrl} lines are dropped when
+// the portal address is unknown.
+
+export interface EmailStrings {
+  subject: string;
+  lines: string[];
+  signature: string;
+}
+
+export const EMAIL_STRINGS: Record<Locale, EmailStrings> = {
+  tr: {
+    subject: '{study} – Gönüllü Katılım Sertifikanız ({certificateNo})',
+    lines: [
+      'Sayın {name},',
+      '{study} kapsamında düzenlenen gönüllü katılım sertifikanız ektedir.',
+      'Belge numarası: {certificateNo}',
+      'Sertifikanın geçerliliğini şu adresten doğrulayabilirsiniz: {verifyUrl}',
+      'Bilime ayırdığınız zaman için teşekkür ederiz.'
+    ],
+    signature: 'Bilimsel Gönüllü Portalı'
+  },
+  en: {
+    subject: '{study} – Your Certificate of Participation ({certificateNo})',
+    lines: [
+      'Dear {name},',
+      'Please find attached your certificate of participation in {study}.',
+      'Certificate number: {certificateNo}',
+      'You can verify the certificate at: {verifyUrl}',
+      'Thank you for the time you gave to science.'
+    ],
+    signature: 'Scientific Volunteer Portal'
+  }
+};
@@ -0,0 +1,279 @@
+import type { Messages } from './index';
+
+const en: Messages = {
+  'app.title': 'Scientific Volunteer Portal',
+  'app.subtitle': 'Thank you for dedicating your valuable time to science.',
+  'app.footer.platform': 'Scientific Research Platform',
+  'app.footer.mine': 'My Certificates',
+  'app.footer.verify': 'Verify a Certificate',
+  'app.footer.coordinator': 'Coordinators',
+  'app.footer.dashboard': 'Dashboard',
+  'app.footer.privacy': 'Privacy Policy',
+  'app.footer.contact': 'Contact',
+  'app.language': 'Language',
+
+  'form.title': 'Create Certificate',
+  'form.subtitle': 'Download your certificate of participation instantly.',
+  'form.remaining': 'Remaining',
+  'form.nameLabel': 'Your Full Name',
+  'form.namePlaceholder': 'e.g. Dr. Jane Smith',
+  'form.nameHelp': 'You can put your title (Dr., Assoc. Prof. Dr., Prof. Dr.) before your name.',
+  'form.accessCodeLabel': 'Access Code',
+  'form.accessCodePlaceholder': 'e.g. 7KQ4-M9XD',
+  'form.accessCodeHelp': 'Enter the code the research team sent you. The name on the certificate is taken from your entry in the participant list.',
+  'form.languageLabel': 'Certificate Language',
+  'form.emailOption': 'Also email me the certificate',
+  'form.emailLabel': 'Your Email Address',
+  'form.emailPlaceholder': 'name@example.com',
+  'form.emailSent': 'Your certificate was sent to {email}.',
+  'form.submit': 'Preview Certificate',
+  'form.preparing': 'Preparing...',
+  'form.successHistory': 'If you lose the file, you can download it again from My Certificates.',
+  'form.success': 'Your certificate has been created and downloaded!',
+  'form.limitTitle': 'Limit Reached',
+  'form.limitBody': 'You have reached the maximum of {limit} certificates for this IP address. Thank you.',
+  'form.scheduledTitle': 'Not Open Yet',
+  'form.scheduledBody': 'Certificates for this study can be claimed from {date}.',
+  'form.closedTitle': 'Claim Period Ended',
+  'form.closedBody': 'The claim period for this study ended on {date}.',
+  'form.nameFromStudy': 'Your name comes from your study link. If it is wrong, please contact the research team.',
+  'form.completionRequiredTitle': 'Study Link Needed',
+  'form.completionRequiredBody': 'Certificates for this study are claimed with the link shown when you finish the survey. Please open that link.',
+  'form.completionUsedTitle': 'Certificate Already Claimed',
+  'form.completionUsedBody': 'A certificate has already been claimed with this study link. If you lost the file, download it again from My Certificates or ask the research team.',
+  'form.notFoundTitle': 'Study Not Found',
+  'form.notFoundBody': 'There is no certificate campaign at this link. Please check the link you received from the research team.',
+  'form.howItWorks': 'How It Works',
+  'form.step1': 'Enter your name and click "Preview".',
+  'form.step2': 'Review your personal thank-you message; edit it or ask for a new one if you like.',
+  'form.step3': 'Once you confirm, your PDF certificate downloads in your browser. Previews do not use up your quota.',
+  'form.aiConsentLabel': 'Thank-You Message',
+  'form.aiConsentYes': 'Let AI ({processor}) write the message; my name is sent to this service for it.',
+  'form.aiConsentNo': 'Use one of the ready-made messages; do not send my name anywhere.',
+  'form.aiConsentHelp': 'You can change your choice before previewing. Details:',
+
+  'preview.title': 'Preview',
+  'preview.watermark': 'PREVIEW',
+  'preview.open': 'Open the preview in a new tab',
+  'preview.holder': 'Certificate holder: {name}',
+  'preview.impactLabel': 'Thank-you Message',
+  'preview.impactEnLabel': 'Thank-you Message (English)',
+  'preview.wordCount': '{count}/{max} words',
+  'preview.regenerate': 'Write a new message',
+  'preview.update': 'Update Preview',
+  'preview.stale': 'Your details changed after the preview. Update the preview before confirming.',
+  'preview.confirm': 'Confirm and Download',
+
+  'language.tr': 'Türkçe',
+  'language.en': 'English',
+  'language.tr-en': 'Türkçe + English',
+
+  'verify.title': 'Certificate Verification',
+  'verify.subtitle': 'Check that a certificate is genuine using its certificate number.',
+  'verify.placeholder': 'e.g. 2025-7KQ4-M9XD-2PRT',
+  'verify.loading': 'Checking...',
+  'verify.error': 'The verification service is unavailable. Please try again later.',
+  'verify.notFoundTitle': 'Certificate Not Found',
+  'verify.notFoundBody': 'No certificate has been issued with this number. The document may be forged or the number mistyped.',
+  'verify.valid': 'Valid Certificate',
+  'verify.holder': 'Holder',
+  'verify.issueDate': 'Date of Issue',
+  'verify.study': 'Study',
+  'verify.studyTitle': 'Study Title',
+  'verify.ethicsApprovalNo': 'Ethics Approval No',
+  'verify.role': 'Role',
+  'verify.period': 'Period of Participation',
+  'verify.totalHours': 'Total Time',
+  'verify.certificateNo': 'Certificate No',
+  'verify.erasedTitle': 'Certificate Data Deleted',
+  'verify.erasedBody': 'Certificate {certificateNo} was issued by this portal, but its holder had their data deleted, so the holder cannot be confirmed here.',
+  'verify.revoked': 'Revoked Certificate',
+  'verify.revokedBody': 'This certificate was revoked on {date}. Reason: {reason}',
+  'verify.replacedBy': 'Replaced by certificate {certificateNo}',
+  'verify.replaces': 'Replaces Certificate',
+  'verify.back': 'Back to certificate page',
+
+  'mine.title': 'My Certificates',
+  'mine.subtitle': 'Certificates issued in this browser. Downloading them again does not use up your quota.',
+  'mine.empty': 'No certificates have been issued in this browser yet.',
+  'mine.download': 'Download',
+  'mine.remove': 'Remove from list',
+  'mine.revoked': 'Revoked',
+  'mine.replacement': 'New certificate',
+  'mine.badge': 'Digital badge (PNG)',
+  'mine.credential': 'Verifiable credential (JSON-LD)',
+  'mine.addToProfile': 'Add to LinkedIn profile',
+  'mine.addLabel': 'Add a certificate issued on another device by its number',
+  'mine.add': 'Add',
+  'mine.notFound': 'No certificate was found with this number.',
+  'mine.deleteData': 'Delete my data',
+  'mine.deleteDataConfirm': 'Permanently delete the records of certificate {certificateNo}? The certificate can no longer be verified or downloaded again.',
+  'mine.dataDeleted': 'The records of certificate {certificateNo} were deleted.',
+  'mine.erased': 'The data of certificate {certificateNo} was deleted, so it can no longer be downloaded.',
+  'mine.privacyNote': 'Your data can only be deleted from the browser the certificate was claimed in. For other requests:',
+
+  'privacy.title': 'Privacy Policy',
+  'privacy.subtitle': 'Privacy notice under KVKK and the GDPR',
+  'privacy.controllerTitle': 'Data controller',
+  'privacy.controller': '{controller} is the controller of the personal data processed for this study.',
+  'privacy.controllerTeam': 'The research team running this study is the controller of the personal data processed for it.',
+  'privacy.dataTitle': 'Data processed and why',
+  'privacy.dataName': 'Your name, title and the thank-you message printed on the certificate: to issue the certificate and keep it verifiable.',
+  'privacy.dataIp': 'The IP address of the device you claimed the certificate on: to limit the certificates per device and prevent abuse.',
+  'privacy.dataRoster': 'Your entry and access code on the participant list: to issue the certificate in the name on the list.',
+  'privacy.dataCompletion': 'Your participant id in the survey tool: to issue only one certificate per participant.',
+  'privacy.dataEmail': 'Your email address, if you ask for the certificate to be emailed: to send it.',
+  'privacy.dataEvents': 'Errors shown on the form are only kept as daily counts, with nothing that identifies you.',
+  'privacy.aiTitle': 'Thank-you messages written by AI',
+  'privacy.aiConsent': 'Your name and the study title are only sent to {processor} to write the thank-you message if you agree. Otherwise a ready-made message is used and your name does not leave your browser.',
+  'privacy.aiNone': 'Thank-you messages are chosen from ready-made texts; your name is not sent to any AI service.',
+  'privacy.browserTitle': 'Stored in your browser',
+  'privacy.browser': 'Your certificates and their deletion keys are kept in this browser (localStorage) so you can download them again; they are not sent to the server.',
+  'privacy.retentionTitle': 'Retention',
+  'privacy.retention': 'Certificate records are deleted {days} days after issue; the certificate can no longer be verified after that.',
+  'privacy.retentionNone': 'Certificate records are kept so that the certificates can be verified; you can ask for them to be deleted at any time.',
+  'privacy.rightsTitle': 'Your rights',
+  'privacy.rights': 'Under Article 11 of KVKK and the GDPR, you have the right to access your data, to have it corrected or deleted and to object to its processing.',
+  'privacy.deleteSelf': 'You can delete the records of certificates claimed in this browser yourself on this page:',
+  'privacy.contact': 'For other requests:',
+  'privacy.contactTeam': 'For other requests, please contact the research team running the study.',
+
+  'batch.title': 'Batch Certificate Generation',
+  'batch.subtitle': 'Upload a participant list (CSV or XLSX), review it and download a single ZIP.',
+  'batch.token': 'Coordinator Key',
+  'batch.template': 'Certificate Template',
+  'batch.theme': 'Decoration Theme',
+  'batch.language': 'Certificate Language',
+  'batch.signature': 'Signature Image (optional)',
+  'batch.signaturePlaceholder': 'Choose a PNG or JPEG',
+  'batch.printSheets': 'Print Sheets (optional)',
+  'batch.printNone': 'None',
+  'batch.printPaper': '{paper} – {count} per sheet, double-sided',
+  'batch.printTooSmall': '{paper} – certificate does not fit',
+  'batch.printHelp': 'The ZIP also gets {file}: every certificate with {bleed} mm bleed and crop marks, and its QR code and number on the back.',
+  'batch.file': 'Participant List',
+  'batch.filePlaceholder': 'Choose a file (.csv, .xlsx)',
+  'batch.columnsHelp': 'Required column: name (or "Ad Soyad"). Optional: certificateNo, coordinatorName, coordinatorTitle, location, institution, departmentOrUnit, impactMessage.',
+  'batch.rowsRead': '{count} participants read',
+  'batch.rowsInvalid': '{count} rows have errors; fix them and upload the file again.',
+  'batch.unknownColumns': 'Unrecognised columns will be ignored: {columns}',
+  'batch.col.line': 'Row',
+  'batch.col.name': 'Name',
+  'batch.col.certificateNo': 'Certificate No',
+  'batch.col.coordinator': 'Coordinator',
+  'batch.col.location': 'Location',
+  'batch.col.status': 'Status',
+  'batch.autoNumber': 'automatic',
+  'batch.submit': 'Generate Certificates and Download ZIP',
+  'batch.progress': 'Preparing... {done}/{total}',
+  'batch.done': '{count} certificates were generated and the ZIP file downloaded.',
+  'batch.fileError': 'The file could not be read.',
+  'batch.error': 'An error occurred while generating the certificates.',
+
+  'roster.title': 'Participant Roster',
+  'roster.subtitle': 'Participants who can claim a certificate in the "{slug}" study, with their access codes.',
+  'roster.load': 'Load roster',
+  'roster.file': 'New List (replaces the current roster)',
+  'roster.columnsHelp': 'Required column: name (or "Ad Soyad"). Optional: accessCode (generated when empty), email. Email addresses already on the roster keep their previous codes.',
+  'roster.submit': 'Save Roster',
+  'roster.uploaded': 'Roster of {count} participants saved.',
+  'roster.summary': '{count} participants, {redeemed} have claimed their certificate (at most {limit} each).',
+  'roster.downloadCodes': 'Download codes as CSV',
+  'roster.col.accessCode': 'Access Code',
+  'roster.col.email': 'Email',
+  'roster.col.redemptions': 'Claimed',
+  'roster.error': 'The participant roster could not be saved.',
+
+  'dashboard.title': 'Coordinator Dashboard',
+  'dashboard.subtitle': 'Issued certificates, their spread across studies and problems visitors ran into on the certificate form.',
+  'dashboard.load': 'Load data',
+  'dashboard.search': 'Search',
+  'dashboard.searchPlaceholder': 'Name or certificate no.',
+  'dashboard.campaign': 'Study',
+  'dashboard.source': 'Source',
+  'dashboard.status': 'Status',
+  'dashboard.from': 'From',
+  'dashboard.to': 'To',
+  'dashboard.all': 'All',
+  'dashboard.reset': 'Clear filters',
+  'dashboard.noCampaign': 'Batch list (no study)',
+  'dashboard.source.form': 'Form',
+  'dashboard.source.roster': 'Roster',
+  'dashboard.source.completion': 'Survey link',
+  'dashboard.source.batch': 'Batch list',
+  'dashboard.source.reissue': 'Reissue',
+  'dashboard.status.active': 'Valid',
+  'dashboard.status.revoked': 'Revoked',
+  'dashboard.stat.views': 'Form views',
+  'dashboard.stat.starts': 'Forms started',
+  'dashboard.stat.issued': 'Issued',
+  'dashboard.stat.revoked': 'Revoked',
+  'dashboard.stat.quotaReached': 'Quota hits',
+  'dashboard.stat.errors': 'Errors',
+  'dashboard.stat.impactFallback': 'Fallback thank-you messages',
+  'dashboard.overTime': 'Certificates over time',
+  'dashboard.perCampaign': 'Certificates per study',
+  'dashboard.errorCodes': 'Error types',
+  'dashboard.fallbackHelp': 'The message pool stepped in when the language model did not answer (failed) or its message was filtered out (filtered).',
+  'dashboard.noData': 'No records match the selected filters.',
+  'dashboard.listed': 'Listing {count} certificates',
+  'dashboard.exportCsv': 'Download CSV',
+  'dashboard.exportXlsx': 'Download XLSX',
+  'dashboard.col.issuedAt': 'Date',
+  'dashboard.col.campaign': 'Study',
+  'dashboard.error': 'The dashboard data could not be loaded.',
+
+  'revoke.title': 'Certificate Revocation',
+  'revoke.subtitle': 'Revoke certificates issued in error or no longer valid, and issue a corrected one if needed.',
+  'revoke.lookup': 'Find certificate',
+  'revoke.alreadyRevoked': 'This certificate has been revoked. Reason: {reason}',
+  'revoke.reason': 'Reason for Revocation',
+  'revoke.reasonHelp': 'The reason is shown publicly on the verification page.',
+  'revoke.reissue': 'Issue a corrected certificate (with a new number, replacing this one)',
+  'revoke.reissueName': 'Full Name (corrected)',
+  'revoke.submit': 'Revoke Certificate',
+  'revoke.submitReissue': 'Revoke and Reissue',
+  'revoke.confirm': 'Certificate {certificateNo} will be revoked. This cannot be undone. Continue?',
+  'revoke.done': 'Certificate {revoked} has been revoked.',
+  'revoke.doneReissued': 'Certificate {revoked} has been revoked and replaced by certificate {replacement}.',
+  'revoke.downloadReplacement': 'Download New Certificate',
+  'revoke.error': 'The certificate could not be revoked.',
+
+  'errors.serviceUnavailable': 'The certificate service is currently unavailable. Please try again later.',
+  'errors.pdfFailed': 'An error occurred while creating the certificate PDF. Please check your internet connection and try again.',
+  'errors.missingGlyphs': 'The certificate font has no glyphs for: {characters}. Please enter your name without these characters.',
+  'errors.quotaReached': 'Sorry, you have reached the maximum of {limit} certificates from this device.',
+  'errors.campaignScheduled': 'Certificate claims for this study have not opened yet.',
+  'errors.campaignClosed': 'The certificate claim period for this study has ended.',
+  'errors.campaignNotFound': 'Campaign not found.',
+  'errors.nameRequired': 'Full name is required.',
+  'errors.nameTooLong': 'Full name can be at most 120 characters.',
+  'errors.nameTooShort': 'Full name must contain at least two letters.',
+  'errors.nameHasDigits': 'Full name cannot contain digits.',
+  'errors.nameInvalidCharacters': 'Full name can only contain letters, spaces, apostrophes, periods and hyphens (no emoji or symbols).',
+  'errors.nameTitleOnly': 'Please enter your full name after your title.',
+  'errors.unauthorized': 'Invalid coordinator key.',
+  'errors.accessCodeRequired': 'An access code is required.',
+  'errors.invalidAccessCode': 'This access code is not on the participant list.',
+  'errors.accessCodeUsed': 'All certificates available with this access code have already been claimed.',
+  'errors.tooManyAttempts': 'Too many failed attempts. Please try again later.',
+  'errors.rosterDisabled': 'The participant roster is not enabled for this study.',
+  'errors.emailUnavailable': 'Email delivery is currently unavailable. Please keep the downloaded file.',
+  'errors.openBadgesUnavailable': 'Digital badges are currently unavailable.',
+  'errors.emailNotAllowed': 'A certificate can only be emailed from the device it was created on.',
+  'errors.invalidEmail': 'Invalid email address.',
+  'errors.emailLimitReached': 'This certificate has already been emailed the maximum number of times.',
+  'errors.emailFailed': 'Your certificate was downloaded but could not be emailed. Please keep the downloaded file.',
+  'errors.impactMessageRejected': 'The thank-you message cannot be printed on the certificate. Please try again.',
+  'errors.invalidSignatureImage': 'The signature image must be a PNG or JPEG of at most 512 KB.',
+  'errors.revocationReasonRequired': 'A reason for the revocation is required.',
+  'errors.alreadyRevoked': 'This certificate has already been revoked.',
+  'errors.certificateRevoked': 'This certificate has been revoked.',
+  'errors.completionTokenRequired': 'Certificates for this study are claimed with the link at the end of the survey.',
+  'errors.invalidCompletionToken': 'This study link is not valid. Please open the full link from the end of the survey.',
+  'errors.completionTokenExpired': 'This study link has expired. Please contact the research team.',
+  'errors.completionTokenUsed': 'A certificate has already been claimed with this study link.',
+  'errors.deletionNotAllowed': 'The records of a certificate can only be deleted from the browser it was claimed in.'
+};
+
+export default en;
@@ -0,0 +1,60 @@
+import tr from './tr';
+import en from './en';
+import { CertificateLanguage, Locale } from '../types';
+
+// ---------- Localization ----------
+// Plain functions shared by the React UI, the PDF renderer and the API server.
+
+export type Messages = typeof tr;
+export type MessageKey = keyof Messages;
+
+export const LOCALES: Locale[] = ['tr', 'en'];
+export const CERTIFICATE_LANGUAGES: CertificateLanguage[] = ['tr', 'en', 'tr-en'];
+
+const catalogs: Record<Locale, Messages> = { tr, en };
+
+const DATE_LOCALE_TAGS: Record<Locale, string> = {
+  tr: 'tr-TR',
+  en: 'en-GB'
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as string[]).includes(value);
+
+export const isCertificateLanguage = (value: unknown): value is CertificateLanguage =>
+  typeof value === 'string' && (CERTIFICATE_LANGUAGES as string[]).includes(value);
+
+export const isMessageKey = (value: string): value is MessageKey => value in tr;
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string =>
+  catalogs[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+
+// The language printed first; "tr-en" certificates are Turkish with English alongside.
+export const primaryLocale = (language: CertificateLanguage): Locale =>
+  language === 'en' ? 'en' : 'tr';
+
+export const dateLocaleTag = (locale: Locale): string => DATE_LOCALE_TAGS[locale];
+
+export const formatCertificateDate = (date: Date, language: CertificateLanguage): string =>
+  date.toLocaleDateString(dateLocaleTag(primaryLocale(language)), language === 'en'
+    ? { day: 'numeric', month: 'long', year: 'numeric' }
+    : undefined);
+
+// Picks "en" or "tr" from an Accept-Language header or navigator.languages.
+export const negotiateLocale = (preferred: readonly string[] | string | undefined): Locale => {
+  const list = typeof preferred === 'string'
+    ? preferred.split(',').map((part) => part.split(';')[0].trim())
+    : preferred ?? [];
+
+  for (const tag of list) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'tr';
+};
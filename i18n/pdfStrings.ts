@@ -0,0 +1,68 @@
+import { Locale } from '../types';
+
+// ---------- Certificate wording per language ----------
+// Exposed to templates as placeholders ({{title}}, {{issueDateLabel}}...). Campaign extras,
+// template defaults and certificate data override these; on "tr-en" certificates the English
+// set is also available as {{en.title}}, {{en.introText}}... introTextStudy replaces the standard
+// introText when the certificate names its study.
+
+export const PDF_STRINGS: Record<Locale, Record<string, string>> = {
+  tr: {
+    title: 'GÖNÜLLÜ KATILIM SERTİFİKASI',
+    institution: 'Tıpta Profesyonellik Bloğu',
+    departmentOrUnit: 'Bilimsel Araştırmalar ve Uygulamalar',
+    coordinatorTitle: 'Koordinatör',
+    introText: 'Bu sertifika, yürütülen bilimsel çalışmalara gönüllü katılımı ve sunduğu değerli katkılar nedeniyle aşağıda adı yazılı katılımcıya takdim edilmiştir.',
+    introTextStudy: 'Bu sertifika, "{{studyTitle}}" başlıklı bilimsel çalışmaya gönüllü katılımı ve sunduğu değerli katkılar nedeniyle aşağıda adı yazılı katılımcıya takdim edilmiştir.',
+    impactMessage: 'Katkılarınız, araştırma sürecimizin niteliğini ve güvenilirliğini güçlendirmiştir.',
+    closingText: 'Sayın katılımcımıza teşekkür eder, akademik ve mesleki yaşamında başarılarının devamını dileriz.',
+    issueDateLabel: 'Düzenlenme Tarihi',
+    certificateNoLabel: 'Belge No',
+    replacesLabel: 'Bu belge şu numaralı belgenin yerine düzenlenmiştir',
+    scanToVerify: 'Doğrulamak için okutun',
+    ethicsApprovalLabel: 'Etik kurul onay no',
+    hourUnit: 'saat',
+    hoursUnit: 'saat',
+    detailsTitle: 'KATILIM AYRINTILARI',
+    studyTitleLabel: 'Çalışma',
+    roleLabel: 'Katılım rolü',
+    periodLabel: 'Katılım dönemi',
+    totalHoursLabel: 'Toplam süre',
+    activitiesLabel: 'Etkinlikler',
+    activityDateLabel: 'Tarih',
+    activityLabel: 'Etkinlik',
+    activityHoursLabel: 'Süre'
+  },
+  en: {
+    title: 'CERTIFICATE OF PARTICIPATION',
+    institution: 'Professionalism in Medicine Block',
+    departmentOrUnit: 'Scientific Research and Practice',
+    coordinatorTitle: 'Coordinator',
+    introText: 'This certificate is presented to the participant named below in recognition of their voluntary participation in our scientific research and their valuable contribution to it.',
+    introTextStudy: 'This certificate is presented to the participant named below in recognition of their voluntary participation in the scientific study "{{studyTitle}}" and their valuable contribution to it.',
+    impactMessage: 'Your contribution has strengthened the quality and reliability of our research.',
+    closingText: 'We thank our participant and wish them continued success in their academic and professional life.',
+    issueDateLabel: 'Date of Issue',
+    certificateNoLabel: 'Certificate No',
+    replacesLabel: 'This certificate replaces certificate no.',
+    scanToVerify: 'Scan to verify',
+    ethicsApprovalLabel: 'Ethics approval no',
+    hourUnit: 'hour',
+    hoursUnit: 'hours',
+    detailsTitle: 'PARTICIPATION DETAILS',
+    studyTitleLabel: 'Study',
+    roleLabel: 'Role',
+    periodLabel: 'Period of participation',
+    totalHoursLabel: 'Total time',
+    activitiesLabel: 'Activities',
+    activityDateLabel: 'Date',
+    activityLabel: 'Activity',
+    activityHoursLabel: 'Time'
+  }
+};
+
+// Suffix of the downloaded file name (ASCII only).
+export const PDF_FILE_SUFFIX: Record<Locale, string> = {
+  tr: 'GonulluKatilimSertifikasi',
+  en: 'ParticipationCertificate'
+};
@@ -0,0 +1,280 @@
+// Turkish UI strings. This file is the reference catalog: every other locale must define the same keys.
+// Placeholders use {name} syntax and are filled by translate().
+
+const tr = {
+  'app.title': 'Bilimsel Gönüllü Portalı',
+  'app.subtitle': 'Değerli vaktinizi bilim için harcadığınız için teşekkür ederiz.',
+  'app.footer.platform': 'Bilimsel Araştırma Platformu',
+  'app.footer.mine': 'Sertifikalarım',
+  'app.footer.verify': 'Sertifika Doğrula',
+  'app.footer.coordinator': 'Koordinatör',
+  'app.footer.dashboard': 'Panel',
+  'app.footer.privacy': 'Gizlilik Politikası',
+  'app.footer.contact': 'İletişim',
+  'app.language': 'Dil',
+
+  'form.title': 'Sertifika Oluştur',
+  'form.subtitle': 'Katılım belgenizi anında indirin.',
+  'form.remaining': 'Kalan Hak',
+  'form.nameLabel': 'Tam Adınız ve Soyadınız',
+  'form.namePlaceholder': 'Örn: Dr. Ahmet Yılmaz',
+  'form.nameHelp': 'Unvanınızı (Dr., Doç. Dr., Prof. Dr.) adınızın önüne yazabilirsiniz.',
+  'form.accessCodeLabel': 'Erişim Kodu',
+  'form.accessCodePlaceholder': 'Örn: 7KQ4-M9XD',
+  'form.accessCodeHelp': 'Araştırma ekibinin size gönderdiği kodu girin. Sertifikadaki ad, katılımcı listesindeki kaydınızdan alınır.',
+  'form.languageLabel': 'Sertifika Dili',
+  'form.emailOption': 'Sertifikayı e-posta ile de gönder',
+  'form.emailLabel': 'E-posta Adresiniz',
+  'form.emailPlaceholder': 'ornek@eposta.com',
+  'form.emailSent': 'Sertifikanız {email} adresine gönderildi.',
+  'form.submit': 'Sertifikayı Önizle',
+  'form.preparing': 'Hazırlanıyor...',
+  'form.success': 'Sertifikanız başarıyla oluşturuldu ve indirildi!',
+  'form.successHistory': 'Dosyayı kaybederseniz Sertifikalarım sayfasından yeniden indirebilirsiniz.',
+  'form.limitTitle': 'Limit Aşıldı',
+  'form.limitBody': 'Bu IP adresi üzerinden belirlenen maksimum {limit} sertifika alma limitine ulaştınız. Teşekkür ederiz.',
+  'form.scheduledTitle': 'Başvurular Henüz Açılmadı',
+  'form.scheduledBody': 'Bu çalışma için sertifikalar {date} tarihinden itibaren alınabilir.',
+  'form.closedTitle': 'Başvuru Süresi Doldu',
+  'form.closedBody': 'Bu çalışma için sertifika alma süresi {date} tarihinde sona erdi.',
+  'form.nameFromStudy': 'Adınız çalışma bağlantısından alındı. Hatalıysa araştırma ekibine başvurun.',
+  'form.completionRequiredTitle': 'Çalışma Bağlantısı Gerekli',
+  'form.completionRequiredBody': 'Bu çalışmanın sertifikası, anketi tamamladığınızda gösterilen bağlantıyla alınır. Lütfen o bağlantıyı açın.',
+  'form.completionUsedTitle': 'Sertifika Alınmış',
+  'form.completionUsedBody': 'Bu çalışma bağlantısıyla sertifika zaten alınmış. Dosyayı kaybettiyseniz Sertifikalarım sayfasından ya da araştırma ekibinden yeniden alabilirsiniz.',
+  'form.notFoundTitle': 'Çalışma Bulunamadı',
+  'form.notFoundBody': 'Bu bağlantıya ait bir sertifika kampanyası yok. Lütfen araştırma ekibinden aldığınız bağlantıyı kontrol edin.',
+  'form.howItWorks': 'Nasıl Çalışır?',
+  'form.step1': 'Adınızı girin ve "Önizle" butonuna tıklayın.',
+  'form.step2': 'Size özel teşekkür mesajını inceleyin; dilerseniz düzenleyin ya da yenisini isteyin.',
+  'form.step3': 'Onayladığınızda PDF sertifikanız tarayıcınıza iner. Önizlemeler hakkınızdan düşmez.',
+  'form.aiConsentLabel': 'Teşekkür Mesajı',
+  'form.aiConsentYes': 'Mesajı yapay zekâ ({processor}) yazsın; bunun için adım bu hizmete gönderilir.',
+  'form.aiConsentNo': 'Hazır mesajlardan biri kullanılsın; adım hiçbir yere gönderilmesin.',
+  'form.aiConsentHelp': 'Seçiminizi önizlemeden önce değiştirebilirsiniz. Ayrıntılar:',
+
+  'preview.title': 'Önizleme',
+  'preview.watermark': 'ÖNİZLEME',
+  'preview.open': 'Önizlemeyi yeni sekmede aç',
+  'preview.holder': 'Sertifika sahibi: {name}',
+  'preview.impactLabel': 'Teşekkür Mesajı',
+  'preview.impactEnLabel': 'Teşekkür Mesajı (İngilizce)',
+  'preview.wordCount': '{count}/{max} kelime',
+  'preview.regenerate': 'Yeni mesaj oluştur',
+  'preview.update': 'Önizlemeyi Güncelle',
+  'preview.stale': 'Bilgiler önizlemeden sonra değişti. Onaylamadan önce önizlemeyi güncelleyin.',
+  'preview.confirm': 'Onayla ve İndir',
+
+  'language.tr': 'Türkçe',
+  'language.en': 'English',
+  'language.tr-en': 'Türkçe + English',
+
+  'verify.title': 'Sertifika Doğrulama',
+  'verify.subtitle': 'Belge numarası ile sertifikanın geçerliliğini kontrol edin.',
+  'verify.placeholder': 'Örn: 2025-7KQ4-M9XD-2PRT',
+  'verify.loading': 'Kontrol ediliyor...',
+  'verify.error': 'Doğrulama servisine ulaşılamadı. Lütfen daha sonra tekrar deneyin.',
+  'verify.notFoundTitle': 'Sertifika Bulunamadı',
+  'verify.notFoundBody': 'Bu numaraya ait düzenlenmiş bir sertifika kaydı yok. Belge sahte ya da numara hatalı olabilir.',
+  'verify.valid': 'Geçerli Sertifika',
+  'verify.holder': 'Sertifika Sahibi',
+  'verify.issueDate': 'Düzenlenme Tarihi',
+  'verify.study': 'Çalışma',
+  'verify.studyTitle': 'Çalışma Başlığı',
+  'verify.ethicsApprovalNo': 'Etik Kurul Onay No',
+  'verify.role': 'Katılım Rolü',
+  'verify.period': 'Katılım Dönemi',
+  'verify.totalHours': 'Toplam Süre',
+  'verify.certificateNo': 'Belge No',
+  'verify.erasedTitle': 'Sertifika Verileri Silinmiş',
+  'verify.erasedBody': '{certificateNo} numaralı sertifika bu portaldan verilmiş, ancak sahibi verilerini sildirdiği için sertifikanın kime ait olduğu burada doğrulanamaz.',
+  'verify.revoked': 'İptal Edilmiş Sertifika',
+  'verify.revokedBody': 'Bu sertifika {date} tarihinde iptal edilmiştir. Gerekçe: {reason}',
+  'verify.replacedBy': 'Yerine düzenlenen sertifika: {certificateNo}',
+  'verify.replaces': 'Yerine Düzenlendiği Belge',
+  'verify.back': 'Sertifika oluşturma sayfasına dön',
+
+  'mine.title': 'Sertifikalarım',
+  'mine.subtitle': 'Bu tarayıcıda aldığınız sertifikalar. Yeniden indirmek hakkınızdan düşmez.',
+  'mine.empty': 'Bu tarayıcıda henüz alınmış bir sertifika yok.',
+  'mine.download': 'İndir',
+  'mine.remove': 'Listeden kaldır',
+  'mine.revoked': 'İptal edildi',
+  'mine.replacement': 'Yeni sertifika',
+  'mine.badge': 'Dijital rozet (PNG)',
+  'mine.credential': 'Doğrulanabilir belge (JSON-LD)',
+  'mine.addToProfile': 'LinkedIn profiline ekle',
+  'mine.addLabel': 'Başka bir cihazda aldığınız sertifikayı belge numarasıyla ekleyin',
+  'mine.add': 'Ekle',
+  'mine.notFound': 'Bu numaraya ait bir sertifika bulunamadı.',
+  'mine.deleteData': 'Verilerimi sil',
+  'mine.deleteDataConfirm': '{certificateNo} numaralı sertifikanın kayıtları kalıcı olarak silinsin mi? Sertifika bundan sonra doğrulanamaz ve tekrar indirilemez.',
+  'mine.dataDeleted': '{certificateNo} numaralı sertifikanın kayıtları silindi.',
+  'mine.erased': '{certificateNo} numaralı sertifikanın verileri silindiği için sertifika artık indirilemez.',
+  'mine.privacyNote': 'Verilerinizi yalnızca sertifikayı aldığınız tarayıcıdan silebilirsiniz. Diğer talepleriniz için:',
+
+  'privacy.title': 'Gizlilik Politikası',
+  'privacy.subtitle': 'KVKK ve GDPR kapsamında aydınlatma metni',
+  'privacy.controllerTitle': 'Veri sorumlusu',
+  'privacy.controller': 'Bu çalışma kapsamında işlenen kişisel verilerin sorumlusu {controller}\'dır.',
+  'privacy.controllerTeam': 'Bu çalışma kapsamında işlenen kişisel verilerin sorumlusu, çalışmayı yürüten araştırma ekibidir.',
+  'privacy.dataTitle': 'İşlenen veriler ve amaçları',
+  'privacy.dataName': 'Sertifikaya basılan adınız, unvanınız ve teşekkür mesajı: sertifikayı düzenlemek ve doğrulanabilir kılmak için.',
+  'privacy.dataIp': 'Sertifikayı aldığınız cihazın IP adresi: bir cihazdan alınabilecek sertifika sayısını sınırlamak ve kötüye kullanımı önlemek için.',
+  'privacy.dataRoster': 'Katılımcı listesindeki kaydınız ve erişim kodunuz: sertifikayı listedeki adınıza düzenlemek için.',
+  'privacy.dataCompletion': 'Anket aracındaki katılımcı numaranız: her katılımcıya yalnızca bir sertifika verebilmek için.',
+  'privacy.dataEmail': 'Sertifikanın e-posta ile gönderilmesini isterseniz e-posta adresiniz: sertifikayı göndermek için.',
+  'privacy.dataEvents': 'Formda görülen hatalar yalnızca günlük sayılar olarak tutulur; sizi tanımlayan bir bilgi içermez.',
+  'privacy.aiTitle': 'Yapay zekâ ile yazılan teşekkür mesajları',
+  'privacy.aiConsent': 'Adınız ve çalışmanın adı, teşekkür mesajını yazması için yalnızca onay verirseniz {processor} hizmetine gönderilir. Onay vermezseniz mesaj hazır metinlerden seçilir ve adınız tarayıcınızdan çıkmaz.',
+  'privacy.aiNone': 'Teşekkür mesajları hazır metinlerden seçilir; adınız hiçbir yapay zekâ hizmetine gönderilmez.',
+  'privacy.browserTitle': 'Tarayıcınızda saklananlar',
+  'privacy.browser': 'Aldığınız sertifikalar ve bunların silme anahtarları, tekrar indirebilmeniz için bu tarayıcıda (localStorage) saklanır ve sunucuya gönderilmez.',
+  'privacy.retentionTitle': 'Saklama süresi',
+  'privacy.retention': 'Sertifika kayıtları düzenlenme tarihinden {days} gün sonra silinir; bu tarihten sonra sertifika doğrulanamaz.',
+  'privacy.retentionNone': 'Sertifika kayıtları, sertifikaların doğrulanabilmesi için saklanır; silinmelerini istediğiniz zaman isteyebilirsiniz.',
+  'privacy.rightsTitle': 'Haklarınız',
+  'privacy.rights': 'KVKK\'nın 11. maddesi ve GDPR uyarınca verilerinize erişme, bunların düzeltilmesini ya da silinmesini isteme ve işlenmesine itiraz etme haklarına sahipsiniz.',
+  'privacy.deleteSelf': 'Bu tarayıcıda aldığınız sertifikaların kayıtlarını şu sayfadan kendiniz silebilirsiniz:',
+  'privacy.contact': 'Diğer talepleriniz için:',
+  'privacy.contactTeam': 'Diğer talepleriniz için çalışmayı yürüten araştırma ekibine başvurun.',
+
+  'batch.title': 'Toplu Sertifika Oluşturma',
+  'batch.subtitle': 'Katılımcı listesini (CSV veya XLSX) yükleyin, kontrol edin ve tek ZIP olarak indirin.',
+  'batch.token': 'Koordinatör Anahtarı',
+  'batch.template': 'Sertifika Şablonu',
+  'batch.theme': 'Süsleme Teması',
+  'batch.language': 'Sertifika Dili',
+  'batch.signature': 'İmza Görseli (isteğe bağlı)',
+  'batch.signaturePlaceholder': 'PNG veya JPEG seçin',
+  'batch.printSheets': 'Baskı Sayfaları (isteğe bağlı)',
+  'batch.printNone': 'Ekleme',
+  'batch.printPaper': '{paper} – sayfada {count} sertifika, arka yüzlü',
+  'batch.printTooSmall': '{paper} – sertifika sığmıyor',
+  'batch.printHelp': 'ZIP dosyasına ayrıca {file} eklenir: her sertifika {bleed} mm taşma payı ve kesim işaretleriyle, arkasında QR kod ve belge numarasıyla.',
+  'batch.file': 'Katılımcı Listesi',
+  'batch.filePlaceholder': 'Dosya seçin (.csv, .xlsx)',
+  'batch.columnsHelp': 'Zorunlu sütun: name (veya "Ad Soyad"). İsteğe bağlı: certificateNo, coordinatorName, coordinatorTitle, location, institution, departmentOrUnit, impactMessage.',
+  'batch.rowsRead': '{count} katılımcı okundu',
+  'batch.rowsInvalid': '{count} satırda hata var, düzeltip dosyayı yeniden yükleyin.',
+  'batch.unknownColumns': 'Tanınmayan sütunlar yok sayılacak: {columns}',
+  'batch.col.line': 'Satır',
+  'batch.col.name': 'Ad Soyad',
+  'batch.col.certificateNo': 'Belge No',
+  'batch.col.coordinator': 'Koordinatör',
+  'batch.col.location': 'Yer',
+  'batch.col.status': 'Durum',
+  'batch.autoNumber': 'otomatik',
+  'batch.submit': 'Sertifikaları Oluştur ve ZIP İndir',
+  'batch.progress': 'Hazırlanıyor... {done}/{total}',
+  'batch.done': '{count} sertifika oluşturuldu ve ZIP dosyası indirildi.',
+  'batch.fileError': 'Dosya okunamadı.',
+  'batch.error': 'Sertifikalar oluşturulurken bir hata oluştu.',
+
+  'roster.title': 'Katılımcı Listesi',
+  'roster.subtitle': '"{slug}" çalışmasında sertifika alabilecek katılımcılar ve erişim kodları.',
+  'roster.load': 'Listeyi yükle',
+  'roster.file': 'Yeni Liste (mevcut listenin yerini alır)',
+  'roster.columnsHelp': 'Zorunlu sütun: name (veya "Ad Soyad"). İsteğe bağlı: accessCode (boş bırakılırsa kod üretilir), email. Listede zaten olan e-posta adresleri eski kodlarını korur.',
+  'roster.submit': 'Listeyi Kaydet',
+  'roster.uploaded': '{count} katılımcılık liste kaydedildi.',
+  'roster.summary': '{count} katılımcı, {redeemed} kişi sertifikasını aldı (kişi başı en fazla {limit}).',
+  'roster.downloadCodes': 'Kodları CSV olarak indir',
+  'roster.col.accessCode': 'Erişim Kodu',
+  'roster.col.email': 'E-posta',
+  'roster.col.redemptions': 'Alınan',
+  'roster.error': 'Katılımcı listesi kaydedilemedi.',
+
+  'dashboard.title': 'Koordinatör Paneli',
+  'dashboard.subtitle': 'Düzenlenen sertifikalar, çalışmalara göre dağılım ve sertifika formunda yaşanan sorunlar.',
+  'dashboard.load': 'Verileri yükle',
+  'dashboard.search': 'Ara',
+  'dashboard.searchPlaceholder': 'Ad soyad veya belge no',
+  'dashboard.campaign': 'Çalışma',
+  'dashboard.source': 'Kaynak',
+  'dashboard.status': 'Durum',
+  'dashboard.from': 'Başlangıç',
+  'dashboard.to': 'Bitiş',
+  'dashboard.all': 'Tümü',
+  'dashboard.reset': 'Filtreleri temizle',
+  'dashboard.noCampaign': 'Toplu liste (çalışmasız)',
+  'dashboard.source.form': 'Form',
+  'dashboard.source.roster': 'Katılımcı listesi',
+  'dashboard.source.completion': 'Anket bağlantısı',
+  'dashboard.source.batch': 'Toplu liste',
+  'dashboard.source.reissue': 'Yeniden düzenleme',
+  'dashboard.status.active': 'Geçerli',
+  'dashboard.status.revoked': 'İptal edildi',
+  'dashboard.stat.views': 'Form görüntüleme',
+  'dashboard.stat.starts': 'Başlanan form',
+  'dashboard.stat.issued': 'Düzenlenen',
+  'dashboard.stat.revoked': 'İptal edilen',
+  'dashboard.stat.quotaReached': 'Limit aşımı',
+  'dashboard.stat.errors': 'Hata',
+  'dashboard.stat.impactFallback': 'Yedek teşekkür mesajı',
+  'dashboard.overTime': 'Zamana göre sertifikalar',
+  'dashboard.perCampaign': 'Çalışmalara göre sertifikalar',
+  'dashboard.errorCodes': 'Hata türleri',
+  'dashboard.fallbackHelp': 'Dil modeli yanıt vermediğinde (failed) ya da mesajı filtrelendiğinde (filtered) hazır mesaj havuzu kullanıldı.',
+  'dashboard.noData': 'Seçilen filtrelere uyan kayıt yok.',
+  'dashboard.listed': '{count} sertifika listeleniyor',
+  'dashboard.exportCsv': 'CSV indir',
+  'dashboard.exportXlsx': 'XLSX indir',
+  'dashboard.col.issuedAt': 'Tarih',
+  'dashboard.col.campaign': 'Çalışma',
+  'dashboard.error': 'Panel verileri yüklenemedi.',
+
+  'revoke.title': 'Sertifika İptali',
+  'revoke.subtitle': 'Hatalı düzenlenen ya da geçerliliğini yitiren sertifikaları iptal edin, gerekirse düzeltilmiş halini düzenleyin.',
+  'revoke.lookup': 'Sertifikayı bul',
+  'revoke.alreadyRevoked': 'Bu sertifika iptal edilmiş. Gerekçe: {reason}',
+  'revoke.reason': 'İptal Gerekçesi',
+  'revoke.reasonHelp': 'Gerekçe doğrulama sayfasında herkese gösterilir.',
+  'revoke.reissue': 'Düzeltilmiş bir sertifika düzenle (yeni numarayla, eski belgenin yerine)',
+  'revoke.reissueName': 'Ad Soyad (düzeltilmiş)',
+  'revoke.submit': 'Sertifikayı İptal Et',
+  'revoke.submitReissue': 'İptal Et ve Yenisini Düzenle',
+  'revoke.confirm': '{certificateNo} numaralı sertifika iptal edilecek. Bu işlem geri alınamaz. Devam edilsin mi?',
+  'revoke.done': '{revoked} numaralı sertifika iptal edildi.',
+  'revoke.doneReissued': '{revoked} numaralı sertifika iptal edildi; yerine {replacement} numaralı sertifika düzenlendi.',
+  'revoke.downloadReplacement': 'Yeni Sertifikayı İndir',
+  'revoke.error': 'Sertifika iptal edilemedi.',
+
+  'errors.serviceUnavailable': 'Sertifika servisine şu anda ulaşılamıyor. Lütfen daha sonra tekrar deneyin.',
+  'errors.pdfFailed': 'Sertifika PDF dosyası oluşturulurken bir hata oluştu. Lütfen internet bağlantınızı kontrol edip tekrar deneyin.',
+  'errors.missingGlyphs': 'Şu karakterler sertifika yazı tipinde bulunmuyor: {characters}. Lütfen adınızı bu karakterler olmadan yazın.',
+  'errors.quotaReached': 'Üzgünüz, bu cihazdan maksimum {limit} sertifika oluşturma limitine ulaştınız.',
+  'errors.campaignScheduled': 'Bu çalışma için sertifika başvuruları henüz açılmadı.',
+  'errors.campaignClosed': 'Bu çalışma için sertifika başvuru süresi sona erdi.',
+  'errors.campaignNotFound': 'Kampanya bulunamadı.',
+  'errors.nameRequired': 'Ad soyad zorunludur.',
+  'errors.nameTooLong': 'Ad soyad en fazla 120 karakter olabilir.',
+  'errors.nameTooShort': 'Ad soyad en az iki harften oluşmalıdır.',
+  'errors.nameHasDigits': 'Ad soyad rakam içeremez.',
+  'errors.nameInvalidCharacters': 'Ad soyad yalnızca harf, boşluk, kesme işareti, nokta ve tire içerebilir (emoji ve simgeler kullanılamaz).',
+  'errors.nameTitleOnly': 'Unvanın yanında ad soyad da yazılmalıdır.',
+  'errors.unauthorized': 'Koordinatör anahtarı geçersiz.',
+  'errors.accessCodeRequired': 'Erişim kodu zorunludur.',
+  'errors.invalidAccessCode': 'Bu erişim kodu katılımcı listesinde yok.',
+  'errors.accessCodeUsed': 'Bu erişim kodu ile alınabilecek sertifikaların tümü alınmış.',
+  'errors.tooManyAttempts': 'Çok fazla hatalı deneme yapıldı. Lütfen daha sonra tekrar deneyin.',
+  'errors.rosterDisabled': 'Bu çalışmada katılımcı listesi etkin değil.',
+  'errors.emailUnavailable': 'E-posta gönderimi şu anda kullanılamıyor. Lütfen indirilen dosyayı saklayın.',
+  'errors.openBadgesUnavailable': 'Dijital rozetler şu anda kullanılamıyor.',
+  'errors.emailNotAllowed': 'Sertifika yalnızca oluşturulduğu cihazdan e-posta ile gönderilebilir.',
+  'errors.invalidEmail': 'E-posta adresi geçersiz.',
+  'errors.emailLimitReached': 'Bu sertifika gönderilebilecek en fazla sayıda e-posta ile gönderildi.',
+  'errors.emailFailed': 'Sertifika indirildi ancak e-posta ile gönderilemedi. Lütfen indirilen dosyayı saklayın.',
+  'errors.impactMessageRejected': 'Teşekkür mesajı sertifikaya basılamaz. Lütfen tekrar deneyin.',
+  'errors.invalidSignatureImage': 'İmza görseli en fazla 512 KB boyutunda PNG veya JPEG olmalıdır.',
+  'errors.revocationReasonRequired': 'İptal gerekçesi zorunludur.',
+  'errors.alreadyRevoked': 'Bu sertifika zaten iptal edilmiş.',
+  'errors.certificateRevoked': 'Bu sertifika iptal edilmiştir.',
+  'errors.completionTokenRequired': 'Bu çalışmada sertifika, anketin sonundaki bağlantıyla alınır.',
+  'errors.invalidCompletionToken': 'Çalışma bağlantısı geçersiz. Lütfen anketin sonundaki bağlantıyı eksiksiz açın.',
+  'errors.completionTokenExpired': 'Çalışma bağlantısının süresi dolmuş. Lütfen araştırma ekibine başvurun.',
+  'errors.completionTokenUsed': 'Bu çalışma bağlantısıyla sertifika zaten alınmış.',
+  'errors.deletionNotAllowed': 'Sertifikanın kayıtları yalnızca alındığı tarayıcıdan silinebilir.'
+};
+
+export default tr;
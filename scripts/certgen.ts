@@ -0,0 +1,288 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import '../fonts/node';
+import { verificationUrlFor } from '../server/certificatePdf';
+import { certificateFileName, renderCertificatePDF, renderPrintSheetsPDF } from '../utils/pdfUtils';
+import { DEFAULT_PRINT_OPTIONS, PAPER_FORMATS } from '../utils/printLayout';
+import { parseParticipantFile } from '../utils/participantList';
+import { NAME_ERROR_MESSAGES, checkPersonName } from '../utils/personName';
+import { PRINT_BACK_TEMPLATE, getTemplate, parseCertificateTemplate } from '../templates';
+import { getTheme } from '../themes';
+import { MissingGlyphsError } from '../fonts';
+import { formatCertificateDate, isCertificateLanguage, primaryLocale } from '../i18n';
+import { CertificateInput, CertificateLanguage, CertificateTemplate, PaperFormat, PrintOptions } from '../types';
+
+// ---------- certgen ----------
+// Renders certificates from a JSON or CSV/XLSX list without a browser or the API:
+//
+//   npm run certgen -- --input participants.csv --out certificates/
+//
+// Nothing is recorded in the ledger, so certificates only get a number (and a QR code) when
+// the list supplies one. With a fixed --issued-at the files are byte-for-byte reproducible, and
+// --check compares them with the files already in --out instead of writing, for golden tests in CI.
+// --print writes a single print-ready file instead, several certificates to a sheet.
+
+const PRINT_FILE_NAME = 'print_sheets.pdf';
+
+const USAGE = `Usage: npm run certgen -- --input <file.json|file.csv|file.xlsx> [options]
+
+  --out <dir>            where the PDFs are written (default: certificates)
+  --template <id|file>   bundled template id or a template JSON file for every row
+                         (default: bilingual for tr-en rows, default for the others)
+  --theme <id>           decoration theme, e.g. neuroscience or astronomy (default: biomedical)
+  --language <tr|en|tr-en>
+                         certificate language for rows that do not set one (default: tr)
+  --issued-at <iso>      issuance time printed and stamped into the files (default: now)
+  --portal-url <url>     portal address for the QR verification link of numbered rows
+  --signature <file>     handwritten signature (PNG or JPEG) drawn above the signature line
+  --pdfa                 write archival PDF/A-2b files
+  --check                compare with the PDFs in --out instead of writing them
+
+Print sheets (one ${PRINT_FILE_NAME} with several certificates to a sheet):
+  --print                impose the certificates on print sheets
+  --paper <size>         ${Object.keys(PAPER_FORMATS).join(', ')} or <width>x<height> in mm (default: ${DEFAULT_PRINT_OPTIONS.paper})
+  --bleed <mm>           background printed beyond the trim line (default: ${DEFAULT_PRINT_OPTIONS.bleed})
+  --safe-margin <mm>     space borders and ornaments keep from the trim line (default: ${DEFAULT_PRINT_OPTIONS.safeMargin})
+  --no-crop-marks        leave out the crop marks
+  --back                 add a back sheet after each sheet (QR code, number, participation summary)
+  --back-template <file> template JSON for the back instead of the bundled one`;
+
+interface CertgenOptions {
+  input: string;
+  out: string;
+  template?: string;
+  theme?: string;
+  language: CertificateLanguage;
+  issuedAt: Date;
+  portalUrl: string;
+  signature?: string;
+  pdfA: boolean;
+  check: boolean;
+  print?: PrintOptions;
+  back: boolean;
+  backTemplate?: string;
+}
+
+interface InputRow {
+  line: string;  // "row 3" (JSON) or "line 4" (CSV), for messages
+  data: Partial<CertificateInput>;
+}
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const millimetres = (flag: string, value: string): number => {
+  const mm = Number(value);
+  if (!Number.isFinite(mm) || mm < 0) fail(`${flag} must be a number of millimetres, got "${value}".`);
+  return mm;
+};
+
+// A named size or "<width>x<height>" in millimetres
+const parsePaper = (value: string): PrintOptions['paper'] => {
+  if (value in PAPER_FORMATS) return value as PaperFormat;
+  const match = /^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/.exec(value);
+  if (!match) return fail(`Unknown paper size "${value}".`);
+  return [Number(match[1]), Number(match[2])];
+};
+
+const readOptions = (): CertgenOptions => {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string' },
+      out: { type: 'string', default: 'certificates' },
+      template: { type: 'string' },
+      theme: { type: 'string' },
+      language: { type: 'string', default: 'tr' },
+      'issued-at': { type: 'string' },
+      'portal-url': { type: 'string', default: '' },
+      signature: { type: 'string' },
+      pdfa: { type: 'boolean', default: false },
+      check: { type: 'boolean', default: false },
+      print: { type: 'boolean', default: false },
+      paper: { type: 'string', default: DEFAULT_PRINT_OPTIONS.paper as string },
+      bleed: { type: 'string', default: String(DEFAULT_PRINT_OPTIONS.bleed) },
+      'safe-margin': { type: 'string', default: String(DEFAULT_PRINT_OPTIONS.safeMargin) },
+      'no-crop-marks': { type: 'boolean', default: false },
+      back: { type: 'boolean', default: false },
+      'back-template': { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  if (!values.input) fail('--input is required.');
+  if (!isCertificateLanguage(values.language)) fail(`Unsupported language "${values.language}".`);
+  if (values.theme && getTheme(values.theme).id !== values.theme) fail(`Unknown theme "${values.theme}".`);
+  const issuedAt = values['issued-at'] ? new Date(values['issued-at']) : new Date();
+  if (Number.isNaN(issuedAt.getTime())) fail(`--issued-at must be an ISO date, got "${values['issued-at']}".`);
+  if (values.pdfa && values.print) fail('--pdfa and --print cannot be combined.');
+
+  return {
+    input: values.input!,
+    out: values.out!,
+    template: values.template,
+    theme: values.theme,
+    language: values.language as CertificateLanguage,
+    issuedAt,
+    portalUrl: values['portal-url']!,
+    signature: values.signature,
+    pdfA: values.pdfa!,
+    check: values.check!,
+    print: values.print ? {
+      paper: parsePaper(values.paper!),
+      bleed: millimetres('--bleed', values.bleed!),
+      cropMarks: !values['no-crop-marks'],
+      safeMargin: millimetres('--safe-margin', values['safe-margin']!)
+    } : undefined,
+    back: values.back! || values['back-template'] !== undefined,
+    backTemplate: values['back-template']
+  };
+};
+
+// JSON: an array of certificate objects (CertificateInput fields), or { "certificates": [...] }.
+const readJsonRows = async (file: string): Promise<InputRow[]> => {
+  const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+  const list: unknown = Array.isArray(parsed) ? parsed : parsed?.certificates;
+  if (!Array.isArray(list)) throw new Error(`${file}: expected an array of certificates or { "certificates": [...] }`);
+  return list.map((data, index) => ({ line: `row ${index + 1}`, data: data as Partial<CertificateInput> }));
+};
+
+// CSV/XLSX: the same columns as the coordinator's batch list (utils/participantList.ts).
+const readTableRows = async (file: string): Promise<{ rows: InputRow[]; errors: string[] }> => {
+  const list = await parseParticipantFile(new File([await fs.readFile(file)], path.basename(file)));
+  if (list.unknownColumns.length > 0) console.warn(`Ignoring unknown columns: ${list.unknownColumns.join(', ')}`);
+  return {
+    rows: list.rows.map(({ line, row }) => ({ line: `line ${line}`, data: row })),
+    errors: list.rows.flatMap(({ line, errors }) => errors.map((error) => `line ${line}: ${error}`))
+  };
+};
+
+const loadTemplate = async (value: string): Promise<CertificateTemplate> => {
+  if (value.endsWith('.json')) return parseCertificateTemplate(JSON.parse(await fs.readFile(value, 'utf8')));
+  if (getTemplate(value).id !== value) throw new Error(`Unknown template "${value}".`);
+  return getTemplate(value);
+};
+
+const signatureDataUrl = async (file: string | undefined): Promise<string | undefined> => {
+  if (!file) return undefined;
+  const type = /\.png$/i.test(file) ? 'image/png' : /\.jpe?g$/i.test(file) ? 'image/jpeg' : null;
+  if (!type) throw new Error(`--signature must be a PNG or JPEG file, got "${file}".`);
+  return `data:${type};base64,${(await fs.readFile(file)).toString('base64')}`;
+};
+
+// Two holders with the same name get "_2", "_3"... in list order.
+const uniqueFileName = (taken: Set<string>, fileName: string): string => {
+  let candidate = fileName;
+  for (let n = 2; taken.has(candidate); n++) candidate = fileName.replace(/\.pdf$/, `_${n}.pdf`);
+  taken.add(candidate);
+  return candidate;
+};
+
+const run = async () => {
+  const options = readOptions();
+  const { rows, errors } = options.input.endsWith('.json')
+    ? { rows: await readJsonRows(options.input), errors: [] as string[] }
+    : await readTableRows(options.input);
+
+  // Like the API, bilingual rows get the bilingual template unless --template says otherwise.
+  const chosenTemplate = options.template ? await loadTemplate(options.template) : undefined;
+  const templateFor = (language: CertificateLanguage) =>
+    chosenTemplate ?? getTemplate(language === 'tr-en' ? 'bilingual' : undefined);
+  const theme = getTheme(options.theme);
+  const signatureImage = await signatureDataUrl(options.signature);
+  const issuedAt = options.issuedAt.toISOString();
+
+  // Names get the same checks and tidying as issuances through the API.
+  const certificates: { line: string; data: CertificateInput; template: CertificateTemplate }[] = [];
+  for (const { line, data } of rows) {
+    const language = isCertificateLanguage(data.language) ? data.language : options.language;
+    const checked = checkPersonName(typeof data.name === 'string' ? data.name : '', primaryLocale(language));
+    if (!checked.ok) {
+      errors.push(`${line}: ${NAME_ERROR_MESSAGES[checked.error]}`);
+      continue;
+    }
+    certificates.push({
+      line,
+      data: {
+        impactMessage: '',
+        date: formatCertificateDate(options.issuedAt, language),
+        ...data,
+        ...checked.value,
+        academicTitle: checked.value.academicTitle ?? data.academicTitle,
+        language,
+        issuedAt,
+        signatureImage,
+        verificationUrl: data.certificateNo ? verificationUrlFor(options.portalUrl, data.certificateNo) : undefined
+      },
+      template: templateFor(language)
+    });
+  }
+  if (errors.length > 0) {
+    console.error(errors.join('\n'));
+    process.exit(1);
+  }
+
+  await fs.mkdir(options.out, { recursive: true });
+  const differences: string[] = [];
+
+  const save = async (fileName: string, pdf: Uint8Array) => {
+    const target = path.join(options.out, fileName);
+    if (!options.check) {
+      await fs.writeFile(target, pdf);
+      console.log(fileName);
+      return;
+    }
+    const golden = await fs.readFile(target).catch(() => null);
+    if (!golden) differences.push(`missing: ${fileName}`);
+    else if (!golden.equals(pdf)) differences.push(`changed: ${fileName}`);
+  };
+
+  if (options.print) {
+    const back = options.backTemplate ? await loadTemplate(options.backTemplate) : PRINT_BACK_TEMPLATE;
+    const print = { ...options.print, back: options.back ? back : undefined };
+    const template = certificates[0]?.template ?? templateFor(options.language);
+    if (certificates.some((certificate) => certificate.template !== template)) {
+      throw new Error('--print puts all certificates on the same sheets: give every row the same language or pass --template.');
+    }
+    try {
+      await save(PRINT_FILE_NAME, await renderPrintSheetsPDF(certificates.map(({ data }) => data), template, print, { theme }));
+    } catch (err) {
+      if (err instanceof MissingGlyphsError) throw new Error(`no font has a glyph for ${err.characters.join(' ')}`);
+      throw err;
+    }
+  } else {
+    const taken = new Set<string>();
+    for (const { line, data, template } of certificates) {
+      let pdf: Uint8Array;
+      try {
+        pdf = await renderCertificatePDF(data, template, { theme, pdfA: options.pdfA });
+      } catch (err) {
+        if (err instanceof MissingGlyphsError) throw new Error(`${line}: no font has a glyph for ${err.characters.join(' ')}`);
+        throw err;
+      }
+      await save(uniqueFileName(taken, certificateFileName(data.name, data.language)), pdf);
+    }
+  }
+
+  if (options.check) {
+    if (differences.length > 0) {
+      const files = options.print ? 1 : certificates.length;
+      console.error(`${differences.join('\n')}\n${differences.length} of ${files} files differ from ${options.out}.`);
+      process.exit(1);
+    }
+    console.log(`${certificates.length} certificates match ${options.out}.`);
+  } else {
+    console.log(`${certificates.length} certificates written to ${options.out}.`);
+  }
+};
+
+run().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
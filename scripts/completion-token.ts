@@ -0,0 +1,55 @@
+import { randomUUID } from 'node:crypto';
+import { parseArgs } from 'node:util';
+import { signCompletionToken } from '../server/completionTokens';
+
+// ---------- completion-token ----------
+// Stands in for a survey tool: prints a signed completion token and the portal link a participant
+// would be sent to at the end of the survey, for trying out completion token campaigns locally.
+//
+//   COMPLETION_TOKEN_SECRET=dev npm run completion-token -- --study uyku-bellek-2026 --name "Ayşe Yılmaz"
+
+const USAGE = `Usage: npm run completion-token -- --study <campaign slug> [options]
+
+  --participant <id>     participant id in the survey (default: a random id)
+  --name <name>          holder name; the participant types it when omitted
+  --expires-in <days>    validity in days (default: no expiry)
+  --secret <secret>      signing secret (default: COMPLETION_TOKEN_SECRET)
+  --portal-url <url>     portal address for the printed link (default: http://localhost:5173/)`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const { values } = parseArgs({
+  options: {
+    study: { type: 'string' },
+    participant: { type: 'string' },
+    name: { type: 'string' },
+    'expires-in': { type: 'string' },
+    secret: { type: 'string', default: process.env.COMPLETION_TOKEN_SECRET ?? '' },
+    'portal-url': { type: 'string', default: 'http://localhost:5173/' },
+    help: { type: 'boolean', default: false }
+  }
+});
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+if (!values.study) fail('--study is required.');
+if (!values.secret) fail('Set COMPLETION_TOKEN_SECRET or pass --secret.');
+const days = values['expires-in'] === undefined ? undefined : Number(values['expires-in']);
+if (days !== undefined && !(days > 0)) fail(`--expires-in must be a positive number of days, got "${values['expires-in']}".`);
+
+const now = Math.floor(Date.now() / 1000);
+const token = signCompletionToken({
+  pid: values.participant ?? randomUUID(),
+  study: values.study!,
+  name: values.name,
+  iat: now,
+  exp: days === undefined ? undefined : now + Math.round(days * 24 * 60 * 60)
+}, values.secret!);
+
+console.log(token);
+console.log(`${values['portal-url']!.replace(/\/?$/, '/')}#/c/${encodeURIComponent(values.study!)}/complete/${token}`);
@@ -0,0 +1,100 @@
+import { crc32, deflateSync } from 'node:zlib';
+import QRCode from 'qrcode';
+
+// ---------- Badge images ----------
+// A round badge with the verification QR code in the middle, drawn pixel by pixel so the
+// server needs no image library. "Baking" stores the credential inside the PNG, where badge
+// backpacks and wallets look for it.
+
+const SIZE = 360;
+const CENTER = SIZE / 2;
+const OUTER_RADIUS = 176;
+const RING_RADIUS = 160;
+const PANEL = 184;  // white square behind the QR code
+
+type Rgb = [number, number, number];
+
+const DARK: Rgb = [22, 78, 99];
+const RING: Rgb = [6, 182, 212];
+const INK: Rgb = [15, 23, 42];
+const WHITE: Rgb = [255, 255, 255];
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const encodePng = (width: number, height: number, rgba: Buffer): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 6;  // RGBA
+
+  // Each scanline starts with filter type 0 (none).
+  const raw = Buffer.alloc((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgba.copy(raw, y * (width * 4 + 1) + 1, y * width * 4, (y + 1) * width * 4);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+export const renderBadgePng = (qrValue: string): Buffer => {
+  const pixels = Buffer.alloc(SIZE * SIZE * 4);
+  const { modules } = QRCode.create(qrValue, { errorCorrectionLevel: 'M' });
+  const cell = Math.floor((PANEL - 16) / modules.size);
+  const qrOrigin = CENTER - (cell * modules.size) / 2;
+  const panelOrigin = CENTER - PANEL / 2;
+
+  const colorAt = (x: number, y: number, distance: number): Rgb => {
+    const inPanel = x >= panelOrigin && x < panelOrigin + PANEL && y >= panelOrigin && y < panelOrigin + PANEL;
+    if (!inPanel) return distance > RING_RADIUS - 6 ? RING : DARK;
+
+    const col = Math.floor((x - qrOrigin) / cell);
+    const row = Math.floor((y - qrOrigin) / cell);
+    const onCode = col >= 0 && row >= 0 && col < modules.size && row < modules.size;
+    return onCode && modules.get(row, col) ? INK : WHITE;
+  };
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const distance = Math.hypot(x + 0.5 - CENTER, y + 0.5 - CENTER);
+      // Soft edge: partial coverage of the last pixel ring
+      const alpha = Math.max(0, Math.min(1, OUTER_RADIUS - distance + 0.5));
+      if (alpha === 0) continue;
+
+      const offset = (y * SIZE + x) * 4;
+      const [r, g, b] = colorAt(x, y, distance);
+      pixels[offset] = r;
+      pixels[offset + 1] = g;
+      pixels[offset + 2] = b;
+      pixels[offset + 3] = Math.round(alpha * 255);
+    }
+  }
+
+  return encodePng(SIZE, SIZE, pixels);
+};
+
+// Open Badges baking: an uncompressed iTXt chunk "openbadgecredential" before IEND.
+export const bakeCredential = (png: Buffer, credential: string): Buffer => {
+  const text = Buffer.concat([
+    Buffer.from('openbadgecredential\0', 'latin1'),
+    Buffer.from([0, 0]),             // not compressed
+    Buffer.from('\0\0', 'latin1'),  // no language tag or translated keyword
+    Buffer.from(credential, 'utf8')
+  ]);
+  const end = png.length - 12;  // IEND is always the last, empty chunk
+  return Buffer.concat([png.subarray(0, end), chunk('iTXt', text), png.subarray(end)]);
+};
@@ -0,0 +1,212 @@
+import { promises as fs } from 'node:fs';
+import { isLocale } from '../i18n';
+import { parseDay, parseHours } from '../utils/participation';
+import { Campaign, CampaignInfo, CampaignStatus, CampaignTranslation, CertificateLanguage, IssuerExtras, Locale, PortalFeatures, PrivacySettings, TranslatableFields } from '../types';
+
+// ---------- Campaign configuration ----------
+// Campaigns are configured in a JSON file (CAMPAIGNS_FILE, default server/campaigns.json)
+// and loaded once at startup. The "default" campaign backs the portal's home page.
+
+export const DEFAULT_CAMPAIGN_SLUG = 'default';
+
+export type CampaignRegistry = Map<string, Campaign>;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const parseDate = (slug: string, field: string, value: unknown): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new Error(`Campaign "${slug}": ${field} must be an ISO date, got ${JSON.stringify(value)}`);
+  }
+  return value;
+};
+
+const parseTranslations = (slug: string, value: unknown): Campaign['translations'] => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Campaign "${slug}": translations must be an object keyed by locale`);
+  }
+
+  const translations: Partial<Record<Locale, CampaignTranslation>> = {};
+  for (const [locale, wording] of Object.entries(value)) {
+    if (!isLocale(locale)) throw new Error(`Campaign "${slug}": unsupported translation locale "${locale}"`);
+    if (typeof wording !== 'object' || wording === null) {
+      throw new Error(`Campaign "${slug}": translations.${locale} must be an object`);
+    }
+    translations[locale] = wording as CampaignTranslation;
+  }
+  return translations;
+};
+
+// "roster": true or { "redemptionLimit": n } (one certificate per participant by default).
+const parseRoster = (slug: string, value: unknown): Campaign['roster'] => {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return { redemptionLimit: 1 };
+
+  const redemptionLimit = typeof value === 'object' && value !== null
+    ? (value as { redemptionLimit?: unknown }).redemptionLimit ?? 1
+    : undefined;
+  if (typeof redemptionLimit !== 'number' || !Number.isInteger(redemptionLimit) || redemptionLimit < 1) {
+    throw new Error(`Campaign "${slug}": roster must be true or { "redemptionLimit": <positive integer> }`);
+  }
+  return { redemptionLimit };
+};
+
+// Only the fields that are set, so the default campaign's values can fill in the rest.
+const parsePrivacy = (slug: string, value: unknown): PrivacySettings | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Campaign "${slug}": privacy must be an object`);
+  }
+
+  const { controller, contactEmail, retentionDays } = value as Record<string, unknown>;
+  const privacy: PrivacySettings = {};
+  for (const [field, text] of Object.entries({ controller, contactEmail })) {
+    if (text === undefined) continue;
+    if (typeof text !== 'string' || !text.trim()) throw new Error(`Campaign "${slug}": privacy.${field} must be a non-empty string`);
+    privacy[field as 'controller' | 'contactEmail'] = text.trim();
+  }
+  if (retentionDays !== undefined) {
+    if (typeof retentionDays !== 'number' || !Number.isInteger(retentionDays) || retentionDays < 1) {
+      throw new Error(`Campaign "${slug}": privacy.retentionDays must be a positive number of days`);
+    }
+    privacy.retentionDays = retentionDays;
+  }
+  return privacy;
+};
+
+// Participation dates become YYYY-MM-DD and hours numbers; activities need a description.
+const parseExtras = (slug: string, value: unknown): Campaign['extras'] => {
+  if (typeof value !== 'object' || value === null) return {};
+  const extras = { ...value } as Campaign['extras'] & Record<string, unknown>;
+
+  for (const field of ['startDate', 'endDate'] as const) {
+    if (extras[field] === undefined) continue;
+    const day = parseDay(extras[field]);
+    if (!day) throw new Error(`Campaign "${slug}": extras.${field} must be a date (YYYY-MM-DD), got ${JSON.stringify(extras[field])}`);
+    extras[field] = day;
+  }
+  if (extras.startDate && extras.endDate && extras.startDate > extras.endDate) {
+    throw new Error(`Campaign "${slug}": extras.startDate must not be after extras.endDate`);
+  }
+
+  if (extras.totalHours !== undefined) {
+    const hours = parseHours(extras.totalHours);
+    if (hours === null) throw new Error(`Campaign "${slug}": extras.totalHours must be a positive number of hours`);
+    extras.totalHours = hours;
+  }
+
+  if (extras.activities !== undefined) {
+    if (!Array.isArray(extras.activities)) throw new Error(`Campaign "${slug}": extras.activities must be an array`);
+    extras.activities = extras.activities.map((activity, index) => {
+      const where = `Campaign "${slug}": extras.activities[${index}]`;
+      if (typeof activity?.description !== 'string' || !activity.description.trim()) throw new Error(`${where} needs a description`);
+      const date = activity.date === undefined ? undefined : parseDay(activity.date);
+      const hours = activity.hours === undefined ? undefined : parseHours(activity.hours);
+      if (date === null) throw new Error(`${where}: date must be a date (YYYY-MM-DD)`);
+      if (hours === null) throw new Error(`${where}: hours must be a positive number`);
+      return { ...activity, description: activity.description.trim(), date, hours };
+    });
+  }
+  return extras;
+};
+
+const parseCampaign = (raw: Record<string, unknown>): Campaign => {
+  const slug = String(raw.slug ?? '');
+  if (!SLUG_PATTERN.test(slug)) throw new Error(`Invalid campaign slug "${slug}" (use lowercase letters, digits and dashes)`);
+  if (typeof raw.title !== 'string' || !raw.title.trim()) throw new Error(`Campaign "${slug}": title is required`);
+
+  const issuanceLimit = raw.issuanceLimit ?? 2;
+  if (typeof issuanceLimit !== 'number' || issuanceLimit < 0) {
+    throw new Error(`Campaign "${slug}": issuanceLimit must be a non-negative number`);
+  }
+
+  if (raw.completionTokens !== undefined && typeof raw.completionTokens !== 'boolean') {
+    throw new Error(`Campaign "${slug}": completionTokens must be true or false`);
+  }
+  const roster = parseRoster(slug, raw.roster);
+  if (raw.completionTokens && roster) {
+    throw new Error(`Campaign "${slug}": use either a roster or completion tokens, not both`);
+  }
+
+  const opensAt = parseDate(slug, 'opensAt', raw.opensAt);
+  const closesAt = parseDate(slug, 'closesAt', raw.closesAt);
+  if (opensAt && closesAt && Date.parse(opensAt) >= Date.parse(closesAt)) {
+    throw new Error(`Campaign "${slug}": opensAt must be before closesAt`);
+  }
+
+  return {
+    slug,
+    title: raw.title,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    extras: parseExtras(slug, raw.extras),
+    issuanceLimit,
+    opensAt,
+    closesAt,
+    templateId: typeof raw.templateId === 'string' ? raw.templateId : undefined,
+    themeId: typeof raw.themeId === 'string' ? raw.themeId : undefined,
+    signatureImageId: typeof raw.signatureImageId === 'string' ? raw.signatureImageId : undefined,
+    roster,
+    completionTokens: raw.completionTokens || undefined,
+    privacy: parsePrivacy(slug, raw.privacy),
+    translations: parseTranslations(slug, raw.translations)
+  };
+};
+
+export const loadCampaigns = async (filePath: string): Promise<CampaignRegistry> => {
+  const file = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  if (!Array.isArray(file.campaigns)) throw new Error(`${filePath}: "campaigns" must be an array`);
+
+  const registry: CampaignRegistry = new Map();
+  for (const raw of file.campaigns) {
+    const campaign = parseCampaign(raw);
+    if (registry.has(campaign.slug)) throw new Error(`Duplicate campaign slug "${campaign.slug}"`);
+    registry.set(campaign.slug, campaign);
+  }
+
+  if (!registry.has(DEFAULT_CAMPAIGN_SLUG)) {
+    throw new Error(`${filePath}: a campaign with slug "${DEFAULT_CAMPAIGN_SLUG}" is required`);
+  }
+
+  // The default campaign's privacy details apply portal-wide unless a study sets its own.
+  const defaults = registry.get(DEFAULT_CAMPAIGN_SLUG)!.privacy;
+  for (const campaign of registry.values()) {
+    if (defaults || campaign.privacy) campaign.privacy = { ...defaults, ...campaign.privacy };
+  }
+  return registry;
+};
+
+export const campaignStatus = (campaign: Campaign, now: Date = new Date()): CampaignStatus => {
+  if (campaign.opensAt && now.getTime() < Date.parse(campaign.opensAt)) return 'scheduled';
+  if (campaign.closesAt && now.getTime() >= Date.parse(campaign.closesAt)) return 'closed';
+  return 'open';
+};
+
+export const toCampaignInfo = (campaign: Campaign, features: PortalFeatures): CampaignInfo => ({
+  ...campaign,
+  ...features,
+  status: campaignStatus(campaign)
+});
+
+// Paragraphs written in Turkish are not printed on English certificates: without an English
+// version they fall back to the standard English wording (or, for the role, are left out).
+// Names (institution, unit, study title...) are kept.
+const PROSE_FIELDS = ['introText', 'closingText', 'role'] as const;
+
+const translatableOf = ({ title: _title, description: _description, ...wording }: CampaignTranslation = {}): TranslatableFields =>
+  wording;
+
+// Extras printed on a certificate of the campaign in the given language.
+export const localizedExtras = (campaign: Campaign, language: CertificateLanguage): IssuerExtras => {
+  const english = translatableOf(campaign.translations?.en);
+
+  if (language === 'en') {
+    const extras: IssuerExtras = { ...campaign.extras };
+    for (const field of PROSE_FIELDS) delete extras[field];
+    return { ...extras, ...english };
+  }
+  if (language === 'tr-en') {
+    return { ...campaign.extras, translations: { en: english } };
+  }
+  return { ...campaign.extras };
+};
@@ -0,0 +1,50 @@
+import '../fonts/node';
+import { renderCertificatePDF } from '../utils/pdfUtils';
+import { getTemplate } from '../templates';
+import { getTheme } from '../themes';
+import { PDF_STRINGS } from '../i18n/pdfStrings';
+import { IssuedCertificate } from '../types';
+import { SignatureImageStore } from './signatureImages';
+import { PdfSigner } from './signing';
+
+// ---------- Server-side certificate rendering ----------
+// Same renderer as the portal, so a signed PDF looks exactly like a locally generated one.
+
+interface RendererDeps {
+  signatureImages: SignatureImageStore;
+  signer: PdfSigner | null;
+  pdfA: boolean;
+}
+
+const signatureImageDataUrl = async (store: SignatureImageStore, id: string | undefined) => {
+  const image = id ? await store.read(id) : undefined;
+  return image ? `data:${image.type};base64,${image.bytes.toString('base64')}` : undefined;
+};
+
+export const createCertificateRenderer = ({ signatureImages, signer, pdfA }: RendererDeps) =>
+  async (certificate: IssuedCertificate, verificationUrl: string | undefined): Promise<Buffer> => {
+    const pdf = Buffer.from(await renderCertificatePDF({
+      ...certificate,
+      verificationUrl,
+      signatureImage: await signatureImageDataUrl(signatureImages, certificate.signatureImageId)
+    }, getTemplate(certificate.templateId), { theme: getTheme(certificate.themeId), pdfA }));
+    if (!signer) return pdf;
+
+    return signer(pdf, {
+      reason: `${PDF_STRINGS.tr.title} ${certificate.certificateNo}`,
+      name: certificate.institution ?? PDF_STRINGS.tr.institution,
+      location: certificate.location ?? ''
+    });
+  };
+
+// The configured portal address (PORTAL_URL). Request headers are never used: whatever the
+// server signs or sends in the institution's name must not point at an address a caller chose.
+export const portalBaseFor = (portalUrl: string): string => portalUrl.split('#')[0];
+
+// The QR code points at the configured portal; without one there is no QR code.
+export const verificationUrlFor = (portalUrl: string, certificateNo: string) => {
+  const base = portalBaseFor(portalUrl);
+  return base ? `${base}#/verify/${encodeURIComponent(certificateNo)}` : undefined;
+};
+
+export type CertificateRenderer = ReturnType<typeof createCertificateRenderer>;
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { loadCampaigns } from './campaigns';
+import { openRosterStore } from './rosters';
+import { openEventLog } from './events';
+import { signCompletionToken, verifyCompletionToken } from './completionTokens';
+import { issuanceRoutes } from './routes/issuances';
+
+// Survey links are only accepted with a valid signature, and the name they carry is checked
+// like a typed one before the form locks to it.
+
+const SECRET = 'test-secret';
+
+let dir: string;
+let server: ReturnType<typeof createServer>;
+let baseUrl: string;
+
+const post = async (pathname: string, body: unknown) => {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'completion-test-'));
+  const campaignsFile = path.join(dir, 'campaigns.json');
+  await writeFile(campaignsFile, JSON.stringify({
+    campaigns: [
+      { slug: 'default', title: 'Varsayılan', issuanceLimit: 1, extras: {} },
+      { slug: 'anket', title: 'Anket', completionTokens: true, extras: {} }
+    ]
+  }));
+
+  const store = await openLedgerStore(path.join(dir, 'ledger.json'));
+  const campaigns = await loadCampaigns(campaignsFile);
+  const rosters = await openRosterStore(path.join(dir, 'rosters'));
+  const events = await openEventLog(path.join(dir, 'events.json'));
+  const features = { signedPdf: false, emailDelivery: false, openBadges: false };
+  const routes = issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: SECRET });
+
+  server = createServer(routeRequests(routes, { corsOrigin: '*', trustProxy: false }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('a signed token verifies with its claims', () => {
+  const token = signCompletionToken({ pid: ' p-1 ', study: 'anket', name: ' Ayşe Yılmaz ' }, SECRET);
+  assert.deepEqual(verifyCompletionToken(token, SECRET), {
+    ok: true,
+    claims: { pid: 'p-1', study: 'anket', name: 'Ayşe Yılmaz', iat: undefined, exp: undefined }
+  });
+});
+
+test('tampered tokens and other secrets are refused', () => {
+  const token = signCompletionToken({ pid: 'p-1', study: 'anket' }, SECRET);
+  const [, mac] = token.split('.');
+  const forged = `${Buffer.from(JSON.stringify({ pid: 'p-2', study: 'anket' })).toString('base64url')}.${mac}`;
+
+  assert.deepEqual(verifyCompletionToken(forged, SECRET), { ok: false, error: 'invalidCompletionToken' });
+  assert.deepEqual(verifyCompletionToken(token, 'other-secret'), { ok: false, error: 'invalidCompletionToken' });
+  assert.deepEqual(verifyCompletionToken(`${token}.x`, SECRET), { ok: false, error: 'invalidCompletionToken' });
+});
+
+test('expired tokens are told apart from invalid ones', () => {
+  const token = signCompletionToken({ pid: 'p-1', study: 'anket', exp: 1_700_000_000 }, SECRET);
+  assert.equal(verifyCompletionToken(token, SECRET, new Date(1_699_999_999_000)).ok, true);
+  assert.deepEqual(verifyCompletionToken(token, SECRET, new Date(1_700_000_000_000)), { ok: false, error: 'completionTokenExpired' });
+});
+
+test('the token name is checked for the certificate language, as at issuance', async () => {
+  const token = signCompletionToken({ pid: 'p-10', study: 'anket', name: 'Doc. Ayşe Yılmaz' }, SECRET);
+  assert.deepEqual((await post('/api/campaigns/anket/completion/match', { token, language: 'tr' })).body, { name: 'Doç. Ayşe Yılmaz', used: false });
+  assert.deepEqual((await post('/api/campaigns/anket/completion/match', { token, language: 'en' })).body, { name: 'Doc. Ayşe Yılmaz', used: false });
+});
+
+test('an invalid token name is not matched, so the participant can type the name', async () => {
+  const token = signCompletionToken({ pid: 'p-11', study: 'anket', name: 'R2-D2' }, SECRET);
+  const match = await post('/api/campaigns/anket/completion/match', { token, language: 'tr' });
+  assert.equal(match.status, 200);
+  assert.deepEqual(match.body, { used: false });
+
+  const issued = await post('/api/campaigns/anket/issuances', { name: 'Ayşe Yılmaz', completionToken: token, impactMessage: '' });
+  assert.equal(issued.status, 201);
+  assert.equal(issued.body.certificate.name, 'Ayşe Yılmaz');
+});
@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// ---------- Survey completion tokens ----------
+// Studies run in external survey tools send finishing participants to
+// "#/c/<slug>/complete/<token>". The token is "<payload>.<signature>": the payload is base64url
+// JSON, the signature base64url HMAC-SHA256 of the payload part with COMPLETION_TOKEN_SECRET,
+// so the survey side (or scripts/completion-token.ts) can create tokens without calling the API.
+
+export interface CompletionClaims {
+  pid: string;      // participant id in the survey tool; one certificate per id and study
+  study: string;    // campaign slug
+  name?: string;    // holder name; the visitor types it when omitted
+  iat?: number;     // issued at (seconds since the epoch)
+  exp?: number;     // expiry (seconds since the epoch); never expires when omitted
+}
+
+export type CompletionTokenResult =
+  | { ok: true; claims: CompletionClaims }
+  | { ok: false; error: 'invalidCompletionToken' | 'completionTokenExpired' };
+
+const MAX_TOKEN_LENGTH = 2048;
+const MAX_PID_LENGTH = 128;
+
+const signature = (payload: string, secret: string): Buffer =>
+  createHmac('sha256', secret).update(payload).digest();
+
+export const signCompletionToken = (claims: CompletionClaims, secret: string): string => {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+  return `${payload}.${signature(payload, secret).toString('base64url')}`;
+};
+
+export const verifyCompletionToken = (token: string, secret: string, now: Date = new Date()): CompletionTokenResult => {
+  const invalid: CompletionTokenResult = { ok: false, error: 'invalidCompletionToken' };
+  if (token.length > MAX_TOKEN_LENGTH) return invalid;
+
+  const [payload, mac, ...rest] = token.split('.');
+  if (!payload || !mac || rest.length > 0) return invalid;
+  const supplied = Buffer.from(mac, 'base64url');
+  const expected = signature(payload, secret);
+  if (supplied.length !== expected.length || !timingSafeEqual(supplied, expected)) return invalid;
+
+  let claims: Partial<CompletionClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return invalid;
+  }
+  // Signed but malformed: the survey side built the token wrongly.
+  if (typeof claims.pid !== 'string' || !claims.pid.trim() || claims.pid.length > MAX_PID_LENGTH) return invalid;
+  if (typeof claims.study !== 'string') return invalid;
+  if (claims.name !== undefined && typeof claims.name !== 'string') return invalid;
+  if (claims.exp !== undefined && typeof claims.exp !== 'number') return invalid;
+
+  if (claims.exp !== undefined && claims.exp * 1000 <= now.getTime()) return { ok: false, error: 'completionTokenExpired' };
+  return {
+    ok: true,
+    claims: { pid: claims.pid.trim(), study: claims.study, name: claims.name?.trim() || undefined, iat: claims.iat, exp: claims.exp }
+  };
+};
@@ -0,0 +1,53 @@
+import path from 'node:path';
+
+// ---------- Server configuration (environment variables) ----------
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${name} must be a number, got "${raw}"`);
+  return value;
+};
+
+export const config = {
+  port: numberFromEnv('PORT', 8787),
+  dataFile: process.env.DATA_FILE ?? path.resolve('server/data/ledger.json'),
+  campaignsFile: process.env.CAMPAIGNS_FILE ?? path.resolve('server/campaigns.json'),
+  // Daily counts of quota hits, errors and impact message fallbacks for the coordinator dashboard
+  eventsFile: process.env.EVENTS_FILE ?? path.resolve('server/data/events.json'),
+  // Only trust X-Forwarded-For when running behind a proxy we control (Vite dev proxy, nginx).
+  trustProxy: process.env.TRUST_PROXY === '1',
+  corsOrigin: process.env.CORS_ORIGIN ?? '*',
+  // Bearer token for coordinator endpoints; those endpoints are disabled when unset.
+  adminToken: process.env.ADMIN_TOKEN ?? '',
+  // Public portal address for the verification links in server-rendered PDFs, e-mails and Open
+  // Badges, e.g. https://example.github.io/portal/. Signed PDFs and e-mail delivery require it.
+  portalUrl: process.env.PORTAL_URL ?? '',
+  // Public address of this API, e.g. https://api.example.org/. Open Badges then carry a revocation
+  // list status pointing here, so revoking a certificate also shows up for exported badges.
+  apiUrl: process.env.API_URL ?? '',
+  rostersDir: process.env.ROSTERS_DIR ?? path.resolve('server/data/rosters'),
+  signatureImagesDir: process.env.SIGNATURE_IMAGES_DIR ?? path.resolve('server/data/signature-images'),
+  // Shared with the survey tools that create completion tokens (server/completionTokens.ts)
+  completionTokenSecret: process.env.COMPLETION_TOKEN_SECRET ?? '',
+  // PKCS#12 bundle (issuer key + certificate) for digitally signing PDFs; signing is off when unset.
+  signingP12File: process.env.SIGNING_P12_FILE ?? '',
+  signingPassphrase: process.env.SIGNING_P12_PASSPHRASE ?? '',
+  signingContact: process.env.SIGNING_CONTACT ?? '',
+  // Render server-side PDFs as PDF/A-2b for long-term archiving.
+  pdfA: process.env.PDF_A === '1',
+  // Ed25519 private key (PEM) for signing Open Badges credentials; badge export is off when unset.
+  credentialKeyFile: process.env.CREDENTIAL_KEY_FILE ?? '',
+  // SMTP transport for e-mailing certificates, e.g. smtp://localhost:1025; e-mail delivery is off when unset.
+  smtpUrl: process.env.SMTP_URL ?? '',
+  mailFrom: process.env.MAIL_FROM ?? 'Bilimsel Gönüllü Portalı <no-reply@localhost>',
+  // Thank-you message provider (server/impactMessages.ts); the keys stay on the server.
+  impact: {
+    provider: process.env.IMPACT_PROVIDER ?? '',
+    model: process.env.IMPACT_MODEL ?? '',
+    endpoint: process.env.IMPACT_ENDPOINT ?? '',
+    geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+    apiKey: process.env.IMPACT_API_KEY ?? ''
+  }
+};
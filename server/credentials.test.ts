@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { KeyObject, createHash, generateKeyPairSync, verify } from 'node:crypto';
+import { crc32 } from 'node:zlib';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { loadCampaigns } from './campaigns';
+import { openRosterStore } from './rosters';
+import { openEventLog } from './events';
+import { loadCredentialSigner } from './credentials';
+import { issuanceRoutes } from './routes/issuances';
+import { revocationRoutes } from './routes/revocations';
+import { credentialRoutes } from './routes/credentials';
+import { OpenBadgeCredential } from '../types';
+
+// Credentials are signed with the issuer key and baked into badge images unchanged, and they
+// name a revocation list, so revoking the certificate later reaches exported badges too.
+
+const ADMIN_TOKEN = 'test-admin';
+const PORTAL_URL = 'https://sertifika.example.org/';
+const API_URL = 'https://api.example.org/';
+
+let dir: string;
+let publicKey: KeyObject;
+let server: ReturnType<typeof createServer>;
+let baseUrl: string;
+
+// JSON Canonicalization Scheme for the plain data in a credential: sorted keys, no whitespace.
+const canonical = (value: unknown): string => JSON.stringify(value, (_key, item) =>
+  item && typeof item === 'object' && !Array.isArray(item)
+    ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : item);
+
+const sha256 = (value: unknown) => createHash('sha256').update(canonical(value)).digest();
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const fromBase58 = (encoded: string): Buffer => {
+  let value = 0n;
+  for (const char of encoded) value = value * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+  const hex = value.toString(16);
+  return Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+};
+
+// eddsa-jcs-2022: the signature covers the hashes of the proof options and of the credential.
+const proofVerifies = ({ proof, ...credential }: OpenBadgeCredential): boolean => {
+  const { proofValue = '', ...options } = proof ?? {};
+  return verify(null, Buffer.concat([sha256(options), sha256(credential)]), publicKey, fromBase58(proofValue.slice(1)));
+};
+
+// PNG chunks as [type, data], checking each CRC on the way.
+const pngChunks = (png: Buffer): [string, Buffer][] => {
+  const chunks: [string, Buffer][] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const body = png.subarray(offset + 4, offset + 8 + length);
+    assert.equal(png.readUInt32BE(offset + 8 + length), crc32(body));
+    chunks.push([body.subarray(0, 4).toString('latin1'), body.subarray(4)]);
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const api = async (method: string, pathname: string, body?: unknown, headers: Record<string, string> = {}) => {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const issue = async (name: string) => {
+  const issued = await api('POST', '/api/campaigns/default/issuances', { name, impactMessage: '' });
+  assert.equal(issued.status, 201);
+  return issued.body.certificate.certificateNo as string;
+};
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'credentials-test-'));
+  const campaignsFile = path.join(dir, 'campaigns.json');
+  await writeFile(campaignsFile, JSON.stringify({
+    campaigns: [{ slug: 'default', title: 'Varsayılan', issuanceLimit: 10, extras: {} }]
+  }));
+  const keyFile = path.join(dir, 'issuer-key.pem');
+  const keys = generateKeyPairSync('ed25519');
+  publicKey = keys.publicKey;
+  await writeFile(keyFile, keys.privateKey.export({ format: 'pem', type: 'pkcs8' }));
+
+  const store = await openLedgerStore(path.join(dir, 'ledger.json'));
+  const campaigns = await loadCampaigns(campaignsFile);
+  const rosters = await openRosterStore(path.join(dir, 'rosters'));
+  const events = await openEventLog(path.join(dir, 'events.json'));
+  const signer = await loadCredentialSigner({ keyFile });
+  const features = { signedPdf: false, emailDelivery: false, openBadges: true };
+  const routes = [
+    ...revocationRoutes({ store, adminToken: ADMIN_TOKEN }),
+    ...credentialRoutes({ store, signer, portalUrl: PORTAL_URL, apiUrl: API_URL }),
+    ...issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: '' })
+  ];
+
+  server = createServer(routeRequests(routes, { corsOrigin: '*', trustProxy: false }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('a credential carries a proof made with the issuer key', async () => {
+  const certificateNo = await issue('Mehmet Öz');
+  const { status, body: credential } = await api('GET', `/api/certificates/${certificateNo}/credential`);
+  assert.equal(status, 200);
+  assert.equal(credential.id, `${PORTAL_URL}#/verify/${certificateNo}`);
+  assert.equal(credential.credentialSubject.identifier[0].identityHash, 'Mehmet Öz');
+  assert.match(credential.issuer.id, /^did:key:z6Mk/);
+  assert.equal(credential.proof.verificationMethod, `${credential.issuer.id}#${credential.issuer.id.slice('did:key:'.length)}`);
+  assert.ok(proofVerifies(credential));
+
+  // Any change to the signed data breaks the proof.
+  assert.equal(proofVerifies({ ...credential, credentialSubject: { ...credential.credentialSubject, role: 'Araştırmacı' } }), false);
+});
+
+test('the badge image carries the same credential in an iTXt chunk before IEND', async () => {
+  const certificateNo = await issue('Zeynep Kaya');
+  const credential = (await api('GET', `/api/certificates/${certificateNo}/credential`)).body;
+
+  const res = await fetch(`${baseUrl}/api/certificates/${certificateNo}/badge`);
+  assert.equal(res.headers.get('content-type'), 'image/png');
+  const chunks = pngChunks(Buffer.from(await res.arrayBuffer()));
+
+  assert.deepEqual(chunks.map(([type]) => type), ['IHDR', 'IDAT', 'iTXt', 'IEND']);
+  const [, text] = chunks[2];
+  const prefix = Buffer.from('openbadgecredential\0\0\0\0\0', 'latin1');
+  assert.ok(text.subarray(0, prefix.length).equals(prefix));
+  assert.deepEqual(JSON.parse(text.subarray(prefix.length).toString('utf8')), credential);
+});
+
+test('a revoked certificate shows up on the revocation list its credential names', async () => {
+  const certificateNo = await issue('Ayşe Yılmaz');
+
+  const credential = await api('GET', `/api/certificates/${certificateNo}/credential`);
+  assert.equal(credential.status, 200);
+  const statusUrl = `${API_URL}api/certificates/${certificateNo}/revocation-list`;
+  assert.deepEqual(credential.body.credentialStatus, { id: statusUrl, type: '1EdTechRevocationList' });
+
+  const listPath = `/api/certificates/${certificateNo}/revocation-list`;
+  assert.deepEqual((await api('GET', listPath)).body.revokedCredentials, []);
+
+  const revocation = await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: 'Yanlış çalışma' },
+    { Authorization: `Bearer ${ADMIN_TOKEN}` });
+  assert.equal(revocation.status, 201);
+
+  const list = await api('GET', listPath);
+  assert.equal(list.body.id, statusUrl);
+  assert.equal(list.body.issuer, credential.body.issuer.id);
+  assert.deepEqual(list.body.revokedCredentials, [{ id: credential.body.id, revoked: true, revocationReason: 'Yanlış çalışma' }]);
+
+  // Once revoked, no new credential is exported.
+  assert.equal((await api('GET', `/api/certificates/${certificateNo}/credential`)).status, 410);
+});
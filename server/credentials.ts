@@ -0,0 +1,75 @@
+import { promises as fs } from 'node:fs';
+import { createHash, createPrivateKey, createPublicKey, sign } from 'node:crypto';
+import { DataIntegrityProof, OpenBadgeCredential } from '../types';
+
+// ---------- Credential signatures ----------
+// Open Badges credentials are signed with the issuer's Ed25519 key as a Data Integrity proof
+// (cryptosuite eddsa-jcs-2022). The issuer is identified by the key's did:key, so anyone can
+// check a credential without asking this server.
+
+export interface CredentialSigner {
+  issuerId: string;
+  sign: (credential: OpenBadgeCredential) => OpenBadgeCredential;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const base58btc = (bytes: Uint8Array): string => {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+};
+
+// JSON Canonicalization Scheme (RFC 8785): sorted keys, no whitespace, undefined dropped.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = (value: unknown) => createHash('sha256').update(canonicalJson(value)).digest();
+
+// Ed25519 public keys in did:key are multicodec 0xed01 followed by the raw key.
+const ED25519_MULTICODEC = Buffer.from([0xed, 0x01]);
+
+export const loadCredentialSigner = async (options: { keyFile: string }): Promise<CredentialSigner | null> => {
+  if (!options.keyFile) return null;
+
+  const privateKey = createPrivateKey(await fs.readFile(options.keyFile));
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`${options.keyFile}: the credential key must be an Ed25519 private key`);
+  }
+  const { x } = createPublicKey(privateKey).export({ format: 'jwk' });
+  const multibase = `z${base58btc(Buffer.concat([ED25519_MULTICODEC, Buffer.from(x!, 'base64url')]))}`;
+  const issuerId = `did:key:${multibase}`;
+
+  return {
+    issuerId,
+    sign: ({ proof: _proof, ...credential }) => {
+      // Dated at issuance, so exporting the same certificate twice gives the same file.
+      const proof: DataIntegrityProof = {
+        '@context': credential['@context'],
+        type: 'DataIntegrityProof',
+        cryptosuite: 'eddsa-jcs-2022',
+        created: credential.validFrom,
+        verificationMethod: `${issuerId}#${multibase}`,
+        proofPurpose: 'assertionMethod'
+      };
+      const signature = sign(null, Buffer.concat([sha256(proof), sha256(credential)]), privateKey);
+      return { ...credential, proof: { ...proof, proofValue: `z${base58btc(signature)}` } };
+    }
+  };
+};
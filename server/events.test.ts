@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { loadCampaigns } from './campaigns';
+import { openRosterStore } from './rosters';
+import { EventLog, openEventLog } from './events';
+import { issuanceRoutes } from './routes/issuances';
+import { dashboardRoutes } from './routes/dashboard';
+
+// Dashboard figures for claims come from the API itself; browsers may only report views and starts.
+
+let dir: string;
+let events: EventLog;
+let server: ReturnType<typeof createServer>;
+let baseUrl: string;
+
+const post = async (pathname: string, body: unknown) => {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const countOf = (kind: string, code?: string) =>
+  events.counts().filter((c) => c.kind === kind && c.code === code).reduce((sum, c) => sum + c.count, 0);
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'events-test-'));
+  const campaignsFile = path.join(dir, 'campaigns.json');
+  await writeFile(campaignsFile, JSON.stringify({
+    campaigns: [{ slug: 'default', title: 'Varsayılan', issuanceLimit: 1, extras: {} }]
+  }));
+
+  const store = await openLedgerStore(path.join(dir, 'ledger.json'));
+  const campaigns = await loadCampaigns(campaignsFile);
+  const rosters = await openRosterStore(path.join(dir, 'rosters'));
+  events = await openEventLog(path.join(dir, 'events.json'));
+  const features = { signedPdf: false, emailDelivery: false, openBadges: false };
+  const routes = [
+    ...dashboardRoutes({ store, campaigns, events, adminToken: 'test-admin' }),
+    ...issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: '' })
+  ];
+
+  server = createServer(routeRequests(routes, { corsOrigin: '*', trustProxy: false }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('quota hits and refused claims are recorded by the API', async () => {
+  assert.equal((await post('/api/campaigns/default/issuances', { name: 'Ayşe Yılmaz', impactMessage: '' })).status, 201);
+  assert.equal((await post('/api/campaigns/default/issuances', { name: 'Ayşe Yılmaz', impactMessage: '' })).status, 429);
+  assert.equal((await post('/api/campaigns/default/previews', { name: 'R2-D2', impactMessage: '' })).status, 400);
+
+  assert.equal(countOf('quotaReached'), 1);
+  assert.equal(countOf('error', 'nameHasDigits'), 1);
+});
+
+test('refusals from one client stop counting once its budget is spent', async () => {
+  for (let i = 0; i < 30; i++) {
+    assert.equal((await post('/api/campaigns/default/previews', { name: 'R2-D2', impactMessage: '' })).status, 400);
+  }
+  // All requests in this file come from one address; the quota hit above used one of its 20.
+  assert.equal(countOf('quotaReached') + countOf('error', 'nameHasDigits'), 20);
+});
+
+test('browsers may report views and starts only', async () => {
+  assert.equal((await post('/api/campaigns/default/events', { kind: 'view' })).status, 202);
+  assert.equal((await post('/api/campaigns/default/events', { kind: 'start' })).status, 202);
+  assert.equal((await post('/api/campaigns/default/events', { kind: 'quotaReached' })).status, 400);
+  assert.equal((await post('/api/campaigns/default/events', { kind: 'error', code: 'pdfFailed' })).status, 400);
+
+  assert.equal(countOf('view'), 1);
+  assert.equal(countOf('start'), 1);
+  assert.equal(countOf('quotaReached'), 1);
+});
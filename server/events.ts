@@ -0,0 +1,61 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PortalEventCount, PortalEventKind } from '../types';
+
+// ---------- Portal event counts (JSON file store) ----------
+// Form views and starts reported by the certificate form, and the quota hits, errors and impact
+// message fallbacks the API records itself, kept as counts per day, campaign and error code for
+// the coordinator dashboard. Nothing identifies the visitor, so the file can be kept as long as
+// the ledger.
+
+// The only kinds browsers may report; outcomes of claims are recorded by the API.
+export const CLIENT_EVENT_KINDS: PortalEventKind[] = ['view', 'start'];
+
+interface EventFile {
+  counts: PortalEventCount[];
+}
+
+export type EventLog = Awaited<ReturnType<typeof openEventLog>>;
+
+export const openEventLog = async (filePath: string) => {
+  let data: EventFile = { counts: [] };
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    const snapshot = JSON.stringify(data, null, 2);
+    const tmpPath = `${filePath}.tmp`;
+
+    writeQueue = writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, filePath);
+      });
+
+    return writeQueue;
+  };
+
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await flush();
+  }
+
+  return {
+    counts: (): PortalEventCount[] => data.counts,
+
+    record: (campaignSlug: string, kind: PortalEventKind, code: string | undefined, at: Date): Promise<void> => {
+      const day = at.toISOString().slice(0, 10);
+      const entry = data.counts.find((c) =>
+        c.day === day && c.campaignSlug === campaignSlug && c.kind === kind && c.code === code);
+      if (entry) {
+        entry.count++;
+      } else {
+        data.counts.push({ day, campaignSlug, kind, code, count: 1 });
+      }
+      return flush();
+    }
+  };
+};
@@ -0,0 +1,15 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { HttpError, matchPath } from './http';
+
+test('path parameters are decoded', () => {
+  assert.deepEqual(matchPath('/api/campaigns/:slug', '/api/campaigns/uyku%20%C3%A7al%C4%B1%C5%9Fmas%C4%B1'), { slug: 'uyku çalışması' });
+  assert.equal(matchPath('/api/campaigns/:slug', '/api/certificates/x'), null);
+});
+
+test('a malformed escape in a parameter is a bad request', () => {
+  assert.throws(() => matchPath('/api/certificates/:no', '/api/certificates/%E0'),
+    (err) => err instanceof HttpError && err.status === 400);
+  // Other routes are not affected by it.
+  assert.equal(matchPath('/api/campaigns/:slug/stats', '/api/certificates/%E0'), null);
+});
@@ -0,0 +1,170 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+
+// ---------- Minimal HTTP helpers ----------
+
+// `code` is a stable identifier the portal maps to a message in the visitor's language
+// (errors.<code> in i18n/); `message` stays as the Turkish fallback.
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string) {
+    super(message);
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export const readJson = async <T>(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'İstek gövdesi çok büyük.');
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Geçersiz JSON gövdesi.');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendBytes = (res: ServerResponse, status: number, body: Buffer, headers: Record<string, string>) => {
+  res.writeHead(status, { 'Content-Length': String(body.length), ...headers });
+  res.end(body);
+};
+
+export const clientIpOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Coordinator endpoints require "Authorization: Bearer <ADMIN_TOKEN>".
+export const requireAdmin = (req: IncomingMessage, adminToken: string) => {
+  if (!adminToken) throw new HttpError(503, 'Koordinatör işlemleri bu sunucuda etkin değil (ADMIN_TOKEN tanımlı değil).');
+
+  const header = req.headers.authorization ?? '';
+  const supplied = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(adminToken);
+
+  if (supplied.length !== expected.length || !timingSafeEqual(supplied, expected)) {
+    throw new HttpError(401, 'Yetkisiz erişim.', 'unauthorized');
+  }
+};
+
+// Counts failures per key (e.g. wrong access codes per client IP) in a fixed time window.
+export const createAttemptLimiter = (maxFailures: number, windowMs: number) => {
+  const failures = new Map<string, { count: number; resetAt: number }>();
+
+  const current = (key: string) => {
+    const entry = failures.get(key);
+    if (entry && Date.now() >= entry.resetAt) {
+      failures.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    blocked: (key: string): boolean => (current(key)?.count ?? 0) >= maxFailures,
+
+    fail: (key: string) => {
+      const entry = current(key) ?? { count: 0, resetAt: Date.now() + windowMs };
+      entry.count++;
+      failures.set(key, entry);
+    }
+  };
+};
+
+// ---------- Routing ----------
+
+export interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  clientIp: string;
+}
+
+export interface Route {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Express-style pattern, e.g. "/api/certificates/:certificateNo"
+  path: string;
+  handler: (ctx: RequestContext) => Promise<void>;
+}
+
+// Parameters are decoded once the whole path matches; a malformed escape such as "%E0" in one
+// is the client's mistake (400), not a server error.
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const raw: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part.startsWith(':')) {
+      raw[part.slice(1)] = pathParts[i];
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    try {
+      params[name] = decodeURIComponent(value);
+    } catch {
+      throw new HttpError(400, 'Adresteki karakter kodlaması geçersiz.');
+    }
+  }
+  return params;
+};
+
+export interface RouterOptions {
+  corsOrigin: string;
+  trustProxy: boolean;
+}
+
+// The request listener for node:http: runs the first matching route and turns errors into JSON.
+export const routeRequests = (routes: Route[], { corsOrigin, trustProxy }: RouterOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      for (const route of routes) {
+        if (route.method !== req.method) continue;
+        const params = matchPath(route.path, pathname);
+        if (!params) continue;
+
+        await route.handler({ req, res, params, clientIp: clientIpOf(req, trustProxy) });
+        return;
+      }
+      throw new HttpError(404, 'Bulunamadı.');
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message, code: err.code });
+      } else {
+        console.error("Unhandled API error", err);
+        sendJson(res, 500, { error: 'Sunucu hatası.' });
+      }
+    }
+  };
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ImpactFallbackReason, ImpactMessageProvider, createImpactMessageService } from './impactMessages';
+import { templateImpactMessage } from '../utils/impactTemplates';
+import { ImpactMessageRequest } from '../types';
+
+// Names only go to the provider with consent, and its answers are checked before use.
+
+const request: ImpactMessageRequest = { name: 'Ayşe Yılmaz', locale: 'tr', campaignSlug: 'anket', aiConsent: true };
+
+const fakeProvider = (answers: string[]) => {
+  const names: string[] = [];
+  const provider: ImpactMessageProvider = {
+    id: 'fake',
+    processor: 'Fake AI',
+    generate: async ({ name }) => {
+      names.push(name);
+      return answers.shift() ?? '';
+    }
+  };
+  return { provider, names };
+};
+
+test('without consent the name is not sent to the provider', async () => {
+  const { provider, names } = fakeProvider(['Katkınız için teşekkürler.']);
+  const generate = createImpactMessageService(provider);
+  assert.equal(await generate({ ...request, aiConsent: false }), templateImpactMessage(request));
+  assert.deepEqual(names, []);
+});
+
+test('filtered answers fall back to the template pool and are reported', async () => {
+  const { provider } = fakeProvider(['Ayrıntılar için https://example.org adresine bakın.']);
+  const fallbacks: ImpactFallbackReason[] = [];
+  const generate = createImpactMessageService(provider, (_, reason) => fallbacks.push(reason));
+  assert.equal(await generate(request), templateImpactMessage(request));
+  assert.deepEqual(fallbacks, ['filtered']);
+});
+
+test('accepted answers are cached per name and study', async () => {
+  const { provider, names } = fakeProvider(['Katkınız için teşekkürler.', 'Başka bir mesaj.']);
+  const generate = createImpactMessageService(provider);
+  assert.equal(await generate(request), 'Katkınız için teşekkürler.');
+  assert.equal(await generate({ ...request, name: 'ayşe  yılmaz' }), 'Katkınız için teşekkürler.');
+  assert.equal(names.length, 1);
+});
@@ -0,0 +1,86 @@
+import { moderateImpactMessage } from '../utils/impactMessage';
+import { templateImpactMessage } from '../utils/impactTemplates';
+import { createGeminiProvider } from './impactProviders/gemini';
+import { createOpenAiCompatibleProvider } from './impactProviders/openAiCompatible';
+import { ImpactMessageRequest } from '../types';
+
+// ---------- Impact messages ----------
+// The short thank-you sentence on each certificate. A provider writes it, moderateImpactMessage
+// checks it, and the template pool steps in whenever the provider fails or is filtered. Providers
+// run here rather than in the browser so their API keys never reach the portal bundle.
+
+export interface ImpactMessageProvider {
+  id: string;
+  // Outside service the name is sent to, named when asking for consent
+  processor: string;
+  generate: (request: ImpactMessageRequest) => Promise<string>;
+}
+
+// Why the template pool stood in for the provider.
+export type ImpactFallbackReason = 'failed' | 'filtered';
+
+export interface ImpactProviderConfig {
+  provider: string;
+  model: string;
+  endpoint: string;
+  geminiApiKey: string;
+  apiKey: string;
+}
+
+// IMPACT_PROVIDER picks the provider: "gemini" (default when GEMINI_API_KEY is set), "openai"
+// (IMPACT_ENDPOINT, IMPACT_MODEL, optional IMPACT_API_KEY) or "template"; null means templates.
+export const createImpactProvider = (options: ImpactProviderConfig): ImpactMessageProvider | null => {
+  const kind = options.provider || (options.geminiApiKey ? 'gemini' : 'template');
+
+  if (kind === 'gemini' && options.geminiApiKey) {
+    return createGeminiProvider({ apiKey: options.geminiApiKey, model: options.model || undefined });
+  }
+  if (kind === 'openai' && options.endpoint) {
+    return createOpenAiCompatibleProvider({
+      baseUrl: options.endpoint,
+      model: options.model || 'llama3.2',
+      apiKey: options.apiKey || undefined
+    });
+  }
+  if (kind !== 'template') console.warn(`Impact message provider "${kind}" is not configured; using templates.`);
+  return null;
+};
+
+const cacheKey = (providerId: string, { name, locale, campaignSlug }: ImpactMessageRequest): string =>
+  [providerId, campaignSlug, locale, name.trim().replace(/\s+/g, ' ').toLocaleLowerCase('tr-TR')].join('|');
+
+// Accepted messages are kept per name and campaign for the lifetime of the server, so a visitor
+// claiming again gets the same wording.
+export const createImpactMessageService = (
+  provider: ImpactMessageProvider | null,
+  onFallback?: (request: ImpactMessageRequest, reason: ImpactFallbackReason) => void
+) => {
+  const cache = new Map<string, string>();
+
+  return async (request: ImpactMessageRequest): Promise<string> => {
+    // Without consent the name is not sent out.
+    if (!provider || !request.aiConsent) return templateImpactMessage(request);
+
+    const key = cacheKey(provider.id, request);
+    const cached = request.attempt ? undefined : cache.get(key);
+    if (cached) return cached;
+
+    let message: string | null = null;
+    let reason: ImpactFallbackReason = 'filtered';
+    try {
+      message = moderateImpactMessage(await provider.generate(request));
+      if (!message) console.warn(`Impact message from ${provider.id} was filtered out`);
+    } catch (error) {
+      console.error(`Impact message provider ${provider.id} failed:`, error);
+      reason = 'failed';
+    }
+    if (!message) {
+      onFallback?.(request, reason);
+      // Not cached, so the next claim asks the provider again.
+      return templateImpactMessage(request);
+    }
+
+    cache.set(key, message);
+    return message;
+  };
+};
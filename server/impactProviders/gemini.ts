@@ -0,0 +1,27 @@
+import { GoogleGenAI } from '@google/genai';
+import { ImpactMessageProvider } from '../impactMessages';
+import { impactPrompt } from './prompts';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// One client for the lifetime of the server.
+export const createGeminiProvider = (options: { apiKey: string; model?: string }): ImpactMessageProvider => {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  return {
+    id: `gemini:${model}`,
+    processor: 'Google Gemini',
+    generate: async (request) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: impactPrompt(request),
+        config: {
+          temperature: 0.7,
+          maxOutputTokens: 100,
+        }
+      });
+      return response.text ?? '';
+    }
+  };
+};
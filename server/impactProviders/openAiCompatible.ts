@@ -0,0 +1,45 @@
+import { ImpactMessageProvider } from '../impactMessages';
+import { impactPrompt } from './prompts';
+
+// Names the service in the consent question.
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Any server speaking the OpenAI chat completions API: Ollama (http://localhost:11434/v1),
+// llama.cpp, vLLM, LM Studio... The key is optional for local servers.
+export const createOpenAiCompatibleProvider = (options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): ImpactMessageProvider => {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: `openai:${options.model}`,
+    processor: hostOf(options.baseUrl),
+    generate: async (request) => {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: [{ role: 'user', content: impactPrompt(request) }],
+          temperature: 0.7,
+          max_tokens: 100
+        })
+      });
+      if (!res.ok) throw new Error(`Impact message endpoint returned HTTP ${res.status}`);
+
+      const body = await res.json();
+      return String(body?.choices?.[0]?.message?.content ?? '');
+    }
+  };
+};
@@ -0,0 +1,16 @@
+import { ImpactMessageRequest, Locale } from '../../types';
+
+// Shared by the language-model providers; the study title is optional context.
+const PROMPTS: Record<Locale, (name: string, study: string) => string> = {
+  tr: (name, study) => `Gönüllü ismi: ${name}. Bu kişi ${study ? `"${study}" adlı` : 'bir'} bilimsel araştırmaya gönüllü olarak destek verdi. 
+      Lütfen bu kişiye araştırmaya katkılarından dolayı çok kısa (maksimum 15 kelime), 
+      profesyonel ve içten bir teşekkür mesajı yaz (Türkçe). Yalnızca mesajı yaz.
+      Örneğin: "Katkılarınız, veri analizi sürecimize ışık tuttu ve bilimin ilerlemesine yardımcı oldu."`,
+  en: (name, study) => `Volunteer name: ${name}. This person volunteered to support ${study ? `the research study "${study}"` : 'a scientific research study'}.
+      Please write a very short (at most 15 words), professional and sincere thank-you message
+      for their contribution to the research (in English). Reply with the message only.
+      For example: "Your contribution shed light on our data analysis and helped science move forward."`
+};
+
+export const impactPrompt = ({ name, locale, study }: ImpactMessageRequest): string =>
+  PROMPTS[locale](name, study ?? '');
@@ -0,0 +1,88 @@
+import { createServer } from 'node:http';
+import { config } from './config';
+import { Route, routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { openEventLog } from './events';
+import { loadCampaigns } from './campaigns';
+import { issuanceRoutes } from './routes/issuances';
+import { batchRoutes } from './routes/batch';
+import { signingRoutes } from './routes/signing';
+import { rosterRoutes } from './routes/rosters';
+import { deliveryRoutes } from './routes/delivery';
+import { revocationRoutes } from './routes/revocations';
+import { credentialRoutes } from './routes/credentials';
+import { dashboardRoutes } from './routes/dashboard';
+import { privacyRoutes } from './routes/privacy';
+import { impactMessageRoutes } from './routes/impactMessages';
+import { openRosterStore } from './rosters';
+import { openSignatureImageStore } from './signatureImages';
+import { loadPdfSigner } from './signing';
+import { loadCredentialSigner } from './credentials';
+import { createCertificateRenderer } from './certificatePdf';
+import { createMailer } from './mailer';
+import { createImpactProvider } from './impactMessages';
+import { startRetentionSweep } from './privacy';
+
+// ---------- Certificate portal API ----------
+// Run locally with `npm run server`; the Vite dev server proxies /api here.
+
+const start = async () => {
+  const store = await openLedgerStore(config.dataFile);
+  const campaigns = await loadCampaigns(config.campaignsFile);
+  const tokenCampaign = [...campaigns.values()].find((campaign) => campaign.completionTokens);
+  if (tokenCampaign && !config.completionTokenSecret) {
+    throw new Error(`Campaign "${tokenCampaign.slug}" uses completion tokens, but COMPLETION_TOKEN_SECRET is not set`);
+  }
+  await startRetentionSweep(store, campaigns);
+  const events = await openEventLog(config.eventsFile);
+  const rosters = await openRosterStore(config.rostersDir);
+  const signatureImages = await openSignatureImageStore(config.signatureImagesDir);
+  const signer = await loadPdfSigner({
+    p12File: config.signingP12File,
+    passphrase: config.signingPassphrase,
+    contactInfo: config.signingContact
+  });
+  if (signer && !config.portalUrl) {
+    throw new Error('SIGNING_P12_FILE is set, but PORTAL_URL is not: signed PDFs need it for their verification link');
+  }
+  const credentialSigner = await loadCredentialSigner({ keyFile: config.credentialKeyFile });
+  const renderCertificate = createCertificateRenderer({ signatureImages, signer, pdfA: config.pdfA });
+  // E-mails carry the verification link, so delivery also needs PORTAL_URL.
+  const mailer = config.portalUrl ? createMailer({ smtpUrl: config.smtpUrl, from: config.mailFrom }) : null;
+  const impactProvider = createImpactProvider(config.impact);
+  const signedPdf = signer !== null;
+  const features = {
+    signedPdf,
+    emailDelivery: mailer !== null,
+    openBadges: credentialSigner !== null,
+    impactMessageProcessor: impactProvider?.processor
+  };
+
+  const routes: Route[] = [
+    ...batchRoutes({ store, signatureImages, adminToken: config.adminToken, signedPdf }),
+    ...signingRoutes({ store, signatureImages, renderCertificate, adminToken: config.adminToken, portalUrl: config.portalUrl }),
+    ...rosterRoutes({ store, campaigns, rosters, adminToken: config.adminToken }),
+    ...revocationRoutes({ store, adminToken: config.adminToken }),
+    ...privacyRoutes({ store, adminToken: config.adminToken }),
+    ...dashboardRoutes({ store, campaigns, events, adminToken: config.adminToken }),
+    ...credentialRoutes({ store, signer: credentialSigner, portalUrl: config.portalUrl, apiUrl: config.apiUrl }),
+    ...deliveryRoutes({ store, campaigns, renderCertificate, mailer, portalUrl: config.portalUrl }),
+    ...impactMessageRoutes({ campaigns, events, provider: impactProvider }),
+    ...issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: config.completionTokenSecret })
+  ];
+
+  const server = createServer(routeRequests(routes, config));
+
+  server.listen(config.port, () => {
+    console.log(`Certificate API listening on http://localhost:${config.port}`);
+    if (!signedPdf) console.log('PDF signing is off (SIGNING_P12_FILE not set); certificates are rendered in the browser.');
+    if (!mailer) console.log('E-mail delivery is off (SMTP_URL or PORTAL_URL not set).');
+    if (!credentialSigner) console.log('Open Badges export is off (CREDENTIAL_KEY_FILE not set).');
+    if (!impactProvider) console.log('Thank-you messages come from the template pool (no IMPACT_PROVIDER configured).');
+  });
+};
+
+start().catch((err) => {
+  console.error("Failed to start API server", err);
+  process.exit(1);
+});
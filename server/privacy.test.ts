@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { loadCampaigns } from './campaigns';
+import { openRosterStore } from './rosters';
+import { openEventLog } from './events';
+import { signCompletionToken } from './completionTokens';
+import { issuanceRoutes } from './routes/issuances';
+import { privacyRoutes } from './routes/privacy';
+import { revocationRoutes } from './routes/revocations';
+
+// Deleting a record must not give its claim back: quotas, single-use links and revocations
+// still see the tombstone.
+
+const SECRET = 'test-secret';
+const ADMIN_TOKEN = 'test-admin';
+
+let dir: string;
+let server: ReturnType<typeof createServer>;
+let baseUrl: string;
+
+const api = async (method: string, pathname: string, body?: unknown, headers: Record<string, string> = {}) => {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'privacy-test-'));
+  const campaignsFile = path.join(dir, 'campaigns.json');
+  await writeFile(campaignsFile, JSON.stringify({
+    campaigns: [
+      { slug: 'default', title: 'Varsayılan', issuanceLimit: 1, extras: {} },
+      { slug: 'anket', title: 'Anket', completionTokens: true, extras: {} }
+    ]
+  }));
+
+  const store = await openLedgerStore(path.join(dir, 'ledger.json'));
+  const campaigns = await loadCampaigns(campaignsFile);
+  const rosters = await openRosterStore(path.join(dir, 'rosters'));
+  const events = await openEventLog(path.join(dir, 'events.json'));
+  const features = { signedPdf: false, emailDelivery: false, openBadges: false };
+  const routes = [
+    ...revocationRoutes({ store, adminToken: ADMIN_TOKEN }),
+    ...privacyRoutes({ store, adminToken: ADMIN_TOKEN }),
+    ...issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: SECRET })
+  ];
+
+  server = createServer(routeRequests(routes, { corsOrigin: '*', trustProxy: false }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('a deleted certificate still counts towards the per-IP quota', async () => {
+  const first = await api('POST', '/api/campaigns/default/issuances', { name: 'Ayşe Yılmaz', impactMessage: '' });
+  assert.equal(first.status, 201);
+
+  const { certificateNo } = first.body.certificate;
+  const deletion = await api('POST', `/api/certificates/${certificateNo}/deletion`, { key: first.body.deletionKey });
+  assert.equal(deletion.status, 200);
+
+  const again = await api('POST', '/api/campaigns/default/issuances', { name: 'Ayşe Yılmaz', impactMessage: '' });
+  assert.equal(again.status, 429);
+  assert.equal(again.body.code, 'quotaReached');
+
+  // Only the tombstone is left for verification.
+  const lookup = await api('GET', `/api/certificates/${certificateNo}`);
+  assert.equal(lookup.status, 200);
+  assert.equal(lookup.body.name, '');
+  assert.ok(lookup.body.erasedAt);
+});
+
+test('a deleted certificate keeps its completion link used', async () => {
+  const completionToken = signCompletionToken({ pid: 'p-17', study: 'anket' }, SECRET);
+  const first = await api('POST', '/api/campaigns/anket/issuances', { name: 'Mehmet Öz', completionToken, impactMessage: '' });
+  assert.equal(first.status, 201);
+
+  const { certificateNo } = first.body.certificate;
+  await api('POST', `/api/certificates/${certificateNo}/deletion`, { key: first.body.deletionKey });
+
+  const again = await api('POST', '/api/campaigns/anket/issuances', { name: 'Mehmet Öz', completionToken, impactMessage: '' });
+  assert.equal(again.status, 409);
+  assert.equal(again.body.code, 'completionTokenUsed');
+});
+
+test('a revoked certificate still verifies as revoked after deletion', async () => {
+  const completionToken = signCompletionToken({ pid: 'p-18', study: 'anket' }, SECRET);
+  const issued = await api('POST', '/api/campaigns/anket/issuances', { name: 'Zeynep Kaya', completionToken, impactMessage: '' });
+  const { certificateNo } = issued.body.certificate;
+  const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  const revocation = await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: 'Yanlış çalışma' }, admin);
+  assert.equal(revocation.status, 201);
+  assert.equal((await api('POST', `/api/certificates/${certificateNo}/deletion`, {}, admin)).status, 200);
+
+  const lookup = await api('GET', `/api/certificates/${certificateNo}`);
+  assert.equal(lookup.status, 200);
+  assert.equal(lookup.body.revocation.reason, 'Yanlış çalışma');
+  assert.equal(lookup.body.name, '');
+
+  // Deleting again finds nothing left to delete.
+  assert.equal((await api('POST', `/api/certificates/${certificateNo}/deletion`, {}, admin)).status, 404);
+});
@@ -0,0 +1,47 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { CampaignRegistry, DEFAULT_CAMPAIGN_SLUG } from './campaigns';
+import { IssuanceRecord, LedgerStore } from './store';
+
+// ---------- Data deletion and retention ----------
+// Each certificate claimed on the portal comes with a deletion key that only the claiming browser
+// keeps; the ledger stores its hash. Studies with privacy.retentionDays have their records deleted
+// that many days after issue. Deleting erases the holder's data but keeps a tombstone of the
+// record (server/store.ts).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashOf = (key: string): Buffer => createHash('sha256').update(key).digest();
+
+export const createDeletionKey = (): { key: string; hash: string } => {
+  const key = randomBytes(24).toString('base64url');
+  return { key, hash: hashOf(key).toString('hex') };
+};
+
+export const matchesDeletionKey = (record: IssuanceRecord, key: string): boolean => {
+  if (!record.deletionKeyHash) return false;
+  const expected = Buffer.from(record.deletionKeyHash, 'hex');
+  const supplied = hashOf(key);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+};
+
+// Batch lists without a campaign (and records of removed campaigns) follow the default campaign.
+export const expiredRecords = (store: LedgerStore, campaigns: CampaignRegistry, now: Date = new Date()): IssuanceRecord[] =>
+  store.all().filter((record) => {
+    if (record.erasedAt) return false;
+    const campaign = campaigns.get(record.campaignSlug ?? DEFAULT_CAMPAIGN_SLUG) ?? campaigns.get(DEFAULT_CAMPAIGN_SLUG);
+    const days = campaign?.privacy?.retentionDays;
+    return days !== undefined && Date.parse(record.issuedAt) + days * DAY_MS <= now.getTime();
+  });
+
+// Deletes expired records at startup and then once a day.
+export const startRetentionSweep = async (store: LedgerStore, campaigns: CampaignRegistry) => {
+  const sweep = async () => {
+    const expired = expiredRecords(store, campaigns);
+    if (expired.length === 0) return;
+    await store.erase(...expired);
+    console.log(`Erased ${expired.length} issuance record(s) past their retention period.`);
+  };
+
+  await sweep();
+  setInterval(() => sweep().catch((err) => console.error("Retention sweep failed", err)), DAY_MS).unref();
+};
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { routeRequests } from './http';
+import { openLedgerStore } from './store';
+import { loadCampaigns } from './campaigns';
+import { openRosterStore } from './rosters';
+import { openEventLog } from './events';
+import { issuanceRoutes } from './routes/issuances';
+import { revocationRoutes } from './routes/revocations';
+
+// Only coordinators revoke; a revoked number keeps verifying as revoked and points at its
+// corrected reissue, which does not use up the holder's quota.
+
+const ADMIN_TOKEN = 'test-admin';
+const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+let dir: string;
+let server: ReturnType<typeof createServer>;
+let baseUrl: string;
+
+const api = async (method: string, pathname: string, body?: unknown, headers: Record<string, string> = {}) => {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const issue = async (name: string) => {
+  const issued = await api('POST', '/api/campaigns/default/issuances', { name, impactMessage: 'Katkınız için teşekkürler.' });
+  assert.equal(issued.status, 201);
+  return issued.body.certificate.certificateNo as string;
+};
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'revocations-test-'));
+  const campaignsFile = path.join(dir, 'campaigns.json');
+  await writeFile(campaignsFile, JSON.stringify({
+    campaigns: [{ slug: 'default', title: 'Varsayılan', issuanceLimit: 3, extras: {} }]
+  }));
+
+  const store = await openLedgerStore(path.join(dir, 'ledger.json'));
+  const campaigns = await loadCampaigns(campaignsFile);
+  const rosters = await openRosterStore(path.join(dir, 'rosters'));
+  const events = await openEventLog(path.join(dir, 'events.json'));
+  const features = { signedPdf: false, emailDelivery: false, openBadges: false };
+  const routes = [
+    ...revocationRoutes({ store, adminToken: ADMIN_TOKEN }),
+    ...issuanceRoutes({ store, campaigns, rosters, events, features, completionTokenSecret: '' })
+  ];
+
+  server = createServer(routeRequests(routes, { corsOrigin: '*', trustProxy: false }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('revocation needs the admin token and a reason', async () => {
+  const certificateNo = await issue('Ayşe Yılmaz');
+
+  assert.equal((await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: 'Hatalı ad' })).status, 401);
+  const noReason = await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: ' ' }, admin);
+  assert.equal(noReason.status, 400);
+  assert.equal(noReason.body.code, 'revocationReasonRequired');
+  assert.equal((await api('GET', `/api/certificates/${certificateNo}`)).body.revocation, undefined);
+});
+
+test('a revoked certificate verifies as revoked and cannot be revoked again', async () => {
+  const certificateNo = await issue('Mehmet Öz');
+
+  const revocation = await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: 'Yanlış çalışma' }, admin);
+  assert.equal(revocation.status, 201);
+  assert.equal(revocation.body.replacement, undefined);
+
+  const lookup = await api('GET', `/api/certificates/${certificateNo}`);
+  assert.equal(lookup.body.revocation.reason, 'Yanlış çalışma');
+  assert.ok(lookup.body.revocation.revokedAt);
+
+  const again = await api('POST', `/api/certificates/${certificateNo}/revocation`, { reason: 'Yine' }, admin);
+  assert.equal(again.status, 409);
+  assert.equal(again.body.code, 'alreadyRevoked');
+});
+
+test('a corrected reissue references the original and keeps its other data', async () => {
+  const certificateNo = await issue('Zeynep Kaya');
+
+  const revocation = await api('POST', `/api/certificates/${certificateNo}/revocation`,
+    { reason: 'Ad yanlış yazılmış', reissue: { name: 'Zeynep Kayacan' } }, admin);
+  assert.equal(revocation.status, 201);
+  const { replacement } = revocation.body;
+  assert.notEqual(replacement.certificateNo, certificateNo);
+  assert.equal(replacement.replaces, certificateNo);
+  assert.equal(replacement.name, 'Zeynep Kayacan');
+  assert.equal(replacement.impactMessage, 'Katkınız için teşekkürler.');
+
+  assert.equal((await api('GET', `/api/certificates/${certificateNo}`)).body.replacedBy, replacement.certificateNo);
+  assert.equal((await api('GET', `/api/certificates/${replacement.certificateNo}`)).body.revocation, undefined);
+
+  // Three claims used, none by the reissue.
+  assert.equal((await api('GET', '/api/campaigns/default/stats')).body.count, 3);
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RosterStore, openRosterStore } from './rosters';
+
+// Only the access code opens a roster entry; the e-mail address on the roster does not.
+
+let dir: string;
+let rosters: RosterStore;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'rosters-test-'));
+  rosters = await openRosterStore(dir);
+  await rosters.replace('anket', [{ name: 'Ayşe Yılmaz', accessCode: '7KQ4-M9XD', email: 'ayse@example.org' }]);
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('a typed access code matches its entry', () => {
+  assert.equal(rosters.match('anket', ' 7kq4 m9xd ')?.name, 'Ayşe Yılmaz');
+});
+
+test('an e-mail address on the roster does not match', () => {
+  assert.equal(rosters.match('anket', 'ayse@example.org'), undefined);
+  assert.equal(rosters.match('anket', 'AYSE@example.org '), undefined);
+});
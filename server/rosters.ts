@@ -0,0 +1,61 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomSymbols } from '../utils/certificateNumber';
+import { RosterEntry } from '../types';
+
+// ---------- Participant rosters ----------
+// One JSON file per campaign (ROSTERS_DIR/<slug>.json), uploaded by the coordinator.
+// A roster entry is identified by its access code; redemptions are counted in the ledger.
+
+const CODE_SYMBOLS = 8;
+
+// "7KQ4-M9XD": 40 bits, and failed attempts are rate limited per client IP.
+export const generateAccessCode = (): string => {
+  const symbols = randomSymbols(CODE_SYMBOLS);
+  return `${symbols.slice(0, 4)}-${symbols.slice(4)}`;
+};
+
+// Accepts user-typed codes (lowercase, spaces, missing dashes, O/I/L confusion).
+export const normalizeAccessCode = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const normalizeEmail = (input: string): string => input.trim().toLowerCase();
+
+export type RosterStore = Awaited<ReturnType<typeof openRosterStore>>;
+
+export const openRosterStore = async (dir: string) => {
+  await fs.mkdir(dir, { recursive: true });
+  const rosters = new Map<string, RosterEntry[]>();
+
+  for (const file of await fs.readdir(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const { entries } = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+    rosters.set(path.basename(file, '.json'), entries);
+  }
+
+  return {
+    entriesFor: (campaignSlug: string): RosterEntry[] => rosters.get(campaignSlug) ?? [],
+
+    // Matches an access code only. E-mail addresses are on the roster for sending the codes out,
+    // and anyone who knows a participant's address could claim with it.
+    match: (campaignSlug: string, accessCode: string): RosterEntry | undefined => {
+      const code = normalizeAccessCode(accessCode);
+      return code ? (rosters.get(campaignSlug) ?? []).find((entry) => normalizeAccessCode(entry.accessCode) === code) : undefined;
+    },
+
+    replace: async (campaignSlug: string, entries: RosterEntry[]): Promise<void> => {
+      const filePath = path.join(dir, `${campaignSlug}.json`);
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify({ entries }, null, 2), 'utf8');
+      await fs.rename(tmpPath, filePath);
+      rosters.set(campaignSlug, entries);
+    }
+  };
+};
+
+// Redemption key stored on ledger records.
+export const rosterKey = (entry: RosterEntry): string => normalizeAccessCode(entry.accessCode);
@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto';
+import { HttpError, Route, readJson, requireAdmin, sendJson } from '../http';
+import { IssuanceRecord, LedgerStore, toPublicCertificate } from '../store';
+import { SignatureImageStore } from '../signatureImages';
+import { generateCertificateNo } from '../../utils/certificateNumber';
+import { NAME_ERROR_MESSAGES, checkPersonName } from '../../utils/personName';
+import { parseDay, parseHours } from '../../utils/participation';
+import { formatCertificateDate, isCertificateLanguage, primaryLocale } from '../../i18n';
+import { BatchIssuanceResult, BatchRow, Locale } from '../../types';
+
+interface BatchDeps {
+  store: LedgerStore;
+  signatureImages: SignatureImageStore;
+  adminToken: string;
+  signedPdf: boolean;
+}
+
+const MAX_BATCH_ROWS = 2000;
+const MAX_BATCH_BYTES = 2 * 1024 * 1024;
+
+const EXTRA_FIELDS = [
+  'institution', 'departmentOrUnit', 'coordinatorTitle', 'coordinatorName', 'location', 'introText', 'closingText',
+  'studyTitle', 'ethicsApprovalNo', 'role'
+] as const;
+
+const cleanRow = (row: Partial<BatchRow>, index: number, locale: Locale): BatchRow => {
+  const checked = checkPersonName(typeof row.name === 'string' ? row.name : '', locale);
+  if (!checked.ok) throw new HttpError(400, `${index + 1}. satır: ${NAME_ERROR_MESSAGES[checked.error]}`);
+
+  // A title column is used when the name itself does not start with one.
+  const cleaned: BatchRow = { ...checked.value };
+  if (!cleaned.academicTitle && typeof row.academicTitle === 'string' && row.academicTitle.trim()) {
+    cleaned.academicTitle = row.academicTitle.trim().slice(0, 40);
+  }
+  for (const field of [...EXTRA_FIELDS, 'impactMessage', 'certificateNo'] as const) {
+    const value = row[field];
+    if (typeof value === 'string' && value.trim()) cleaned[field] = value.trim();
+  }
+
+  for (const field of ['startDate', 'endDate'] as const) {
+    if (row[field] === undefined || row[field] === '') continue;
+    const day = parseDay(row[field]);
+    if (!day) throw new HttpError(400, `${index + 1}. satır: tarih geçersiz (${String(row[field])}).`);
+    cleaned[field] = day;
+  }
+  if (cleaned.startDate && cleaned.endDate && cleaned.startDate > cleaned.endDate) {
+    throw new HttpError(400, `${index + 1}. satır: başlangıç tarihi bitiş tarihinden sonra olamaz.`);
+  }
+  if (row.totalHours !== undefined) {
+    const hours = parseHours(row.totalHours);
+    if (hours === null) throw new HttpError(400, `${index + 1}. satır: toplam saat geçersiz.`);
+    cleaned.totalHours = hours;
+  }
+  return cleaned;
+};
+
+export const batchRoutes = ({ store, signatureImages, adminToken, signedPdf }: BatchDeps): Route[] => [
+  {
+    method: 'POST',
+    path: '/api/issuances/batch',
+    handler: async ({ req, res }) => {
+      requireAdmin(req, adminToken);
+
+      const body = await readJson<{
+        rows?: Partial<BatchRow>[];
+        templateId?: string;
+        themeId?: string;
+        language?: string;
+        signatureImageId?: string;
+      }>(req, MAX_BATCH_BYTES);
+      const language = body.language ?? 'tr';
+      if (!isCertificateLanguage(language)) throw new HttpError(400, 'Desteklenmeyen sertifika dili.');
+      const signatureImageId = typeof body.signatureImageId === 'string' ? body.signatureImageId : undefined;
+      if (signatureImageId && !(await signatureImages.read(signatureImageId))) {
+        throw new HttpError(400, 'İmza görseli bulunamadı.');
+      }
+      if (!Array.isArray(body.rows) || body.rows.length === 0) {
+        throw new HttpError(400, 'Katılımcı listesi boş.');
+      }
+      if (body.rows.length > MAX_BATCH_ROWS) {
+        throw new HttpError(400, `Tek seferde en fazla ${MAX_BATCH_ROWS} sertifika oluşturulabilir.`);
+      }
+
+      const rows = body.rows.map((row, index) => cleanRow(row, index, primaryLocale(language)));
+
+      // Numbers supplied in the list must be unique, both within the list and in the ledger.
+      const seen = new Set<string>();
+      rows.forEach((row, index) => {
+        if (!row.certificateNo) return;
+        if (seen.has(row.certificateNo) || store.findByCertificateNo(row.certificateNo)) {
+          throw new HttpError(409, `${index + 1}. satırdaki belge numarası (${row.certificateNo}) zaten kullanılıyor.`);
+        }
+        seen.add(row.certificateNo);
+      });
+
+      const batchId = randomUUID();
+      const issuedAt = new Date();
+      const records: IssuanceRecord[] = rows.map((row) => ({
+        ...row,
+        impactMessage: row.impactMessage ?? '',
+        certificateNo: row.certificateNo ?? generateCertificateNo(issuedAt),
+        language,
+        date: formatCertificateDate(issuedAt, language),
+        issuedAt: issuedAt.toISOString(),
+        batchId,
+        templateId: language === 'tr-en' ? 'bilingual' : typeof body.templateId === 'string' ? body.templateId : undefined,
+        themeId: typeof body.themeId === 'string' ? body.themeId : undefined,
+        signatureImageId,
+        clientIp: null
+      }));
+      await store.insert(...records);
+
+      const result: BatchIssuanceResult = {
+        batchId,
+        certificates: records.map(toPublicCertificate),
+        signedPdf
+      };
+      sendJson(res, 201, result);
+    }
+  }
+];
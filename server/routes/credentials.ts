@@ -0,0 +1,100 @@
+import { HttpError, Route, sendBytes, sendJson } from '../http';
+import { LedgerStore, lookupCertificate } from '../store';
+import { portalBaseFor, verificationUrlFor } from '../certificatePdf';
+import { CredentialSigner } from '../credentials';
+import { bakeCredential, renderBadgePng } from '../badgeImage';
+import { buildOpenBadgeCredential, openBadgeCredentialId } from '../../utils/openBadge';
+import { certificateFileName } from '../../utils/pdfUtils';
+import { DEFAULT_CAMPAIGN_SLUG } from '../campaigns';
+import { OpenBadgeRevocationList } from '../../types';
+
+interface CredentialDeps {
+  store: LedgerStore;
+  signer: CredentialSigner | null;
+  portalUrl: string;
+  apiUrl: string;
+}
+
+// Where verifiers check whether an exported credential was revoked since; only with API_URL.
+const statusUrlFor = (apiUrl: string, certificateNo: string): string | undefined =>
+  apiUrl ? `${apiUrl.replace(/\/+$/, '')}/api/certificates/${encodeURIComponent(certificateNo)}/revocation-list` : undefined;
+
+// Open Badges 3.0 exports of an issued certificate: the signed credential as JSON-LD, and a
+// badge image with the same credential baked in. Everything signed comes from the ledger and the
+// configured PORTAL_URL, never from request headers; without PORTAL_URL the ids are URNs.
+// With API_URL, each credential names its revocation list, which lists it once it is revoked.
+export const credentialRoutes = ({ store, signer, portalUrl, apiUrl }: CredentialDeps): Route[] => {
+  const requireSigner = (): CredentialSigner => {
+    if (!signer) throw new HttpError(503, 'Dijital rozetler bu sunucuda etkin değil.', 'openBadgesUnavailable');
+    return signer;
+  };
+
+  const signedCredential = (certificateNo: string) => {
+    const { issuerId, sign } = requireSigner();
+
+    const record = lookupCertificate(store, certificateNo);
+    if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+    if (record.revocation) throw new HttpError(410, 'Bu sertifika iptal edilmiştir.', 'certificateRevoked');
+
+    const base = portalBaseFor(portalUrl);
+    const campaignSlug = record.campaignSlug ?? DEFAULT_CAMPAIGN_SLUG;
+    const verificationUrl = verificationUrlFor(portalUrl, record.certificateNo);
+    const credential = sign(buildOpenBadgeCredential({ ...record, verificationUrl }, {
+      issuerId,
+      achievementId: base ? `${base}#/c/${encodeURIComponent(campaignSlug)}` : `urn:campaign:${campaignSlug}`,
+      portalUrl: base,
+      statusUrl: statusUrlFor(apiUrl, record.certificateNo)
+    }));
+    return { record, credential, verificationUrl };
+  };
+
+  return [
+    {
+      method: 'GET',
+      path: '/api/certificates/:certificateNo/credential',
+      handler: async ({ res, params }) => {
+        const { record, credential } = signedCredential(params.certificateNo);
+        sendBytes(res, 200, Buffer.from(JSON.stringify(credential, null, 2)), {
+          'Content-Type': 'application/ld+json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${certificateFileName(record.name, record.language).replace(/\.pdf$/, '.json')}"`
+        });
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/certificates/:certificateNo/badge',
+      handler: async ({ res, params }) => {
+        const { record, credential, verificationUrl } = signedCredential(params.certificateNo);
+        const png = bakeCredential(renderBadgePng(verificationUrl ?? record.certificateNo), JSON.stringify(credential));
+        sendBytes(res, 200, png, {
+          'Content-Type': 'image/png',
+          'Content-Disposition': `attachment; filename="${certificateFileName(record.name, record.language).replace(/\.pdf$/, '.png')}"`
+        });
+      }
+    },
+    {
+      // Erased records keep their revocation, so they are still looked up here.
+      method: 'GET',
+      path: '/api/certificates/:certificateNo/revocation-list',
+      handler: async ({ res, params }) => {
+        const { issuerId } = requireSigner();
+        const record = lookupCertificate(store, params.certificateNo, { erased: true });
+        const id = record && statusUrlFor(apiUrl, record.certificateNo);
+        if (!record || !id) throw new HttpError(404, 'Sertifika bulunamadı.');
+
+        const list: OpenBadgeRevocationList = {
+          id,
+          issuer: issuerId,
+          revokedCredentials: record.revocation
+            ? [{
+              id: openBadgeCredentialId(record.certificateNo, verificationUrlFor(portalUrl, record.certificateNo)),
+              revoked: true,
+              revocationReason: record.revocation.reason
+            }]
+            : []
+        };
+        sendJson(res, 200, list);
+      }
+    }
+  ];
+};
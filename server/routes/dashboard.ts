@@ -0,0 +1,82 @@
+import { HttpError, Route, createAttemptLimiter, readJson, requireAdmin, sendJson } from '../http';
+import { IssuanceRecord, LedgerStore } from '../store';
+import { CampaignRegistry, DEFAULT_CAMPAIGN_SLUG } from '../campaigns';
+import { CLIENT_EVENT_KINDS, EventLog } from '../events';
+import { DashboardData, DashboardIssuance, IssuanceSource, PortalEventKind } from '../../types';
+
+interface DashboardDeps {
+  store: LedgerStore;
+  campaigns: CampaignRegistry;
+  events: EventLog;
+  adminToken: string;
+}
+
+// Events are reported by browsers without authentication, so each client IP gets a budget.
+const MAX_EVENTS_PER_CLIENT = 60;
+const EVENT_WINDOW_MS = 60 * 60 * 1000;
+
+const sourceOf = (record: IssuanceRecord): IssuanceSource => {
+  if (record.replaces) return 'reissue';
+  if (record.batchId) return 'batch';
+  if (record.rosterCode) return 'roster';
+  if (record.completionId) return 'completion';
+  return 'form';
+};
+
+// Only what the dashboard lists and exports; IPs, access codes and messages stay on the server.
+const toDashboardIssuance = (record: IssuanceRecord): DashboardIssuance => ({
+  certificateNo: record.certificateNo,
+  name: record.name,
+  academicTitle: record.academicTitle,
+  // Records written before campaigns existed belong to the default campaign.
+  campaignSlug: record.campaignSlug ?? (record.batchId ? undefined : DEFAULT_CAMPAIGN_SLUG),
+  language: record.language ?? 'tr',
+  issuedAt: record.issuedAt,
+  source: sourceOf(record),
+  studyTitle: record.studyTitle,
+  role: record.role,
+  totalHours: record.totalHours,
+  revokedAt: record.revocation?.revokedAt,
+  replaces: record.replaces,
+  emailStatus: record.emailDelivery?.status
+});
+
+export const dashboardRoutes = ({ store, campaigns, events, adminToken }: DashboardDeps): Route[] => {
+  const eventLimiter = createAttemptLimiter(MAX_EVENTS_PER_CLIENT, EVENT_WINDOW_MS);
+
+  return [
+    {
+      method: 'GET',
+      path: '/api/dashboard',
+      handler: async ({ req, res }) => {
+        requireAdmin(req, adminToken);
+
+        const data: DashboardData = {
+          campaigns: [...campaigns.values()].map(({ slug, title }) => ({ slug, title })),
+          issuances: store.all().filter((record) => !record.erasedAt).map(toDashboardIssuance),
+          events: events.counts()
+        };
+        sendJson(res, 200, data);
+      }
+    },
+    {
+      // Form views and starts reported by the certificate form; counted per day, without
+      // anything about the visitor.
+      method: 'POST',
+      path: '/api/campaigns/:slug/events',
+      handler: async ({ req, res, params, clientIp }) => {
+        if (!campaigns.has(params.slug)) throw new HttpError(404, 'Kampanya bulunamadı.', 'campaignNotFound');
+
+        const { kind } = await readJson<{ kind?: unknown }>(req);
+        if (!CLIENT_EVENT_KINDS.includes(kind as PortalEventKind)) throw new HttpError(400, 'Bilinmeyen olay türü.');
+
+        // Over the budget, events are accepted but not counted, so one client cannot inflate the figures.
+        if (!eventLimiter.blocked(clientIp)) {
+          eventLimiter.fail(clientIp);
+          await events.record(params.slug, kind as PortalEventKind, undefined, new Date());
+        }
+        sendJson(res, 202, { status: 'recorded' });
+      }
+    }
+  ];
+};
@@ -0,0 +1,70 @@
+import { HttpError, Route, readJson, sendJson } from '../http';
+import { LedgerStore, lookupCertificate } from '../store';
+import { CampaignRegistry, DEFAULT_CAMPAIGN_SLUG } from '../campaigns';
+import { CertificateRenderer, verificationUrlFor } from '../certificatePdf';
+import { CertificateMailer, isEmailAddress } from '../mailer';
+import { PDF_STRINGS } from '../../i18n/pdfStrings';
+import { primaryLocale } from '../../i18n';
+
+interface DeliveryDeps {
+  store: LedgerStore;
+  campaigns: CampaignRegistry;
+  renderCertificate: CertificateRenderer;
+  mailer: CertificateMailer | null;
+  portalUrl: string;
+}
+
+// Sends per certificate, so a leaked certificate number cannot be used to spam an inbox.
+const MAX_EMAIL_ATTEMPTS = 3;
+
+export const deliveryRoutes = ({ store, campaigns, renderCertificate, mailer, portalUrl }: DeliveryDeps): Route[] => [
+  {
+    // Only the device that claimed the certificate can have it e-mailed.
+    method: 'POST',
+    path: '/api/certificates/:certificateNo/email',
+    handler: async ({ req, res, params, clientIp }) => {
+      // The message goes out from the institution's account, so its link may only point at the
+      // configured portal.
+      if (!mailer || !portalUrl) throw new HttpError(503, 'E-posta gönderimi bu sunucuda etkin değil.', 'emailUnavailable');
+
+      const record = lookupCertificate(store, params.certificateNo);
+      if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+      if (record.revocation) throw new HttpError(410, 'Bu sertifika iptal edilmiştir.', 'certificateRevoked');
+      if (record.clientIp !== clientIp) {
+        throw new HttpError(403, 'Sertifika yalnızca oluşturulduğu cihazdan e-posta ile gönderilebilir.', 'emailNotAllowed');
+      }
+
+      const { email } = await readJson<{ email?: unknown }>(req);
+      const to = typeof email === 'string' ? email.trim() : '';
+      if (!isEmailAddress(to)) throw new HttpError(400, 'E-posta adresi geçersiz.', 'invalidEmail');
+
+      const attempts = (record.emailDelivery?.attempts ?? 0) + 1;
+      if (attempts > MAX_EMAIL_ATTEMPTS) {
+        throw new HttpError(429, `Bir sertifika en fazla ${MAX_EMAIL_ATTEMPTS} kez e-posta ile gönderilebilir.`, 'emailLimitReached');
+      }
+
+      const locale = primaryLocale(record.language ?? 'tr');
+      // The home page campaign's title is portal wording ("Create Certificate"), not a study name.
+      const campaign = record.campaignSlug !== DEFAULT_CAMPAIGN_SLUG ? campaigns.get(record.campaignSlug ?? '') : undefined;
+      const study = campaign?.translations?.[locale]?.title ?? campaign?.title
+        ?? record.departmentOrUnit ?? PDF_STRINGS[locale].departmentOrUnit;
+      const verificationUrl = verificationUrlFor(portalUrl, record.certificateNo);
+
+      try {
+        const pdf = await renderCertificate(record, verificationUrl);
+        await mailer({ certificate: record, pdf, to, study, verificationUrl });
+      } catch (err) {
+        console.error("Certificate e-mail failed", err);
+        await store.update(record, {
+          emailDelivery: { to, status: 'failed', attempts, updatedAt: new Date().toISOString(), error: String(err) }
+        });
+        throw new HttpError(502, 'Sertifika e-posta ile gönderilemedi. Lütfen daha sonra tekrar deneyin.', 'emailFailed');
+      }
+
+      await store.update(record, {
+        emailDelivery: { to, status: 'sent', attempts, updatedAt: new Date().toISOString() }
+      });
+      sendJson(res, 200, { status: 'sent' });
+    }
+  }
+];
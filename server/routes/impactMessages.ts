@@ -0,0 +1,57 @@
+import { HttpError, Route, createAttemptLimiter, readJson, sendJson } from '../http';
+import { CampaignRegistry, DEFAULT_CAMPAIGN_SLUG } from '../campaigns';
+import { EventLog } from '../events';
+import { ImpactMessageProvider, createImpactMessageService } from '../impactMessages';
+import { templateImpactMessage } from '../../utils/impactTemplates';
+import { NAME_ERROR_MESSAGES, checkPersonName } from '../../utils/personName';
+import { ImpactMessageRequest, Locale } from '../../types';
+
+interface ImpactMessageDeps {
+  campaigns: CampaignRegistry;
+  events: EventLog;
+  provider: ImpactMessageProvider | null;
+}
+
+// Each message may cost a paid model call, so each client IP gets a budget.
+const MAX_MESSAGES_PER_CLIENT = 30;
+const MESSAGE_WINDOW_MS = 60 * 60 * 1000;
+
+export const impactMessageRoutes = ({ campaigns, events, provider }: ImpactMessageDeps): Route[] => {
+  const messageLimiter = createAttemptLimiter(MAX_MESSAGES_PER_CLIENT, MESSAGE_WINDOW_MS);
+  // Fallbacks are counted on the coordinator dashboard.
+  const generate = createImpactMessageService(provider, (request, reason) => {
+    events.record(request.campaignSlug, 'impactFallback', reason, new Date()).catch((err) =>
+      console.error('Failed to record impact message fallback', err));
+  });
+
+  return [
+    {
+      method: 'POST',
+      path: '/api/campaigns/:slug/impact-messages',
+      handler: async ({ req, res, params, clientIp }) => {
+        const campaign = campaigns.get(params.slug);
+        if (!campaign) throw new HttpError(404, 'Kampanya bulunamadı.', 'campaignNotFound');
+
+        const body = await readJson<{ name?: unknown; locale?: unknown; attempt?: unknown; aiConsent?: unknown }>(req);
+        const checked = checkPersonName(typeof body.name === 'string' ? body.name : '');
+        if (!checked.ok) throw new HttpError(400, NAME_ERROR_MESSAGES[checked.error], checked.error);
+        const locale: Locale = body.locale === 'en' ? 'en' : 'tr';
+
+        // The home page campaign's title is portal wording, not a study name.
+        const request: ImpactMessageRequest = {
+          name: checked.value.name,
+          locale,
+          campaignSlug: campaign.slug,
+          study: campaign.slug === DEFAULT_CAMPAIGN_SLUG ? undefined : campaign.translations?.[locale]?.title ?? campaign.title,
+          attempt: typeof body.attempt === 'number' && Number.isInteger(body.attempt) && body.attempt > 0 ? body.attempt : undefined,
+          aiConsent: body.aiConsent === true
+        };
+
+        // Over the budget, the template pool answers instead of the provider.
+        const overBudget = messageLimiter.blocked(clientIp);
+        if (!overBudget) messageLimiter.fail(clientIp);
+        sendJson(res, 200, { message: overBudget ? templateImpactMessage(request) : await generate(request) });
+      }
+    }
+  ];
+};
@@ -0,0 +1,321 @@
+import { HttpError, Route, createAttemptLimiter, readJson, sendJson } from '../http';
+import { IssuanceRecord, LedgerStore, lookupCertificate, toPublicCertificate } from '../store';
+import { CampaignRegistry, campaignStatus, localizedExtras, toCampaignInfo } from '../campaigns';
+import { RosterStore, rosterKey } from '../rosters';
+import { EventLog } from '../events';
+import { CompletionClaims, verifyCompletionToken } from '../completionTokens';
+import { createDeletionKey } from '../privacy';
+import { generateCertificateNo } from '../../utils/certificateNumber';
+import { moderateImpactMessage } from '../../utils/impactMessage';
+import { NAME_ERROR_MESSAGES, PersonName, checkPersonName, displayName, normalizePersonName } from '../../utils/personName';
+import { formatCertificateDate, isCertificateLanguage, primaryLocale } from '../../i18n';
+import { Campaign, IssuanceRequest, Locale, PortalFeatures, RosterEntry, UserStats } from '../../types';
+
+interface IssuanceDeps {
+  store: LedgerStore;
+  campaigns: CampaignRegistry;
+  rosters: RosterStore;
+  events: EventLog;
+  features: PortalFeatures;
+  completionTokenSecret: string;
+}
+
+// Wrong access codes allowed per client IP before claims from it are paused.
+const MAX_CODE_FAILURES = 10;
+const CODE_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// Refused claims counted on the dashboard per client IP, so one client cannot inflate the figures.
+const MAX_RECORDED_REFUSALS = 20;
+const RECORDED_REFUSAL_WINDOW_MS = 60 * 60 * 1000;
+
+const statsFor = (store: LedgerStore, campaign: Campaign, clientIp: string): UserStats => {
+  const issuances = store.issuancesFor(campaign.slug, clientIp);
+  return {
+    count: issuances.length,
+    limit: campaign.issuanceLimit,
+    lastGenerated: issuances.length > 0 ? issuances[issuances.length - 1].issuedAt : null
+  };
+};
+
+// Messages come from the visitor's browser, so they are moderated again before being recorded.
+// Empty means the template's standard sentence.
+export const parseImpactMessage = (value: unknown): string => {
+  const raw = typeof value === 'string' ? value.trim() : '';
+  if (!raw) return '';
+
+  const message = moderateImpactMessage(raw);
+  if (!message) throw new HttpError(400, 'Teşekkür mesajı sertifikaya basılamaz.', 'impactMessageRejected');
+  return message;
+};
+
+const parseIssuanceRequest = (body: Partial<IssuanceRequest>): IssuanceRequest => {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  const accessCode = typeof body.accessCode === 'string' ? body.accessCode.trim().slice(0, 200) : '';
+  const completionToken = typeof body.completionToken === 'string' ? body.completionToken.trim() : '';
+  const impactMessage = parseImpactMessage(body.impactMessage);
+  const impactMessageEn = parseImpactMessage(body.translations?.en?.impactMessage);
+
+  if (body.language !== undefined && !isCertificateLanguage(body.language)) {
+    throw new HttpError(400, 'Desteklenmeyen sertifika dili.');
+  }
+
+  return {
+    name,
+    accessCode: accessCode || undefined,
+    completionToken: completionToken || undefined,
+    impactMessage,
+    language: body.language ?? 'tr',
+    translations: impactMessageEn ? { en: { impactMessage: impactMessageEn } } : undefined
+  };
+};
+
+export const issuanceRoutes = ({ store, campaigns, rosters, events, features, completionTokenSecret }: IssuanceDeps): Route[] => {
+  const codeFailures = createAttemptLimiter(MAX_CODE_FAILURES, CODE_FAILURE_WINDOW_MS);
+  const recordedRefusals = createAttemptLimiter(MAX_RECORDED_REFUSALS, RECORDED_REFUSAL_WINDOW_MS);
+
+  // Quota hits and refused claims are counted for the coordinator dashboard where they happen,
+  // by error code, rather than taken from the browser's word. Over a client's budget they are
+  // refused as usual but no longer counted.
+  const counted = (handler: Route['handler']): Route['handler'] => async (context) => {
+    try {
+      await handler(context);
+    } catch (err) {
+      const { params: { slug }, clientIp } = context;
+      if (campaigns.has(slug) && !recordedRefusals.blocked(clientIp)) {
+        recordedRefusals.fail(clientIp);
+        const [kind, code] = err instanceof HttpError && err.code === 'quotaReached'
+          ? ['quotaReached' as const, undefined]
+          : ['error' as const, err instanceof HttpError ? err.code ?? `http${err.status}` : 'http500'];
+        events.record(slug, kind, code, new Date()).catch((recordErr) => console.error('Failed to record portal event', recordErr));
+      }
+      throw err;
+    }
+  };
+
+  const campaignFor = (slug: string): Campaign => {
+    const campaign = campaigns.get(slug);
+    if (!campaign) throw new HttpError(404, 'Kampanya bulunamadı.', 'campaignNotFound');
+    return campaign;
+  };
+
+  // Resolves a claimant's access code on a roster campaign.
+  const rosterEntryFor = (campaign: Campaign, accessCode: string | undefined, clientIp: string): RosterEntry => {
+    if (!accessCode) throw new HttpError(400, 'Erişim kodu zorunludur.', 'accessCodeRequired');
+    if (codeFailures.blocked(clientIp)) {
+      throw new HttpError(429, 'Çok fazla hatalı deneme yapıldı. Lütfen daha sonra tekrar deneyin.', 'tooManyAttempts');
+    }
+
+    const entry = rosters.match(campaign.slug, accessCode);
+    if (!entry) {
+      codeFailures.fail(clientIp);
+      throw new HttpError(403, 'Bu erişim kodu katılımcı listesinde yok.', 'invalidAccessCode');
+    }
+    return entry;
+  };
+
+  // The token's name when the survey supplied a valid one; otherwise the participant types it.
+  const tokenHolder = ({ name }: CompletionClaims, locale: Locale): PersonName | undefined => {
+    const checked = name ? checkPersonName(name, locale) : undefined;
+    return checked?.ok ? checked.value : undefined;
+  };
+
+  const remainingFor = (campaign: Campaign, entry: RosterEntry): number =>
+    Math.max(0, (campaign.roster?.redemptionLimit ?? 0) - store.redemptionsOf(campaign.slug, rosterKey(entry)));
+
+  // Verifies the token from a survey link; wrong tokens count like wrong access codes.
+  const completionFor = (campaign: Campaign, token: string | undefined, clientIp: string): CompletionClaims => {
+    if (!token) {
+      throw new HttpError(400, 'Bu çalışmada sertifika, anketin sonundaki bağlantıyla alınır.', 'completionTokenRequired');
+    }
+    if (codeFailures.blocked(clientIp)) {
+      throw new HttpError(429, 'Çok fazla hatalı deneme yapıldı. Lütfen daha sonra tekrar deneyin.', 'tooManyAttempts');
+    }
+
+    const result = verifyCompletionToken(token, completionTokenSecret);
+    if (!result.ok && result.error === 'completionTokenExpired') {
+      throw new HttpError(403, 'Çalışma bağlantısının süresi dolmuş.', 'completionTokenExpired');
+    }
+    if (!result.ok || result.claims.study !== campaign.slug) {
+      codeFailures.fail(clientIp);
+      throw new HttpError(403, 'Çalışma bağlantısı geçersiz.', 'invalidCompletionToken');
+    }
+    return result.claims;
+  };
+
+  // Checks a claim against the campaign's rules and builds the record it would create.
+  // Synchronous, so an issuance can check and insert without another request in between.
+  const prepareIssuance = (
+    campaign: Campaign,
+    request: IssuanceRequest,
+    clientIp: string,
+    issuedAt: Date
+  ): Omit<IssuanceRecord, 'certificateNo'> => {
+    const { impactMessage, language = 'tr', translations } = request;
+
+    const status = campaignStatus(campaign);
+    if (status === 'scheduled') {
+      throw new HttpError(403, 'Bu çalışma için sertifika başvuruları henüz açılmadı.', 'campaignScheduled');
+    }
+    if (status === 'closed') {
+      throw new HttpError(403, 'Bu çalışma için sertifika başvuru süresi sona erdi.', 'campaignClosed');
+    }
+
+    // Roster campaigns limit claims per roster entry instead of per client IP.
+    let holder: PersonName;
+    let rosterCode: string | undefined;
+    let completionId: string | undefined;
+    if (campaign.roster) {
+      const entry = rosterEntryFor(campaign, request.accessCode, clientIp);
+      if (remainingFor(campaign, entry) === 0) {
+        throw new HttpError(409, 'Bu erişim kodu ile alınabilecek sertifikaların tümü alınmış.', 'accessCodeUsed');
+      }
+      // Checked when the roster was uploaded
+      holder = normalizePersonName(entry.name, primaryLocale(language));
+      rosterCode = rosterKey(entry);
+    } else if (campaign.completionTokens) {
+      // One certificate per participant; the name comes from the token when the survey supplied a valid one.
+      const claims = completionFor(campaign, request.completionToken, clientIp);
+      if (store.completionsOf(campaign.slug, claims.pid) > 0) {
+        throw new HttpError(409, 'Bu çalışma bağlantısıyla sertifika zaten alınmış.', 'completionTokenUsed');
+      }
+      const fromToken = tokenHolder(claims, primaryLocale(language));
+      const checked = fromToken ? { ok: true as const, value: fromToken } : checkPersonName(request.name, primaryLocale(language));
+      if (!checked.ok) throw new HttpError(400, NAME_ERROR_MESSAGES[checked.error], checked.error);
+      holder = checked.value;
+      completionId = claims.pid;
+    } else {
+      const checked = checkPersonName(request.name, primaryLocale(language));
+      if (!checked.ok) throw new HttpError(400, NAME_ERROR_MESSAGES[checked.error], checked.error);
+      holder = checked.value;
+
+      const limit = campaign.issuanceLimit;
+      if (store.issuancesFor(campaign.slug, clientIp).length >= limit) {
+        throw new HttpError(429, `Üzgünüz, bu cihazdan maksimum ${limit} sertifika oluşturma limitine ulaştınız.`, 'quotaReached');
+      }
+    }
+
+    const extras = localizedExtras(campaign, language);
+    if (extras.translations?.en && translations?.en) {
+      extras.translations.en.impactMessage = translations.en.impactMessage;
+    }
+    return {
+      ...extras,
+      name: holder.name,
+      academicTitle: holder.academicTitle,
+      impactMessage,
+      language,
+      date: formatCertificateDate(issuedAt, language),
+      issuedAt: issuedAt.toISOString(),
+      // Bilingual certificates need room for both languages, whatever the study's own layout.
+      templateId: language === 'tr-en' ? 'bilingual' : campaign.templateId,
+      themeId: campaign.themeId,
+      signatureImageId: campaign.signatureImageId,
+      campaignSlug: campaign.slug,
+      clientIp,
+      rosterCode,
+      completionId
+    };
+  };
+
+  return [
+    {
+      // Server capabilities that do not depend on a campaign (e.g. for re-downloads).
+      method: 'GET',
+      path: '/api/features',
+      handler: async ({ res }) => {
+        sendJson(res, 200, features);
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/campaigns/:slug',
+      handler: async ({ res, params }) => {
+        sendJson(res, 200, toCampaignInfo(campaignFor(params.slug), features));
+      }
+    },
+    {
+      method: 'GET',
+      path: '/api/campaigns/:slug/stats',
+      handler: async ({ res, params, clientIp }) => {
+        sendJson(res, 200, statsFor(store, campaignFor(params.slug), clientIp));
+      }
+    },
+    {
+      // Lets the portal show whose certificate a code claims before issuing it.
+      method: 'POST',
+      path: '/api/campaigns/:slug/roster/match',
+      handler: counted(async ({ req, res, params, clientIp }) => {
+        const campaign = campaignFor(params.slug);
+        if (!campaign.roster) throw new HttpError(404, 'Bu çalışmada katılımcı listesi kullanılmıyor.');
+
+        const { accessCode } = await readJson<{ accessCode?: unknown }>(req);
+        const entry = rosterEntryFor(campaign, typeof accessCode === 'string' ? accessCode.trim() : undefined, clientIp);
+        sendJson(res, 200, { name: entry.name, remaining: remainingFor(campaign, entry) });
+      })
+    },
+    {
+      // Lets the portal lock the name field to the token's name and tell a used link apart.
+      method: 'POST',
+      path: '/api/campaigns/:slug/completion/match',
+      handler: counted(async ({ req, res, params, clientIp }) => {
+        const campaign = campaignFor(params.slug);
+        if (!campaign.completionTokens) throw new HttpError(404, 'Bu çalışmada anket bağlantısı kullanılmıyor.');
+
+        const { token, language } = await readJson<{ token?: unknown; language?: unknown }>(req);
+        const claims = completionFor(campaign, typeof token === 'string' ? token.trim() : undefined, clientIp);
+        const holder = tokenHolder(claims, primaryLocale(isCertificateLanguage(language) ? language : 'tr'));
+        sendJson(res, 200, {
+          name: holder && displayName(holder),
+          used: store.completionsOf(campaign.slug, claims.pid) > 0
+        });
+      })
+    },
+    {
+      // What the certificate would look like, checked like an issuance but not recorded,
+      // so previews and corrections do not use up the quota.
+      method: 'POST',
+      path: '/api/campaigns/:slug/previews',
+      handler: counted(async ({ req, res, params, clientIp }) => {
+        const campaign = campaignFor(params.slug);
+        const request = parseIssuanceRequest(await readJson(req));
+        const { clientIp: _clientIp, rosterCode: _rosterCode, completionId: _completionId, ...certificate } =
+          prepareIssuance(campaign, request, clientIp, new Date());
+
+        sendJson(res, 200, { certificate });
+      })
+    },
+    {
+      method: 'POST',
+      path: '/api/campaigns/:slug/issuances',
+      handler: counted(async ({ req, res, params, clientIp }) => {
+        const campaign = campaignFor(params.slug);
+        const request = parseIssuanceRequest(await readJson(req));
+
+        const issuedAt = new Date();
+        const deletion = createDeletionKey();
+        const record: IssuanceRecord = {
+          ...prepareIssuance(campaign, request, clientIp, issuedAt),
+          certificateNo: generateCertificateNo(issuedAt),
+          deletionKeyHash: deletion.hash
+        };
+        await store.insert(record);
+
+        sendJson(res, 201, {
+          certificate: toPublicCertificate(record),
+          stats: statsFor(store, campaign, clientIp),
+          deletionKey: deletion.key
+        });
+      })
+    },
+    {
+      method: 'GET',
+      path: '/api/certificates/:certificateNo',
+      handler: async ({ res, params }) => {
+        const record = lookupCertificate(store, params.certificateNo, { erased: true });
+        if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+
+        sendJson(res, 200, toPublicCertificate(record));
+      }
+    }
+  ];
+};
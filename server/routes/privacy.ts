@@ -0,0 +1,46 @@
+import { HttpError, Route, createAttemptLimiter, readJson, requireAdmin, sendJson } from '../http';
+import { LedgerStore, lookupCertificate } from '../store';
+import { matchesDeletionKey } from '../privacy';
+
+interface PrivacyDeps {
+  store: LedgerStore;
+  adminToken: string;
+}
+
+// Wrong deletion keys allowed per client IP before deletions from it are paused.
+const MAX_KEY_FAILURES = 10;
+const KEY_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export const privacyRoutes = ({ store, adminToken }: PrivacyDeps): Route[] => {
+  const keyFailures = createAttemptLimiter(MAX_KEY_FAILURES, KEY_FAILURE_WINDOW_MS);
+
+  return [
+    {
+      // Holders delete their record with the key the claiming browser kept; coordinators
+      // (ADMIN_TOKEN) carry out requests that reach them another way, e.g. by e-mail. The record
+      // becomes a tombstone, so the claim still counts towards quotas and single-use links.
+      method: 'POST',
+      path: '/api/certificates/:certificateNo/deletion',
+      handler: async ({ req, res, params, clientIp }) => {
+        const record = lookupCertificate(store, params.certificateNo);
+        if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+
+        if (req.headers.authorization) {
+          requireAdmin(req, adminToken);
+        } else {
+          if (keyFailures.blocked(clientIp)) {
+            throw new HttpError(429, 'Çok fazla hatalı deneme yapıldı. Lütfen daha sonra tekrar deneyin.', 'tooManyAttempts');
+          }
+          const { key } = await readJson<{ key?: unknown }>(req);
+          if (typeof key !== 'string' || !matchesDeletionKey(record, key)) {
+            keyFailures.fail(clientIp);
+            throw new HttpError(403, 'Sertifikanın kayıtları yalnızca alındığı tarayıcıdan silinebilir.', 'deletionNotAllowed');
+          }
+        }
+
+        await store.erase(record);
+        sendJson(res, 200, { status: 'deleted' });
+      }
+    }
+  ];
+};
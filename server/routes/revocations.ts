@@ -0,0 +1,87 @@
+import { HttpError, Route, readJson, requireAdmin, sendJson } from '../http';
+import { IssuanceRecord, LedgerStore, lookupCertificate, toPublicCertificate } from '../store';
+import { parseImpactMessage } from './issuances';
+import { generateCertificateNo } from '../../utils/certificateNumber';
+import { NAME_ERROR_MESSAGES, PersonName, checkPersonName } from '../../utils/personName';
+import { formatCertificateDate, primaryLocale } from '../../i18n';
+import { RevocationRequest, RevocationResult } from '../../types';
+
+interface RevocationDeps {
+  store: LedgerStore;
+  adminToken: string;
+}
+
+const MAX_REASON_LENGTH = 300;
+
+// A corrected copy of a revoked certificate under a new number. It is a coordinator issuance,
+// so it does not count towards the holder's quota, roster entry or completion token.
+const reissueOf = (
+  {
+    clientIp: _clientIp, rosterCode: _rosterCode, completionId: _completionId, deletionKeyHash: _deletionKeyHash,
+    emailDelivery: _emailDelivery, ...original
+  }: IssuanceRecord,
+  changes: NonNullable<RevocationRequest['reissue']>,
+  issuedAt: Date
+): IssuanceRecord => {
+  let holder: PersonName = { name: original.name, academicTitle: original.academicTitle };
+  if (typeof changes.name === 'string' && changes.name.trim()) {
+    const checked = checkPersonName(changes.name, primaryLocale(original.language ?? 'tr'));
+    if (!checked.ok) throw new HttpError(400, NAME_ERROR_MESSAGES[checked.error], checked.error);
+    holder = checked.value;
+  }
+  const impactMessage = changes.impactMessage === undefined ? original.impactMessage : parseImpactMessage(changes.impactMessage);
+
+  return {
+    ...original,
+    name: holder.name,
+    academicTitle: holder.academicTitle,
+    impactMessage,
+    certificateNo: generateCertificateNo(issuedAt),
+    date: formatCertificateDate(issuedAt, original.language ?? 'tr'),
+    issuedAt: issuedAt.toISOString(),
+    revocation: undefined,
+    replacedBy: undefined,
+    replaces: original.certificateNo,
+    clientIp: null
+  };
+};
+
+export const revocationRoutes = ({ store, adminToken }: RevocationDeps): Route[] => [
+  {
+    method: 'POST',
+    path: '/api/certificates/:certificateNo/revocation',
+    handler: async ({ req, res, params }) => {
+      requireAdmin(req, adminToken);
+
+      const body = await readJson<Partial<RevocationRequest>>(req);
+      const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+      if (!reason) throw new HttpError(400, 'İptal gerekçesi zorunludur.', 'revocationReasonRequired');
+      if (reason.length > MAX_REASON_LENGTH) {
+        throw new HttpError(400, `İptal gerekçesi en fazla ${MAX_REASON_LENGTH} karakter olabilir.`);
+      }
+
+      const record = lookupCertificate(store, params.certificateNo);
+      if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+      if (record.revocation) throw new HttpError(409, 'Bu sertifika zaten iptal edilmiş.', 'alreadyRevoked');
+
+      const revokedAt = new Date();
+      const replacement = body.reissue ? reissueOf(record, body.reissue, revokedAt) : undefined;
+
+      // Both changes are applied before the first write is awaited, so a second request
+      // for the same number already sees the revocation.
+      await Promise.all([
+        store.update(record, {
+          revocation: { reason, revokedAt: revokedAt.toISOString() },
+          replacedBy: replacement?.certificateNo
+        }),
+        ...(replacement ? [store.insert(replacement)] : [])
+      ]);
+
+      const result: RevocationResult = {
+        revoked: toPublicCertificate(record),
+        replacement: replacement && toPublicCertificate(replacement)
+      };
+      sendJson(res, 201, result);
+    }
+  }
+];
@@ -0,0 +1,96 @@
+import { HttpError, Route, readJson, requireAdmin, sendJson } from '../http';
+import { LedgerStore } from '../store';
+import { CampaignRegistry } from '../campaigns';
+import { isEmailAddress } from '../mailer';
+import { RosterStore, generateAccessCode, normalizeAccessCode, normalizeEmail, rosterKey } from '../rosters';
+import { NAME_ERROR_MESSAGES, checkPersonName, displayName } from '../../utils/personName';
+import { Campaign, Roster, RosterEntry } from '../../types';
+
+interface RosterDeps {
+  store: LedgerStore;
+  campaigns: CampaignRegistry;
+  rosters: RosterStore;
+  adminToken: string;
+}
+
+const MAX_ROSTER_ENTRIES = 5000;
+const MAX_ROSTER_BYTES = 2 * 1024 * 1024;
+
+// Validates the uploaded list and gives every entry an access code. Entries listed by e-mail
+// only keep the code they had before, so re-uploading a list does not invalidate sent codes.
+const buildEntries = (rows: Partial<RosterEntry>[], previous: RosterEntry[]): RosterEntry[] => {
+  const codes = new Set<string>();
+  const emails = new Set<string>();
+
+  return rows.map((row, index) => {
+    const line = `${index + 1}. satır`;
+    const checked = checkPersonName(typeof row.name === 'string' ? row.name : '');
+    if (!checked.ok) throw new HttpError(400, `${line}: ${NAME_ERROR_MESSAGES[checked.error]}`);
+    const name = displayName(checked.value);
+
+    const email = typeof row.email === 'string' && row.email.trim() ? normalizeEmail(row.email) : undefined;
+    if (email && !isEmailAddress(email)) throw new HttpError(400, `${line}: e-posta adresi geçersiz (${email}).`);
+    if (email && emails.has(email)) throw new HttpError(400, `${line}: e-posta adresi listede birden fazla kez geçiyor.`);
+
+    let accessCode = typeof row.accessCode === 'string' ? row.accessCode.trim() : '';
+    if (!accessCode) {
+      accessCode = (email && previous.find((entry) => entry.email === email)?.accessCode) || generateAccessCode();
+    }
+    const code = normalizeAccessCode(accessCode);
+    if (code.length < 6) throw new HttpError(400, `${line}: erişim kodu en az 6 harf/rakam olmalıdır.`);
+    if (codes.has(code)) throw new HttpError(400, `${line}: erişim kodu listede birden fazla kez geçiyor.`);
+
+    codes.add(code);
+    if (email) emails.add(email);
+    return { name, accessCode, email };
+  });
+};
+
+export const rosterRoutes = ({ store, campaigns, rosters, adminToken }: RosterDeps): Route[] => {
+  const rosterCampaign = (slug: string): Campaign => {
+    const campaign = campaigns.get(slug);
+    if (!campaign) throw new HttpError(404, 'Kampanya bulunamadı.', 'campaignNotFound');
+    if (!campaign.roster) {
+      throw new HttpError(400, 'Bu çalışmada katılımcı listesi etkin değil (campaigns.json içinde "roster" ayarı yok).', 'rosterDisabled');
+    }
+    return campaign;
+  };
+
+  const rosterOf = (campaign: Campaign): Roster => ({
+    campaignSlug: campaign.slug,
+    redemptionLimit: campaign.roster!.redemptionLimit,
+    entries: rosters.entriesFor(campaign.slug).map((entry) => ({
+      ...entry,
+      redemptions: store.redemptionsOf(campaign.slug, rosterKey(entry))
+    }))
+  });
+
+  return [
+    {
+      method: 'GET',
+      path: '/api/campaigns/:slug/roster',
+      handler: async ({ req, res, params }) => {
+        requireAdmin(req, adminToken);
+        sendJson(res, 200, rosterOf(rosterCampaign(params.slug)));
+      }
+    },
+    {
+      // Replaces the whole roster; claims already made stay counted against their access codes.
+      method: 'PUT',
+      path: '/api/campaigns/:slug/roster',
+      handler: async ({ req, res, params }) => {
+        requireAdmin(req, adminToken);
+        const campaign = rosterCampaign(params.slug);
+
+        const body = await readJson<{ entries?: Partial<RosterEntry>[] }>(req, MAX_ROSTER_BYTES);
+        if (!Array.isArray(body.entries)) throw new HttpError(400, 'Katılımcı listesi eksik.');
+        if (body.entries.length > MAX_ROSTER_ENTRIES) {
+          throw new HttpError(400, `Bir listede en fazla ${MAX_ROSTER_ENTRIES} katılımcı olabilir.`);
+        }
+
+        await rosters.replace(campaign.slug, buildEntries(body.entries, rosters.entriesFor(campaign.slug)));
+        sendJson(res, 200, rosterOf(campaign));
+      }
+    }
+  ];
+};
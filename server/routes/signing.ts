@@ -0,0 +1,65 @@
+import { HttpError, Route, readJson, requireAdmin, sendBytes, sendJson } from '../http';
+import { LedgerStore, lookupCertificate } from '../store';
+import { SignatureImageStore } from '../signatureImages';
+import { CertificateRenderer, verificationUrlFor } from '../certificatePdf';
+import { certificateFileName } from '../../utils/pdfUtils';
+
+interface SigningDeps {
+  store: LedgerStore;
+  signatureImages: SignatureImageStore;
+  renderCertificate: CertificateRenderer;
+  adminToken: string;
+  portalUrl: string;
+}
+
+const DATA_URL = /^data:image\/(?:png|jpeg);base64,([A-Za-z0-9+/=\s]+)$/;
+
+export const signingRoutes = ({ store, signatureImages, renderCertificate, adminToken, portalUrl }: SigningDeps): Route[] => [
+  {
+    method: 'POST',
+    path: '/api/signature-images',
+    handler: async ({ req, res }) => {
+      requireAdmin(req, adminToken);
+
+      const body = await readJson<{ dataUrl?: string }>(req, 2 * signatureImages.maxBytes);
+      const match = typeof body.dataUrl === 'string' ? DATA_URL.exec(body.dataUrl) : null;
+      const id = match ? await signatureImages.save(Buffer.from(match[1], 'base64')) : null;
+      if (!id) {
+        throw new HttpError(400, `İmza görseli en fazla ${signatureImages.maxBytes / 1024} KB boyutunda PNG veya JPEG olmalıdır.`, 'invalidSignatureImage');
+      }
+
+      sendJson(res, 201, { id });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/signature-images/:id',
+    handler: async ({ res, params }) => {
+      const image = await signatureImages.read(params.id);
+      if (!image) throw new HttpError(404, 'İmza görseli bulunamadı.');
+
+      // Ids are content hashes, so the response never changes.
+      sendBytes(res, 200, image.bytes, {
+        'Content-Type': image.type,
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/certificates/:certificateNo/pdf',
+    handler: async ({ res, params }) => {
+      const record = lookupCertificate(store, params.certificateNo);
+      if (!record) throw new HttpError(404, 'Sertifika bulunamadı.');
+      if (record.revocation) throw new HttpError(410, 'Bu sertifika iptal edilmiştir.', 'certificateRevoked');
+
+      // Signed with the issuer's key, so the QR code may only point at the configured portal.
+      const verificationUrl = verificationUrlFor(portalUrl, record.certificateNo);
+      const pdf = await renderCertificate(record, verificationUrl);
+      sendBytes(res, 200, pdf, {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${certificateFileName(record.name, record.language)}"`
+      });
+    }
+  }
+];
@@ -0,0 +1,64 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+// ---------- Handwritten signature images ----------
+// Coordinators upload a scanned signature once; certificates reference it by id.
+// Files are content-addressed, so uploading the same image twice yields the same id.
+
+export type SignatureImageType = 'image/png' | 'image/jpeg';
+
+export interface SignatureImage {
+  type: SignatureImageType;
+  bytes: Buffer;
+}
+
+const MAX_IMAGE_BYTES = 512 * 1024;
+const ID_PATTERN = /^[a-f0-9]{16}$/;
+
+const EXTENSIONS: Record<SignatureImageType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg'
+};
+
+// Checks the file signature rather than trusting the declared type.
+export const detectImageType = (bytes: Buffer): SignatureImageType | null => {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  return null;
+};
+
+export type SignatureImageStore = Awaited<ReturnType<typeof openSignatureImageStore>>;
+
+export const openSignatureImageStore = async (dir: string) => {
+  await fs.mkdir(dir, { recursive: true });
+
+  const fileFor = (id: string, type: SignatureImageType) => path.join(dir, `${id}.${EXTENSIONS[type]}`);
+
+  return {
+    maxBytes: MAX_IMAGE_BYTES,
+
+    // Returns null for a file that is not a PNG/JPEG or is too large.
+    save: async (bytes: Buffer): Promise<string | null> => {
+      const type = detectImageType(bytes);
+      if (!type || bytes.length > MAX_IMAGE_BYTES) return null;
+
+      const id = createHash('sha256').update(bytes).digest('hex').slice(0, 16);
+      await fs.writeFile(fileFor(id, type), bytes);
+      return id;
+    },
+
+    read: async (id: string): Promise<SignatureImage | undefined> => {
+      if (!ID_PATTERN.test(id)) return undefined;
+
+      for (const type of Object.keys(EXTENSIONS) as SignatureImageType[]) {
+        try {
+          return { type, bytes: await fs.readFile(fileFor(id, type)) };
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        }
+      }
+      return undefined;
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { promises as fs } from 'node:fs';
+import { SignPdf } from '@signpdf/signpdf';
+import { P12Signer } from '@signpdf/signer-p12';
+import { plainAddPlaceholder } from '@signpdf/placeholder-plain';
+
+// ---------- Digital signatures ----------
+// Adds an invisible PKCS#7 (adbe.pkcs7.detached) signature made with the issuer's PKCS#12
+// bundle, so any change to a downloaded certificate breaks the signature in PDF readers.
+
+export interface SignatureInfo {
+  reason: string;
+  name: string;
+  location: string;
+}
+
+export type PdfSigner = (pdf: Buffer, info: SignatureInfo) => Promise<Buffer>;
+
+// The placeholder is an incremental update whose trailer drops the file identifier, which PDF/A
+// requires in the last trailer; it is copied over from the original (the signature is computed later).
+const keepFileId = (original: Buffer, updated: Buffer): Buffer => {
+  const text = original.toString('latin1');
+  const id = /\/ID\s*\[[^\]]*\]/.exec(text.slice(text.lastIndexOf('trailer')));
+  if (!id) return updated;
+
+  const updatedText = updated.toString('latin1');
+  const insertAt = updatedText.indexOf('<<', updatedText.lastIndexOf('trailer')) + 2;
+  return Buffer.concat([updated.subarray(0, insertAt), Buffer.from(`\n${id[0]}`, 'latin1'), updated.subarray(insertAt)]);
+};
+
+export const loadPdfSigner = async (options: {
+  p12File: string;
+  passphrase: string;
+  contactInfo: string;
+}): Promise<PdfSigner | null> => {
+  if (!options.p12File) return null;
+
+  const signPdf = new SignPdf();
+  const signer = new P12Signer(await fs.readFile(options.p12File), { passphrase: options.passphrase });
+
+  return async (pdf, info) => {
+    const withPlaceholder = plainAddPlaceholder({
+      pdfBuffer: pdf,
+      reason: info.reason,
+      name: info.name,
+      location: info.location,
+      contactInfo: options.contactInfo
+    });
+    return signPdf.sign(keepFileId(pdf, withPlaceholder), signer);
+  };
+};
@@ -0,0 +1,144 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { DEFAULT_CAMPAIGN_SLUG } from './campaigns';
+import { isValidCertificateNo, normalizeCertificateNo } from '../utils/certificateNumber';
+import { IssuedCertificate } from '../types';
+
+// ---------- Issuance ledger (JSON file store) ----------
+// The whole ledger is kept in memory and flushed to disk after every change.
+// Node runs handlers on a single thread, so a quota check followed by an insert
+// cannot interleave with another request as long as both happen synchronously.
+
+// Last attempt to e-mail the certificate to its holder.
+export interface EmailDelivery {
+  to: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  updatedAt: string;
+  error?: string;
+}
+
+export interface IssuanceRecord extends IssuedCertificate {
+  // null for coordinator batch issuances, which do not count towards any quota
+  clientIp: string | null;
+  // Normalized access code of the roster entry that claimed the certificate
+  rosterCode?: string;
+  // Participant id from the completion token that claimed the certificate
+  completionId?: string;
+  // SHA-256 of the key the claiming browser got for deleting the record (server/privacy.ts)
+  deletionKeyHash?: string;
+  emailDelivery?: EmailDelivery;
+}
+
+// Strips server-only fields before a record leaves the API.
+export const toPublicCertificate = ({
+  clientIp: _clientIp,
+  rosterCode: _rosterCode,
+  completionId: _completionId,
+  deletionKeyHash: _deletionKeyHash,
+  emailDelivery: _emailDelivery,
+  ...certificate
+}: IssuanceRecord): IssuedCertificate => certificate;
+
+// What is left of a record once its holder's data is deleted (server/privacy.ts): enough for the
+// quota, roster and completion link checks to keep counting the claim, and for a revoked number
+// to keep verifying as revoked.
+const tombstoneOf = (record: IssuanceRecord, erasedAt: string): IssuanceRecord => ({
+  certificateNo: record.certificateNo,
+  issuedAt: record.issuedAt,
+  date: record.date,
+  name: '',
+  impactMessage: '',
+  campaignSlug: record.campaignSlug,
+  batchId: record.batchId,
+  revocation: record.revocation,
+  replaces: record.replaces,
+  replacedBy: record.replacedBy,
+  clientIp: record.clientIp,
+  rosterCode: record.rosterCode,
+  completionId: record.completionId,
+  erasedAt
+});
+
+interface LedgerFile {
+  issuances: IssuanceRecord[];
+}
+
+export type LedgerStore = Awaited<ReturnType<typeof openLedgerStore>>;
+
+export const openLedgerStore = async (filePath: string) => {
+  let data: LedgerFile = { issuances: [] };
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  // Writes go to a temp file and are renamed into place, one at a time.
+  const flush = (): Promise<void> => {
+    const snapshot = JSON.stringify(data, null, 2);
+    const tmpPath = `${filePath}.tmp`;
+
+    writeQueue = writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, filePath);
+      });
+
+    return writeQueue;
+  };
+
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await flush();
+  }
+
+  return {
+    all: (): IssuanceRecord[] => data.issuances,
+
+    // Records written before campaigns existed belong to the default campaign.
+    issuancesFor: (campaignSlug: string, clientIp: string): IssuanceRecord[] =>
+      data.issuances.filter((r) => r.clientIp === clientIp && (r.campaignSlug ?? DEFAULT_CAMPAIGN_SLUG) === campaignSlug),
+
+    redemptionsOf: (campaignSlug: string, rosterCode: string): number =>
+      data.issuances.filter((r) => r.rosterCode === rosterCode && r.campaignSlug === campaignSlug).length,
+
+    completionsOf: (campaignSlug: string, completionId: string): number =>
+      data.issuances.filter((r) => r.completionId === completionId && r.campaignSlug === campaignSlug).length,
+
+    findByCertificateNo: (certificateNo: string): IssuanceRecord | undefined =>
+      data.issuances.find((r) => r.certificateNo === certificateNo),
+
+    insert: (...records: IssuanceRecord[]): Promise<void> => {
+      data.issuances.push(...records);
+      return flush();
+    },
+
+    // Replaces the records with their tombstones. Records are looked up by reference, so callers
+    // pass the records they found.
+    erase: (...records: IssuanceRecord[]): Promise<void> => {
+      const erasedAt = new Date().toISOString();
+      data.issuances = data.issuances.map((r) => (records.includes(r) ? tombstoneOf(r, erasedAt) : r));
+      return flush();
+    },
+
+    update: (record: IssuanceRecord, changes: Partial<IssuanceRecord>): Promise<void> => {
+      Object.assign(record, changes);
+      return flush();
+    }
+  };
+};
+
+// Batch lists may carry the study's own numbering, so the number is tried as written first.
+// Erased records are only found for verification, which shows what is left of them.
+export const lookupCertificate = (
+  store: LedgerStore,
+  requested: string,
+  { erased = false }: { erased?: boolean } = {}
+): IssuanceRecord | undefined => {
+  const raw = requested.trim();
+  const normalized = normalizeCertificateNo(raw);
+  const record = store.findByCertificateNo(raw)
+    ?? (isValidCertificateNo(normalized) ? store.findByCertificateNo(normalized) : undefined);
+  return record && (erased || !record.erasedAt) ? record : undefined;
+};
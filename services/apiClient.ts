@@ -0,0 +1,35 @@
+// ---------- Portal API client ----------
+// API_BASE_URL is injected at build time; empty means same origin (Vite proxies /api in dev).
+const API_BASE_URL = (process.env.API_BASE_URL || '').replace(/\/+$/, '');
+
+// `code` identifies the error for localized messages (see errorMessage in i18n/LocaleContext).
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string) {
+    super(message);
+  }
+}
+
+const errorFrom = async (res: Response): Promise<ApiError> => {
+  const body = await res.json().catch(() => null);
+  return new ApiError(res.status, body?.error ?? `HTTP ${res.status}`, body?.code);
+};
+
+export const apiRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const res = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  });
+
+  if (!res.ok) throw await errorFrom(res);
+  return res.json() as Promise<T>;
+};
+
+// For binary responses (PDFs, images).
+export const apiBlob = async (path: string): Promise<Blob> => {
+  const res = await fetch(`${API_BASE_URL}${path}`);
+  if (!res.ok) throw await errorFrom(res);
+  return res.blob();
+};
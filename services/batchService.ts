@@ -0,0 +1,14 @@
+import { apiRequest } from './apiClient';
+import { BatchIssuanceResult, BatchRow, CertificateLanguage } from '../types';
+
+// Coordinator batch issuance; records every row in the ledger without applying the quota.
+export const issueBatch = (
+  rows: BatchRow[],
+  options: { templateId: string; themeId: string; language: CertificateLanguage; signatureImageId?: string },
+  adminToken: string
+) =>
+  apiRequest<BatchIssuanceResult>('/api/issuances/batch', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify({ rows, ...options })
+  });
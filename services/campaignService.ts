@@ -0,0 +1,8 @@
+import { apiRequest } from './apiClient';
+import { CampaignInfo, PortalFeatures } from '../types';
+
+export const fetchCampaign = (slug: string): Promise<CampaignInfo> =>
+  apiRequest<CampaignInfo>(`/api/campaigns/${encodeURIComponent(slug)}`);
+
+export const fetchPortalFeatures = (): Promise<PortalFeatures> =>
+  apiRequest<PortalFeatures>('/api/features');
@@ -0,0 +1,103 @@
+import { GState } from 'jspdf';
+import { apiBlob, apiRequest } from './apiClient';
+import { buildCertificatePDF, buildPrintSheetsPDF } from '../utils/pdfUtils';
+import { DEFAULT_PRINT_OPTIONS } from '../utils/printLayout';
+import { buildVerifyUrl } from '../utils/routing';
+import { PRINT_BACK_TEMPLATE, getTemplate } from '../templates';
+import { getTheme } from '../themes';
+import { DEFAULT_FONT_ID } from '../fonts';
+import { CertificateDraft, CertificateInput, IssuedCertificate, PaperFormat } from '../types';
+
+// ---------- Certificate PDFs ----------
+// When the server holds a signing key it renders and signs the PDF (see server/routes/signing.ts);
+// otherwise the certificate is rendered here in the browser, unsigned.
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const signatureImages = new Map<string, Promise<string>>();
+
+// Signature images never change for a given id, so each is downloaded once per session.
+export const fetchSignatureImage = (id: string): Promise<string> => {
+  let image = signatureImages.get(id);
+  if (!image) {
+    image = apiBlob(`/api/signature-images/${encodeURIComponent(id)}`).then(blobToDataUrl);
+    image.catch(() => signatureImages.delete(id));
+    signatureImages.set(id, image);
+  }
+  return image;
+};
+
+// Coordinator upload of a handwritten signature (PNG/JPEG); returns the id certificates refer to.
+export const uploadSignatureImage = async (file: File, adminToken: string): Promise<string> => {
+  const { id } = await apiRequest<{ id: string }>('/api/signature-images', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify({ dataUrl: await blobToDataUrl(file) })
+  });
+  return id;
+};
+
+const certificateInput = async (certificate: IssuedCertificate): Promise<CertificateInput> => ({
+  ...certificate,
+  verificationUrl: buildVerifyUrl(certificate.certificateNo),
+  signatureImage: certificate.signatureImageId ? await fetchSignatureImage(certificate.signatureImageId) : undefined
+});
+
+export const certificatePdf = async (certificate: IssuedCertificate, signedPdf: boolean): Promise<Blob> => {
+  if (signedPdf) {
+    return apiBlob(`/api/certificates/${encodeURIComponent(certificate.certificateNo)}/pdf`);
+  }
+
+  const doc = await buildCertificatePDF(await certificateInput(certificate), getTemplate(certificate.templateId), {
+    theme: getTheme(certificate.themeId)
+  });
+  return doc.output('blob');
+};
+
+// A batch on double-sided print sheets, always rendered here: printers want the plain file, and
+// a batch shares one template and theme.
+export const printSheetsPdf = async (certificates: IssuedCertificate[], paper: PaperFormat): Promise<Blob> => {
+  const inputs: CertificateInput[] = [];
+  for (const certificate of certificates) inputs.push(await certificateInput(certificate));
+
+  const doc = await buildPrintSheetsPDF(inputs, getTemplate(certificates[0]?.templateId), {
+    ...DEFAULT_PRINT_OPTIONS,
+    paper,
+    back: PRINT_BACK_TEMPLATE
+  }, { theme: getTheme(certificates[0]?.themeId) });
+  return doc.output('blob');
+};
+
+// Rendered locally with a diagonal watermark and without number or QR code, so a preview
+// cannot pass for an issued certificate.
+export const certificatePreviewPdf = async (draft: CertificateDraft, watermark: string): Promise<Blob> => {
+  const doc = await buildCertificatePDF({
+    ...draft,
+    signatureImage: draft.signatureImageId ? await fetchSignatureImage(draft.signatureImageId) : undefined
+  }, getTemplate(draft.templateId), { theme: getTheme(draft.themeId) });
+
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  doc.setGState(new GState({ opacity: 0.18 }));
+  doc.setFont(DEFAULT_FONT_ID, 'bold');
+  doc.setFontSize(Math.min(width, height) / 2.2);
+  doc.setTextColor(190, 18, 60);
+  doc.text(watermark, width / 2, height / 2, {
+    align: 'center',
+    baseline: 'middle',
+    angle: (Math.atan2(height, width) * 180) / Math.PI
+  });
+
+  return doc.output('blob');
+};
+
+// Signed Open Badges exports (see server/routes/credentials.ts): the credential as JSON-LD,
+// or the badge image with the credential baked in.
+export const certificateCredential = (certificateNo: string, format: 'credential' | 'badge'): Promise<Blob> =>
+  apiBlob(`/api/certificates/${encodeURIComponent(certificateNo)}/${format}`);
@@ -0,0 +1,78 @@
+import { IssuedCertificate } from '../types';
+
+// ---------- My certificates ----------
+// Every certificate issued in this browser is kept in localStorage with all of its data, so
+// it can be rendered again at any time (see MyCertificates) without another issuance.
+
+const STORAGE_KEY = 'certificate_history';
+const DELETION_KEYS_STORAGE_KEY = 'certificate_deletion_keys';
+
+export const loadHistory = (): IssuedCertificate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveHistory = (certificates: IssuedCertificate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(certificates));
+  } catch (err) {
+    // Storage disabled or full: the certificate was still downloaded.
+    console.warn("Certificate history could not be saved", err);
+  }
+};
+
+// Newest first; a certificate saved twice (e.g. added again by number) is kept once.
+export const rememberCertificate = (certificate: IssuedCertificate): IssuedCertificate[] => {
+  const history = [certificate, ...loadHistory().filter((c) => c.certificateNo !== certificate.certificateNo)];
+  saveHistory(history);
+  return history;
+};
+
+// Replaces a saved certificate with its current ledger state (e.g. after a revocation), keeping its place.
+export const refreshCertificate = (certificate: IssuedCertificate): IssuedCertificate[] => {
+  const history = loadHistory().map((c) => (c.certificateNo === certificate.certificateNo ? certificate : c));
+  saveHistory(history);
+  return history;
+};
+
+export const forgetCertificate = (certificateNo: string): IssuedCertificate[] => {
+  const history = loadHistory().filter((c) => c.certificateNo !== certificateNo);
+  saveHistory(history);
+  return history;
+};
+
+// Keys for deleting a certificate's ledger record, by certificate number. Only the browser that
+// claimed a certificate has one; it is kept when the certificate is just removed from the list.
+const loadDeletionKeys = (): Record<string, string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DELETION_KEYS_STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveDeletionKeys = (keys: Record<string, string>) => {
+  try {
+    localStorage.setItem(DELETION_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  } catch (err) {
+    console.warn("Deletion key could not be saved", err);
+  }
+};
+
+export const rememberDeletionKey = (certificateNo: string, key: string) => {
+  saveDeletionKeys({ ...loadDeletionKeys(), [certificateNo]: key });
+};
+
+export const deletionKeyOf = (certificateNo: string): string | undefined => loadDeletionKeys()[certificateNo];
+
+// After the record was deleted: nothing about the certificate is left in this browser.
+export const forgetDeletedCertificate = (certificateNo: string): IssuedCertificate[] => {
+  const { [certificateNo]: _deleted, ...keys } = loadDeletionKeys();
+  saveDeletionKeys(keys);
+  return forgetCertificate(certificateNo);
+};
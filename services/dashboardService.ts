@@ -0,0 +1,18 @@
+import { apiRequest } from './apiClient';
+import { DashboardData, PortalEventKind } from '../types';
+
+// Coordinator dashboard (see server/routes/dashboard.ts).
+
+export const fetchDashboard = (adminToken: string): Promise<DashboardData> =>
+  apiRequest<DashboardData>('/api/dashboard', {
+    headers: { Authorization: `Bearer ${adminToken}` }
+  });
+
+// Form views and starts, counted for the dashboard (quota hits and errors are recorded by the
+// API); failures are ignored so reporting never gets in the visitor's way.
+export const reportPortalEvent = (campaignSlug: string, kind: Extract<PortalEventKind, 'view' | 'start'>): void => {
+  apiRequest(`/api/campaigns/${encodeURIComponent(campaignSlug)}/events`, {
+    method: 'POST',
+    body: JSON.stringify({ kind })
+  }).catch(() => undefined);
+};
@@ -0,0 +1,27 @@
+import { apiRequest } from './apiClient';
+import { templateImpactMessage } from '../utils/impactTemplates';
+import { ImpactMessageRequest } from '../types';
+
+// ---------- Impact messages ----------
+// The short thank-you sentence on each certificate. Language models are called by the API
+// (server/impactMessages.ts), which holds their keys, moderates the answer and caches it per
+// name and study; the portal only learns the processor's name from the campaign's features.
+// Names only leave the browser when the visitor agrees; otherwise the template pool writes the message.
+
+export const generateImpactMessage = async (request: ImpactMessageRequest, processor: string | undefined): Promise<string> => {
+  if (!processor || !request.aiConsent) return templateImpactMessage(request);
+
+  try {
+    const { message } = await apiRequest<{ message: string }>(
+      `/api/campaigns/${encodeURIComponent(request.campaignSlug)}/impact-messages`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ name: request.name, locale: request.locale, attempt: request.attempt, aiConsent: true })
+      }
+    );
+    return message;
+  } catch (err) {
+    console.error('Impact message request failed:', err);
+    return templateImpactMessage(request);
+  }
+};
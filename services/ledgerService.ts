@@ -0,0 +1,64 @@
+import { apiRequest } from './apiClient';
+import { CertificateDraft, CertificateLanguage, IssuanceRequest, IssuedCertificate, RevocationRequest, RevocationResult, UserStats } from '../types';
+
+// The issuance ledger and the per-IP, per-campaign quota live on the server (see server/routes/issuances.ts).
+
+const campaignPath = (slug: string) => `/api/campaigns/${encodeURIComponent(slug)}`;
+
+export const fetchUserStats = (campaignSlug: string): Promise<UserStats> =>
+  apiRequest<UserStats>(`${campaignPath(campaignSlug)}/stats`);
+
+// Checked like an issuance but not recorded, so it does not count towards the quota.
+export const previewCertificate = (campaignSlug: string, request: IssuanceRequest) =>
+  apiRequest<{ certificate: CertificateDraft }>(`${campaignPath(campaignSlug)}/previews`, {
+    method: 'POST',
+    body: JSON.stringify(request)
+  });
+
+// The deletion key lets this browser delete the record later (see deleteCertificateData).
+export const issueCertificate = (campaignSlug: string, request: IssuanceRequest) =>
+  apiRequest<{ certificate: IssuedCertificate; stats: UserStats; deletionKey: string }>(`${campaignPath(campaignSlug)}/issuances`, {
+    method: 'POST',
+    body: JSON.stringify(request)
+  });
+
+export const findCertificate = (certificateNo: string): Promise<IssuedCertificate> =>
+  apiRequest<IssuedCertificate>(`/api/certificates/${encodeURIComponent(certificateNo)}`);
+
+// Roster campaigns: resolves an access code to the participant's name.
+export const matchRosterEntry = (campaignSlug: string, accessCode: string) =>
+  apiRequest<{ name: string; remaining: number }>(`${campaignPath(campaignSlug)}/roster/match`, {
+    method: 'POST',
+    body: JSON.stringify({ accessCode })
+  });
+
+// Completion token campaigns: the holder name the survey link carries (if any, and only when it
+// passes the name check for the certificate's language) and whether it was used.
+export const matchCompletionToken = (campaignSlug: string, token: string, language: CertificateLanguage) =>
+  apiRequest<{ name?: string; used: boolean }>(`${campaignPath(campaignSlug)}/completion/match`, {
+    method: 'POST',
+    body: JSON.stringify({ token, language })
+  });
+
+// Only accepted from the device that claimed the certificate (see server/routes/delivery.ts).
+export const emailCertificate = (certificateNo: string, email: string) =>
+  apiRequest<{ status: 'sent' }>(`/api/certificates/${encodeURIComponent(certificateNo)}/email`, {
+    method: 'POST',
+    body: JSON.stringify({ email })
+  });
+
+// Deletes the holder's data from the certificate's ledger record. Only a tombstone stays behind:
+// verification then confirms the number was issued but no longer shows whose it is.
+export const deleteCertificateData = (certificateNo: string, deletionKey: string) =>
+  apiRequest<{ status: 'deleted' }>(`/api/certificates/${encodeURIComponent(certificateNo)}/deletion`, {
+    method: 'POST',
+    body: JSON.stringify({ key: deletionKey })
+  });
+
+// Coordinators only: revokes a certificate and optionally issues a corrected one in its place.
+export const revokeCertificate = (certificateNo: string, request: RevocationRequest, adminToken: string) =>
+  apiRequest<RevocationResult>(`/api/certificates/${encodeURIComponent(certificateNo)}/revocation`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify(request)
+  });
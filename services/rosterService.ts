@@ -0,0 +1,18 @@
+import { apiRequest } from './apiClient';
+import { Roster, RosterEntry } from '../types';
+
+// Coordinator roster management (see server/routes/rosters.ts).
+
+const rosterPath = (slug: string) => `/api/campaigns/${encodeURIComponent(slug)}/roster`;
+
+export const fetchRoster = (campaignSlug: string, adminToken: string): Promise<Roster> =>
+  apiRequest<Roster>(rosterPath(campaignSlug), {
+    headers: { Authorization: `Bearer ${adminToken}` }
+  });
+
+export const uploadRoster = (campaignSlug: string, entries: Partial<RosterEntry>[], adminToken: string): Promise<Roster> =>
+  apiRequest<Roster>(rosterPath(campaignSlug), {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify({ entries })
+  });
@@ -0,0 +1,108 @@
+import defaultTemplate from './default.json';
+import a5PortraitTemplate from './a5-portrait.json';
+import bilingualTemplate from './bilingual.json';
+import backTemplate from './back.json';
+import { hasFont } from '../fonts';
+import { ORNAMENT_SLOTS, THEME_COLORS } from '../themes';
+import { ORNAMENT_KINDS } from '../utils/pdfOrnaments';
+import { CertificateTemplate, TemplateElement } from '../types';
+
+// ---------- Certificate layout templates ----------
+// Each study can ship its own layout as a JSON file in this directory and register it below.
+
+const REQUIRED_FIELDS: Record<TemplateElement['type'], string[]> = {
+  text: ['text', 'x', 'y', 'size', 'color'],
+  rect: ['x', 'y', 'width', 'height'],
+  line: ['x1', 'y1', 'x2', 'y2', 'color', 'lineWidth'],
+  circle: ['x', 'y', 'radius'],
+  decoration: ['kind', 'x', 'y', 'scale'],
+  border: ['inset', 'gap', 'lineWidths'],
+  qr: ['value', 'x', 'y', 'size'],
+  image: ['src', 'x', 'y', 'width', 'height']
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// [r, g, b] or the name of a palette colour of the decoration theme
+const isColor = (value: unknown): boolean =>
+  (typeof value === 'string' && (THEME_COLORS as string[]).includes(value))
+  || (Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number'));
+
+const COLOR_FIELDS = ['color', 'stroke', 'fill'];
+
+// Validates the shape of a template (JSON imports are typed loosely), so a broken
+// layout fails loudly when it is loaded rather than halfway through drawing a PDF.
+export const parseCertificateTemplate = (raw: unknown): CertificateTemplate => {
+  if (!isRecord(raw)) throw new Error('Template must be a JSON object.');
+
+  const id = typeof raw.id === 'string' ? raw.id : '';
+  if (!id) throw new Error('Template is missing an "id".');
+
+  const page = raw.page;
+  if (!isRecord(page)) throw new Error(`Template "${id}": "page" is missing.`);
+  const formatOk = page.format === 'a4' || page.format === 'a5'
+    || (Array.isArray(page.format) && page.format.length === 2 && page.format.every((n) => typeof n === 'number'));
+  if (!formatOk) throw new Error(`Template "${id}": page.format must be "a4", "a5" or [width, height].`);
+  if (page.orientation !== 'portrait' && page.orientation !== 'landscape') {
+    throw new Error(`Template "${id}": page.orientation must be "portrait" or "landscape".`);
+  }
+
+  if (!Array.isArray(raw.elements)) throw new Error(`Template "${id}": "elements" must be an array.`);
+  const ids = new Set<string>();
+  raw.elements.forEach((element, index) => {
+    if (!isRecord(element) || typeof element.type !== 'string' || !(element.type in REQUIRED_FIELDS)) {
+      throw new Error(`Template "${id}": element ${index} has an unknown type.`);
+    }
+    const missing = REQUIRED_FIELDS[element.type as TemplateElement['type']].filter((field) => element[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Template "${id}": element ${index} (${element.type}) is missing ${missing.join(', ')}.`);
+    }
+
+    // Flow positioning may only refer to text blocks drawn earlier.
+    const y = element.y;
+    if (isRecord(y) && (typeof y.after !== 'string' || !ids.has(y.after))) {
+      throw new Error(`Template "${id}": element ${index} is positioned after unknown block "${String(y.after)}".`);
+    }
+    if (element.font !== undefined && (typeof element.font !== 'string' || !hasFont(element.font))) {
+      throw new Error(`Template "${id}": element ${index} uses unknown font "${String(element.font)}".`);
+    }
+    const badColor = COLOR_FIELDS.find((field) => element[field] !== undefined && !isColor(element[field]));
+    if (badColor) {
+      throw new Error(`Template "${id}": element ${index} has an invalid ${badColor} (use [r, g, b] or ${THEME_COLORS.join(', ')}).`);
+    }
+    if (element.type === 'decoration' && !([...ORNAMENT_KINDS, ...ORNAMENT_SLOTS] as unknown[]).includes(element.kind)) {
+      throw new Error(`Template "${id}": element ${index} uses unknown decoration "${String(element.kind)}".`);
+    }
+    if (typeof element.id === 'string') ids.add(element.id);
+  });
+
+  return {
+    id,
+    name: typeof raw.name === 'string' ? raw.name : id,
+    page: page as CertificateTemplate['page'],
+    defaults: isRecord(raw.defaults) ? (raw.defaults as Record<string, string>) : {},
+    elements: raw.elements as TemplateElement[]
+  };
+};
+
+export const DEFAULT_TEMPLATE = parseCertificateTemplate(defaultTemplate);
+
+const templates = new Map<string, CertificateTemplate>([
+  [DEFAULT_TEMPLATE.id, DEFAULT_TEMPLATE],
+  ['a5-portrait', parseCertificateTemplate(a5PortraitTemplate)],
+  ['bilingual', parseCertificateTemplate(bilingualTemplate)]
+]);
+
+// The back of double-sided print sheets (certgen --back). It is laid out on the front's page
+// size, so it only uses coordinates relative to the page, and is not offered as a front.
+export const PRINT_BACK_TEMPLATE = parseCertificateTemplate(backTemplate);
+
+export const registerTemplate = (template: CertificateTemplate) => {
+  templates.set(template.id, template);
+};
+
+export const getTemplate = (id?: string): CertificateTemplate =>
+  (id ? templates.get(id) : undefined) ?? DEFAULT_TEMPLATE;
+
+export const listTemplates = (): CertificateTemplate[] => [...templates.values()];
@@ -0,0 +1,88 @@
+import { DecorationTheme, OrnamentKind, OrnamentSlot, ThemeColor } from '../types';
+
+// ---------- Decoration themes ----------
+// Ornaments, palette and border style by discipline. A study picks one with "themeId" (campaign
+// or batch); certificates without one keep the biomedical look.
+
+export const THEME_COLORS: ThemeColor[] = ['primary', 'secondary', 'accent', 'muted'];
+export const ORNAMENT_SLOTS: OrnamentSlot[] = ['corner', 'side', 'emblem'];
+
+export const DEFAULT_THEME: DecorationTheme = {
+  id: 'biomedical',
+  name: 'Biyomedikal',
+  palette: {
+    primary: [22, 78, 99],
+    secondary: [8, 51, 68],
+    accent: [6, 182, 212],
+    muted: [148, 163, 184]
+  },
+  border: 'double',
+  ornaments: { corner: 'atom', side: 'dna', emblem: 'microscope' }
+};
+
+const BUNDLED_THEMES: DecorationTheme[] = [
+  DEFAULT_THEME,
+  {
+    id: 'neuroscience',
+    name: 'Psikoloji ve sinirbilim',
+    palette: {
+      primary: [91, 33, 182],
+      secondary: [46, 16, 101],
+      accent: [236, 72, 153],
+      muted: [196, 181, 253]
+    },
+    border: 'double',
+    ornaments: { corner: 'neuron', side: 'network', emblem: 'brain' }
+  },
+  {
+    id: 'astronomy',
+    name: 'Astronomi ve uzay bilimleri',
+    palette: {
+      primary: [30, 58, 138],
+      secondary: [23, 37, 84],
+      accent: [234, 179, 8],
+      muted: [147, 197, 253]
+    },
+    border: 'corners',
+    ornaments: { corner: 'planet', side: 'stars', emblem: 'telescope' }
+  },
+  {
+    id: 'social-sciences',
+    name: 'Sosyal bilimler',
+    palette: {
+      primary: [154, 52, 18],
+      secondary: [67, 20, 7],
+      accent: [234, 88, 12],
+      muted: [253, 186, 116]
+    },
+    border: 'single',
+    ornaments: { corner: 'survey', side: 'trend', emblem: 'chart' }
+  },
+  {
+    id: 'academic',
+    name: 'Akademik (sade)',
+    palette: {
+      primary: [30, 41, 59],
+      secondary: [15, 23, 42],
+      accent: [161, 98, 7],
+      muted: [148, 163, 184]
+    },
+    border: 'double',
+    ornaments: { corner: 'flourish', side: null, emblem: 'laurel' }
+  }
+];
+
+const themes = new Map<string, DecorationTheme>(BUNDLED_THEMES.map((theme) => [theme.id, theme]));
+
+export const registerTheme = (theme: DecorationTheme) => {
+  themes.set(theme.id, theme);
+};
+
+export const getTheme = (id?: string): DecorationTheme =>
+  (id ? themes.get(id) : undefined) ?? DEFAULT_THEME;
+
+export const listThemes = (): DecorationTheme[] => [...themes.values()];
+
+// The ornament a template's decoration element stands for under the theme (null: nothing).
+export const ornamentFor = (theme: DecorationTheme, kind: OrnamentKind | OrnamentSlot): OrnamentKind | null =>
+  (ORNAMENT_SLOTS as string[]).includes(kind) ? theme.ornaments[kind as OrnamentSlot] : kind as OrnamentKind;
@@ -1,15 +1,528 @@
 
-export interface IPInfo {
-  ip: string;
-}
-
 export interface UserStats {
   count: number;
-  lastGenerated: string;
+  limit: number;
+  lastGenerated: string | null;
 }
 
 export interface CertificateData {
   name: string;
+  academicTitle?: string;  // e.g. "Prof. Dr.", kept apart from the name (utils/personName.ts)
   date: string;
   impactMessage: string;
 }
+
+export type Locale = 'tr' | 'en';
+
+// Certificates can be Turkish, English or bilingual (Turkish with English alongside).
+export type CertificateLanguage = Locale | 'tr-en';
+
+// Wording that is printed in the certificate's language and may be supplied per locale.
+export type TranslatableFields = {
+  institution?: string;
+  departmentOrUnit?: string;
+  coordinatorTitle?: string;
+  introText?: string;
+  closingText?: string;
+  impactMessage?: string;
+  studyTitle?: string;
+  role?: string;
+};
+
+// What the holder took part in, for institutions that award credit for volunteering.
+// Printed as a summary line under the name; activities get a page of their own.
+export type ParticipationDetails = {
+  studyTitle?: string;        // e.g. "Uyku Yoksunluğunun Bellek Pekiştirmesine Etkisi"
+  ethicsApprovalNo?: string;  // e.g. "2026/03-14"
+  role?: string;              // e.g. "Gönüllü katılımcı"
+  startDate?: string;         // YYYY-MM-DD
+  endDate?: string;           // YYYY-MM-DD
+  totalHours?: number;
+  activities?: ParticipationActivity[];
+};
+
+export interface ParticipationActivity {
+  description: string;
+  date?: string;  // YYYY-MM-DD
+  hours?: number;
+  // English description, for "en" and "tr-en" certificates
+  translations?: { en?: { description?: string } };
+}
+
+export type CertificateExtras = ParticipationDetails & {
+  institution?: string;       // e.g. "Tıpta Profesyonellik Bloğu"
+  departmentOrUnit?: string;  // e.g. "Araştırma ve Geliştirme Birimi"
+  coordinatorTitle?: string;  // e.g. "Koordinatör" / "Sorumlu Öğretim Üyesi"
+  coordinatorName?: string;   // e.g. "Dr. Öğr. Üyesi Ayşe Yılmaz"
+  location?: string;          // e.g. "İstanbul"
+  certificateNo?: string;     // e.g. "2025-7KQ4-M9XD-2PRT"
+  verificationUrl?: string;   // printed as a QR code in the footer
+  introText?: string;         // paragraph above the name
+  closingText?: string;       // line below the impact message
+  language?: CertificateLanguage;  // defaults to "tr"
+  // Wording in other languages, e.g. translations.en for the English half of a "tr-en" certificate
+  translations?: Partial<Record<Locale, TranslatableFields>>;
+};
+
+export type CertificateInput = CertificateData & CertificateExtras & {
+  // Handwritten signature as a PNG/JPEG data URL, drawn above the signature line
+  signatureImage?: string;
+  // ISO time of issuance; fixes the PDF's creation date and file id, so re-rendering gives the same file
+  issuedAt?: string;
+};
+
+// Extras that are stored with an issuance (the verification URL is derived, not stored).
+export type IssuerExtras = Omit<CertificateExtras, 'certificateNo' | 'verificationUrl'>;
+
+export interface IssuedCertificate extends CertificateData, IssuerExtras {
+  certificateNo: string;
+  issuedAt: string;
+  batchId?: string;
+  templateId?: string;
+  themeId?: string;
+  campaignSlug?: string;
+  // Uploaded handwritten signature (GET /api/signature-images/:id)
+  signatureImageId?: string;
+  // Set once a coordinator revokes the certificate; it then no longer verifies as valid
+  revocation?: Revocation;
+  // Corrected reissue: the number of the certificate it replaces (printed on the PDF)
+  replaces?: string;
+  // Revoked original: the number of its corrected reissue
+  replacedBy?: string;
+  // Set once the holder's data was deleted; only the number, its issue date and any revocation remain
+  erasedAt?: string;
+}
+
+export interface Revocation {
+  reason: string;      // shown on the verification page
+  revokedAt: string;   // ISO date-time
+}
+
+// Coordinator revocation (POST /api/certificates/:no/revocation), optionally with a corrected reissue.
+export interface RevocationRequest {
+  reason: string;
+  reissue?: {
+    name?: string;           // defaults to the revoked certificate's name
+    impactMessage?: string;  // defaults to the revoked certificate's message
+  };
+}
+
+export interface RevocationResult {
+  revoked: IssuedCertificate;
+  replacement?: IssuedCertificate;
+}
+
+// A certificate as it would be issued (POST /api/campaigns/:slug/previews); no number yet.
+export type CertificateDraft = Omit<IssuedCertificate, 'certificateNo'>;
+
+export interface IssuanceRequest {
+  // Ignored on roster campaigns: the name comes from the roster entry matching accessCode
+  name: string;
+  accessCode?: string;
+  // Completion token campaigns: the token from the survey link
+  completionToken?: string;
+  impactMessage: string;
+  language?: CertificateLanguage;
+  // English thank-you message for "tr-en" certificates
+  translations?: { en?: { impactMessage?: string } };
+}
+
+// A thank-you message for the holder (POST /api/campaigns/:slug/impact-messages).
+export interface ImpactMessageRequest {
+  name: string;
+  locale: Locale;
+  // Messages are cached per name and campaign
+  campaignSlug: string;
+  // Study title, given to language models as context; the API takes it from the campaign
+  study?: string;
+  // Set when the visitor asks for another message: skips the cache and varies the template pick
+  attempt?: number;
+  // The holder agreed to their name being sent to the provider's processor
+  aiConsent?: boolean;
+}
+
+// ---------- Open Badges ----------
+// An issued certificate as an Open Badges 3.0 credential (a W3C Verifiable Credential),
+// built by utils/openBadge.ts and signed by the server (server/credentials.ts).
+
+export interface OpenBadgeProfile {
+  id: string;
+  type: ['Profile'];
+  name: string;
+  url?: string;
+}
+
+export interface OpenBadgeAchievement {
+  id: string;
+  type: ['Achievement'];
+  name: string;
+  description: string;
+  criteria: { narrative: string };
+  creator: OpenBadgeProfile;
+  inLanguage: string;
+}
+
+export interface DataIntegrityProof {
+  '@context'?: string[];
+  type: 'DataIntegrityProof';
+  cryptosuite: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue?: string;
+}
+
+// 1EdTech Revocation List status: the list at `id` names the credential once it is revoked.
+export interface OpenBadgeCredentialStatus {
+  id: string;
+  type: '1EdTechRevocationList';
+}
+
+// What the status URL returns (GET /api/certificates/:no/revocation-list).
+export interface OpenBadgeRevocationList {
+  id: string;
+  issuer: string;
+  revokedCredentials: { id: string; revoked: true; revocationReason?: string }[];
+}
+
+export interface OpenBadgeCredential {
+  '@context': string[];
+  id: string;
+  type: ['VerifiableCredential', 'OpenBadgeCredential'];
+  issuer: OpenBadgeProfile;
+  name: string;
+  validFrom: string;
+  credentialSubject: {
+    type: ['AchievementSubject'];
+    identifier: { type: 'IdentityObject'; identityHash: string; identityType: 'name'; hashed: false }[];
+    achievement: OpenBadgeAchievement;
+    activityStartDate?: string;
+    activityEndDate?: string;
+    role?: string;
+  };
+  evidence?: { type: ['Evidence']; narrative: string }[];
+  credentialStatus?: OpenBadgeCredentialStatus;
+  proof?: DataIntegrityProof;
+}
+
+// ---------- Campaigns ----------
+// A campaign is one study's issuance window, reachable at "#/c/:slug".
+
+export type CampaignStatus = 'scheduled' | 'open' | 'closed';
+
+export interface Campaign {
+  slug: string;
+  title: string;
+  description?: string;
+  // Printed on every certificate of the campaign (institution, unit, coordinator, wording...)
+  extras: IssuerExtras;
+  issuanceLimit: number;
+  opensAt?: string;   // ISO date-time; open immediately when omitted
+  closesAt?: string;  // ISO date-time; never closes when omitted
+  templateId?: string;
+  // Decoration theme (themes/index.ts), e.g. "neuroscience"; biomedical when omitted
+  themeId?: string;
+  signatureImageId?: string;
+  // Only participants on the campaign's roster can claim, with their access code
+  roster?: RosterSettings;
+  // Certificates are claimed with the signed link the study's survey shows at the end
+  // (server/completionTokens.ts), one per participant
+  completionTokens?: boolean;
+  // Shown on the privacy policy page; fields left out are taken from the default campaign
+  privacy?: PrivacySettings;
+  // Per-locale wording: title/description for the portal, the rest overrides extras on certificates
+  translations?: Partial<Record<Locale, CampaignTranslation>>;
+}
+
+export type CampaignTranslation = TranslatableFields & {
+  title?: string;
+  description?: string;
+};
+
+export interface RosterSettings {
+  // Certificates each roster entry may claim
+  redemptionLimit: number;
+}
+
+export interface PrivacySettings {
+  // Data controller named in the privacy policy (e.g. the university)
+  controller?: string;
+  // Where holders send requests about their data
+  contactEmail?: string;
+  // Issuance records are deleted this many days after issue; kept while certificates are verified when omitted
+  retentionDays?: number;
+}
+
+// Optional server capabilities the portal adapts to.
+export interface PortalFeatures {
+  // The server renders and digitally signs the PDFs (GET /api/certificates/:no/pdf)
+  signedPdf: boolean;
+  // Certificates can be e-mailed to their holder (POST /api/certificates/:no/email)
+  emailDelivery: boolean;
+  // Signed Open Badges credentials can be downloaded (GET /api/certificates/:no/credential and /badge)
+  openBadges: boolean;
+  // Outside service the API sends names to for thank-you messages, named when asking for consent;
+  // unset when messages come from the template pool
+  impactMessageProcessor?: string;
+}
+
+export interface CampaignInfo extends Campaign, PortalFeatures {
+  status: CampaignStatus;
+}
+
+// ---------- Rosters ----------
+
+export interface RosterEntry {
+  name: string;
+  accessCode: string;  // e.g. "7KQ4-M9XD"; generated when the uploaded list has none
+  email?: string;
+}
+
+export interface RosterEntryStatus extends RosterEntry {
+  redemptions: number;
+}
+
+export interface Roster extends RosterSettings {
+  campaignSlug: string;
+  entries: RosterEntryStatus[];
+}
+
+// One row of a coordinator's participant list (CSV/XLSX).
+// The certificate language is chosen once for the whole batch.
+export interface BatchRow extends Omit<IssuerExtras, 'language' | 'translations' | 'activities'> {
+  name: string;
+  academicTitle?: string;
+  impactMessage?: string;
+  certificateNo?: string;
+}
+
+export interface BatchIssuanceResult {
+  batchId: string;
+  certificates: IssuedCertificate[];
+  signedPdf: boolean;
+}
+
+// ---------- Coordinator dashboard ----------
+
+// Counted for the dashboard. The portal reports when the certificate form is shown ("view") and
+// first used ("start"; POST /api/campaigns/:slug/events); the API records quota hits, refused
+// claims (by error code) and impact messages that fell back to the template pool ("failed" or
+// "filtered").
+export type PortalEventKind = 'view' | 'start' | 'quotaReached' | 'error' | 'impactFallback';
+
+// Events are only kept as daily counts, without anything about the visitor.
+export interface PortalEventCount {
+  day: string;  // YYYY-MM-DD (UTC)
+  campaignSlug: string;
+  kind: PortalEventKind;
+  code?: string;
+  count: number;
+}
+
+export type IssuanceSource = 'form' | 'roster' | 'completion' | 'batch' | 'reissue';
+
+// One ledger record as listed on the dashboard (GET /api/dashboard).
+export interface DashboardIssuance {
+  certificateNo: string;
+  name: string;
+  academicTitle?: string;
+  campaignSlug?: string;  // none for coordinator batch lists
+  language: CertificateLanguage;
+  issuedAt: string;
+  source: IssuanceSource;
+  studyTitle?: string;
+  role?: string;
+  totalHours?: number;
+  revokedAt?: string;
+  replaces?: string;
+  emailStatus?: 'sent' | 'failed';
+}
+
+export interface DashboardData {
+  campaigns: { slug: string; title: string }[];
+  issuances: DashboardIssuance[];
+  events: PortalEventCount[];
+}
+
+// ---------- Certificate layout templates ----------
+// Coordinates are millimetres. Strings may anchor to the page:
+// "center", "right-78", "bottom-28", "width-16" (tokens: left, center, right, width,
+// top, middle, bottom, height, optionally followed by +/- an offset).
+
+export type TemplateCoord = number | string;
+export type RgbColor = [number, number, number];
+// An RGB colour, or a colour of the decoration theme's palette
+export type TemplateColor = RgbColor | ThemeColor;
+
+// Places a block below an earlier text block, however many lines that block wrapped to.
+export interface TemplateFlowY {
+  after: string;
+  offset?: number;
+}
+
+interface TemplateElementBase {
+  id?: string;
+  // Placeholder that must be non-empty for the element to be drawn, e.g. "certificateNo"
+  when?: string;
+}
+
+export interface TemplateTextElement extends TemplateElementBase {
+  type: 'text';
+  // Supports {{field}} and conditional sections {{#field}}...{{/field}}
+  text: string;
+  x: TemplateCoord;
+  y: TemplateCoord | TemplateFlowY;
+  size: number;
+  color: TemplateColor;
+  // Font family id from fonts/ (defaults to "roboto")
+  font?: string;
+  style?: 'normal' | 'bold';
+  align?: 'left' | 'center' | 'right';
+  maxWidth?: TemplateCoord;
+  lineHeightFactor?: number;
+  transform?: 'uppercase';
+  // Shrinks a single line to maxWidth instead of wrapping it. With twoLines, text that is still
+  // too wide at minSize is split into two balanced lines at minSize; the extra line goes above y,
+  // so elements placed below the text do not move.
+  shrinkToFit?: { minSize: number; step: number; twoLines?: boolean };
+  // Role in the tagged PDF (defaults to a paragraph) and the language when it is not the certificate's
+  tag?: 'H1' | 'H2' | 'P';
+  lang?: string;
+}
+
+export interface TemplateRectElement extends TemplateElementBase {
+  type: 'rect';
+  x: TemplateCoord;
+  y: TemplateCoord;
+  width: TemplateCoord;
+  height: TemplateCoord;
+  stroke?: TemplateColor;
+  fill?: TemplateColor;
+  lineWidth?: number;
+}
+
+export interface TemplateLineElement extends TemplateElementBase {
+  type: 'line';
+  x1: TemplateCoord;
+  y1: TemplateCoord;
+  x2: TemplateCoord;
+  y2: TemplateCoord;
+  color: TemplateColor;
+  lineWidth: number;
+}
+
+export interface TemplateCircleElement extends TemplateElementBase {
+  type: 'circle';
+  x: TemplateCoord;
+  y: TemplateCoord;
+  radius: number;
+  stroke?: TemplateColor;
+  fill?: TemplateColor;
+  lineWidth?: number;
+}
+
+export interface TemplateDecorationElement extends TemplateElementBase {
+  type: 'decoration';
+  // A fixed ornament, or a slot the decoration theme fills
+  kind: OrnamentKind | OrnamentSlot;
+  x: TemplateCoord;
+  y: TemplateCoord;
+  scale: number;
+  height?: number;  // vertical ornaments ("side") only
+}
+
+// The page frame, drawn in the decoration theme's border style. lineWidths: [heavy, fine].
+export interface TemplateBorderElement extends TemplateElementBase {
+  type: 'border';
+  inset: number;
+  gap: number;
+  lineWidths: [number, number];
+}
+
+export interface TemplateQRElement extends TemplateElementBase {
+  type: 'qr';
+  value: string;
+  x: TemplateCoord;
+  y: TemplateCoord;
+  size: number;
+}
+
+// A PNG/JPEG data URL (e.g. "{{signatureImage}}"), scaled to fit the box, centred and sitting on its bottom edge.
+export interface TemplateImageElement extends TemplateElementBase {
+  type: 'image';
+  src: string;
+  x: TemplateCoord;
+  y: TemplateCoord;
+  width: TemplateCoord;
+  height: TemplateCoord;
+}
+
+export type TemplateElement =
+  | TemplateTextElement
+  | TemplateImageElement
+  | TemplateRectElement
+  | TemplateLineElement
+  | TemplateCircleElement
+  | TemplateDecorationElement
+  | TemplateBorderElement
+  | TemplateQRElement;
+
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  page: {
+    format: 'a4' | 'a5' | [number, number];
+    orientation: 'portrait' | 'landscape';
+  };
+  // Overrides the localized wording (i18n/pdfStrings.ts) for placeholders the certificate data leaves empty
+  defaults: Record<string, string>;
+  elements: TemplateElement[];
+}
+
+// ---------- Decoration themes ----------
+// Ornaments, colours and border style by discipline (themes/index.ts). Templates place the
+// ornament slots and refer to palette colours; the theme decides what is drawn there.
+
+export type OrnamentKind =
+  | 'atom' | 'dna' | 'microscope'
+  | 'neuron' | 'network' | 'brain'
+  | 'planet' | 'stars' | 'telescope'
+  | 'survey' | 'trend' | 'chart'
+  | 'flourish' | 'laurel';
+
+// corner: small ornament in a page corner; side: vertical band along an edge; emblem: above the title
+export type OrnamentSlot = 'corner' | 'side' | 'emblem';
+
+export type ThemeColor = 'primary' | 'secondary' | 'accent' | 'muted';
+
+export type BorderStyle = 'double' | 'single' | 'corners' | 'none';
+
+export interface DecorationTheme {
+  id: string;
+  name: string;
+  // primary: title and fine lines; secondary: heavy lines and ornament bodies; accent: highlights;
+  // muted: ornament details
+  palette: Record<ThemeColor, RgbColor>;
+  border: BorderStyle;
+  // An empty slot draws nothing
+  ornaments: Record<OrnamentSlot, OrnamentKind | null>;
+}
+
+// ---------- Print sheets ----------
+// Certificates imposed several to a sheet for printing on card stock (utils/printLayout.ts).
+
+export type PaperFormat = 'a4' | 'a3' | 'sra3' | 'letter' | 'tabloid';
+
+export interface PrintOptions {
+  // Sheet size; [width, height] in mm for other papers
+  paper: PaperFormat | [number, number];
+  // Whichever holds more certificates when omitted
+  orientation?: 'portrait' | 'landscape';
+  // Millimetres of background printed beyond each trim line
+  bleed: number;
+  cropMarks: boolean;
+  // Millimetres inside the trim line that borders and ornaments keep clear of
+  safeMargin: number;
+  // Drawn on a back sheet after each sheet, for double-sided printing
+  back?: CertificateTemplate;
+}
@@ -0,0 +1,46 @@
+import JSZip from 'jszip';
+import { certificateFileName } from './pdfUtils';
+import { buildVerifyUrl } from './routing';
+import { certificatePdf, printSheetsPdf } from '../services/certificateDocumentService';
+import { IssuedCertificate, PaperFormat } from '../types';
+
+// ---------- Batch output: one ZIP with every PDF plus a manifest ----------
+
+export const PRINT_SHEETS_FILE = 'print_sheets.pdf';
+
+const csvCell = (value: string): string =>
+  /[",;\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildBatchZip = async (
+  certificates: IssuedCertificate[],
+  signedPdf: boolean,
+  onProgress?: (done: number, total: number) => void,
+  // Also adds every certificate on double-sided print sheets of this paper
+  printPaper?: PaperFormat
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: string[][] = [['#', 'name', 'certificateNo', 'date', 'file', 'verificationUrl']];
+  const padding = String(certificates.length).length;
+
+  // Sequential on purpose: each PDF holds its own copy of the embedded fonts in memory,
+  // and signed PDFs are rendered one at a time by the server.
+  for (let i = 0; i < certificates.length; i++) {
+    const certificate = certificates[i];
+    const verificationUrl = buildVerifyUrl(certificate.certificateNo);
+    const pdf = await certificatePdf(certificate, signedPdf);
+
+    // Prefix with the row number so two volunteers with the same name do not collide.
+    const fileName = `${String(i + 1).padStart(padding, '0')}_${certificateFileName(certificate.name, certificate.language)}`;
+    zip.file(fileName, pdf);
+
+    manifest.push([String(i + 1), certificate.name, certificate.certificateNo, certificate.date, fileName, verificationUrl]);
+    onProgress?.(i + 1, certificates.length);
+  }
+
+  if (printPaper) zip.file(PRINT_SHEETS_FILE, await printSheetsPdf(certificates, printPaper));
+
+  // BOM so Excel opens the manifest as UTF-8.
+  zip.file('manifest.csv', '\uFEFF' + manifest.map((row) => row.map(csvCell).join(',')).join('\r\n'));
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,48 @@
+// ---------- Certificate numbers ----------
+// Format: YYYY-XXXX-XXXX-XXXX using Crockford base32 (no I, L, O, U).
+// 12 random symbols = 60 bits of entropy, so numbers cannot be guessed or enumerated.
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const GROUPS = 3;
+const GROUP_SIZE = 4;
+
+// Random Crockford base32 symbols (5 bits each); also used for roster access codes.
+export const randomSymbols = (count: number): string => {
+  const bytes = new Uint8Array(count);
+  crypto.getRandomValues(bytes);
+
+  // 256 is a multiple of 32, so masking keeps the distribution uniform.
+  return Array.from(bytes, (b) => ALPHABET[b & 31]).join('');
+};
+
+export const generateCertificateNo = (date: Date = new Date()): string => {
+  const symbols = randomSymbols(GROUPS * GROUP_SIZE);
+  const groups: string[] = [];
+  for (let i = 0; i < GROUPS; i++) {
+    groups.push(symbols.slice(i * GROUP_SIZE, (i + 1) * GROUP_SIZE));
+  }
+
+  return `${date.getFullYear()}-${groups.join('-')}`;
+};
+
+// Accepts user-typed numbers (lowercase, missing dashes, O/I/L confusion).
+export const normalizeCertificateNo = (input: string): string => {
+  const cleaned = input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  if (cleaned.length !== 4 + GROUPS * GROUP_SIZE) return cleaned;
+
+  const year = cleaned.slice(0, 4);
+  const rest = cleaned.slice(4);
+  const groups: string[] = [];
+  for (let i = 0; i < GROUPS; i++) {
+    groups.push(rest.slice(i * GROUP_SIZE, (i + 1) * GROUP_SIZE));
+  }
+  return `${year}-${groups.join('-')}`;
+};
+
+export const isValidCertificateNo = (value: string): boolean =>
+  /^\d{4}(-[0-9A-HJKMNP-TV-Z]{4}){3}$/.test(value);
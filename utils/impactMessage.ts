@@ -0,0 +1,71 @@
+// ---------- Impact message moderation ----------
+// Generated thank-you messages are printed on certificates, so they are cleaned up and
+// checked before use. Shared by the portal (before issuing) and the API (on every request).
+
+export const IMPACT_MESSAGE_LIMITS = {
+  maxWords: 25,
+  maxLength: 200
+};
+
+// Links, e-mail addresses, long digit runs (phone numbers, ids) and markup never belong on a certificate.
+const BLOCKED_PATTERNS: RegExp[] = [
+  /https?:\/\//i,
+  /\bwww\./i,
+  /\S+@\S+\.\S+/,
+  /\d[\d\s-]{6,}\d/,
+  /<[^>]*>/,
+  /[{}[\]\\|`]/
+];
+
+// Model chatter ("As an AI...") and words that should not appear in a thank-you note.
+const BLOCKED_PHRASES = [
+  'as an ai', 'language model', 'i cannot', "i can't", 'here is', "here's a",
+  'yapay zeka olarak', 'dil modeli', 'işte size', 'işte bir'
+];
+const BLOCKED_WORDS = new Set([
+  'stupid', 'idiot', 'damn', 'hate', 'kill', 'sex',
+  'aptal', 'salak', 'gerizekalı', 'lanet', 'kahretsin', 'nefret', 'öldür'
+]);
+
+const LABEL_PREFIX = /^(?:mesaj|teşekkür mesajı|message|thank-you message)\s*:\s*/i;
+const QUOTES = /^["'“”‘’«»]+|["'“”‘’«»]+$/g;
+
+// Turkish lowercasing maps "I" to "ı", which would hide English words, so both forms are checked.
+const lowerForms = (text: string): string[] => [text.toLocaleLowerCase('tr-TR'), text.toLowerCase()];
+
+const wordsOf = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+
+const withinLimits = (text: string): boolean =>
+  text.length <= IMPACT_MESSAGE_LIMITS.maxLength && wordsOf(text).length <= IMPACT_MESSAGE_LIMITS.maxWords;
+
+const normalize = (raw: string): string => {
+  const text = raw
+    .replace(/[*_#>~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LABEL_PREFIX, '')
+    .replace(QUOTES, '')
+    .trim();
+  return text && !/[.!?…]$/.test(text) ? `${text}.` : text;
+};
+
+// Returns the message as it should be printed, or null when it must not be used.
+// Overlong messages are cut back to their first sentence if that one fits.
+export const moderateImpactMessage = (raw: string): string | null => {
+  let text = normalize(raw);
+  if (!text) return null;
+
+  if (!withinLimits(text)) {
+    const firstSentence = /^.*?[.!?…](?=\s|$)/.exec(text)?.[0];
+    if (!firstSentence || !withinLimits(firstSentence)) return null;
+    text = firstSentence;
+  }
+
+  const lower = lowerForms(text);
+  if (BLOCKED_PATTERNS.some((pattern) => pattern.test(text))) return null;
+  if (BLOCKED_PHRASES.some((phrase) => lower.some((form) => form.includes(phrase)))) return null;
+  if (lower.flatMap(wordsOf).some((word) => BLOCKED_WORDS.has(word))) return null;
+
+  return text;
+};
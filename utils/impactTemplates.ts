@@ -0,0 +1,41 @@
+import { ImpactMessageRequest, Locale } from '../types';
+
+// ---------- Impact message templates ----------
+// The portal writes the message from these when the visitor keeps their name to themselves,
+// the API when its provider fails or is filtered.
+
+// Works offline: picks one of a fixed set of messages, always the same one for a given
+// name and study, so a re-issued certificate carries the same wording.
+const POOL: Record<Locale, string[]> = {
+  tr: [
+    'Bilimsel araştırmalarımıza sunduğunuz değerli katkılar için teşekkür ederiz.',
+    'Katkılarınız, araştırma sürecimizin niteliğini ve güvenilirliğini güçlendirdi.',
+    'Ayırdığınız zaman ve gösterdiğiniz özen, bilimin ilerlemesine doğrudan katkı sağladı.',
+    'Gönüllü katılımınız, bulgularımızın daha sağlam temellere oturmasına yardımcı oldu.',
+    'Desteğiniz sayesinde araştırmamız bir adım daha ileri taşındı; içtenlikle teşekkür ederiz.',
+    'Bilime gönül veren katkınız, çalışmamızın en değerli parçalarından biri oldu.'
+  ],
+  en: [
+    'Thank you for your valuable contribution to our scientific research.',
+    'Your contribution strengthened the quality and reliability of our research.',
+    'The time and care you gave directly helped science move forward.',
+    'Your voluntary participation helped put our findings on firmer ground.',
+    'Thanks to your support, our research has taken another step forward.',
+    'Your commitment to science was one of the most valuable parts of our study.'
+  ]
+};
+
+// FNV-1a; stable across browsers and sessions.
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const templateImpactMessage = ({ name, locale, study, attempt = 0 }: ImpactMessageRequest): string => {
+  const pool = POOL[locale];
+  return pool[(hash(`${name.trim().toLocaleLowerCase('tr-TR')}|${study ?? ''}`) + attempt) % pool.length];
+};
@@ -0,0 +1,123 @@
+import * as XLSX from 'xlsx';
+import { DashboardIssuance, IssuanceSource, PortalEventCount } from '../types';
+
+// ---------- Issuance reports ----------
+// Filtering, counting and exporting the ledger as listed on the coordinator dashboard
+// (e.g. for ethics committee reports).
+
+export const ISSUANCE_SOURCES: IssuanceSource[] = ['form', 'roster', 'completion', 'batch', 'reissue'];
+
+export interface IssuanceFilter {
+  query: string;         // part of the name or certificate number
+  campaignSlug: string;  // '' for all
+  source: IssuanceSource | '';
+  status: 'active' | 'revoked' | '';
+  from: string;          // YYYY-MM-DD, inclusive; '' for no limit
+  to: string;
+}
+
+export const EMPTY_FILTER: IssuanceFilter = { query: '', campaignSlug: '', source: '', status: '', from: '', to: '' };
+
+const dayOf = (iso: string) => iso.slice(0, 10);
+
+const fold = (text: string) => text.toLocaleLowerCase('tr-TR').replace(/\s+/g, ' ').trim();
+
+const inRange = (day: string, { from, to }: IssuanceFilter) => (!from || day >= from) && (!to || day <= to);
+
+export const filterIssuances = (issuances: DashboardIssuance[], filter: IssuanceFilter): DashboardIssuance[] => {
+  const query = fold(filter.query);
+  return issuances.filter((issuance) =>
+    (!query || fold(`${issuance.academicTitle ?? ''} ${issuance.name}`).includes(query)
+      || fold(issuance.certificateNo).includes(query))
+    && (!filter.campaignSlug || issuance.campaignSlug === filter.campaignSlug)
+    && (!filter.source || issuance.source === filter.source)
+    && (!filter.status || (filter.status === 'revoked') === Boolean(issuance.revokedAt))
+    && inRange(dayOf(issuance.issuedAt), filter));
+};
+
+// Event counts have no holder or source, so only the campaign and dates apply.
+export const filterEvents = (events: PortalEventCount[], filter: IssuanceFilter): PortalEventCount[] =>
+  events.filter((event) =>
+    (!filter.campaignSlug || event.campaignSlug === filter.campaignSlug) && inRange(event.day, filter));
+
+// ---------- Counts for the charts ----------
+
+export interface Bucket {
+  key: string;
+  count: number;
+}
+
+const MAX_DAILY_BUCKETS = 62;
+
+const nextDay = (day: string) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+// Issuances per day (YYYY-MM-DD) from the first to the last one, days without any included;
+// spans of more than two months are counted per month (YYYY-MM).
+export const issuancesOverTime = (issuances: DashboardIssuance[]): Bucket[] => {
+  if (issuances.length === 0) return [];
+  const days = issuances.map((issuance) => dayOf(issuance.issuedAt)).sort();
+  const first = days[0];
+  const last = days[days.length - 1];
+
+  const keys: string[] = [];
+  for (let day = first; day <= last; day = nextDay(day)) keys.push(day);
+  const monthly = keys.length > MAX_DAILY_BUCKETS;
+  const keyOf = (day: string) => (monthly ? day.slice(0, 7) : day);
+
+  const counts = new Map<string, number>([...new Set(keys.map(keyOf))].map((key) => [key, 0]));
+  for (const day of days) counts.set(keyOf(day), counts.get(keyOf(day))! + 1);
+  return [...counts].map(([key, count]) => ({ key, count }));
+};
+
+// Issuances per campaign, most first; batch lists without a campaign count under ''.
+export const issuancesPerCampaign = (issuances: DashboardIssuance[]): Bucket[] => {
+  const counts = new Map<string, number>();
+  for (const issuance of issuances) {
+    const key = issuance.campaignSlug ?? '';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+// Event totals by code (e.g. errors per error code), most first.
+export const eventsByCode = (events: PortalEventCount[]): Bucket[] => {
+  const counts = new Map<string, number>();
+  for (const event of events) counts.set(event.code ?? '', (counts.get(event.code ?? '') ?? 0) + event.count);
+  return [...counts].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+// ---------- Export ----------
+
+const reportRows = (issuances: DashboardIssuance[], campaignTitles: Map<string, string>) =>
+  issuances.map((issuance) => ({
+    certificateNo: issuance.certificateNo,
+    academicTitle: issuance.academicTitle ?? '',
+    name: issuance.name,
+    campaign: issuance.campaignSlug ? campaignTitles.get(issuance.campaignSlug) ?? issuance.campaignSlug : '',
+    studyTitle: issuance.studyTitle ?? '',
+    role: issuance.role ?? '',
+    totalHours: issuance.totalHours ?? '',
+    language: issuance.language,
+    issuedAt: issuance.issuedAt,
+    source: issuance.source,
+    status: issuance.revokedAt ? 'revoked' : 'active',
+    revokedAt: issuance.revokedAt ?? '',
+    replaces: issuance.replaces ?? '',
+    email: issuance.emailStatus ?? ''
+  }));
+
+export const issuanceReportCsv = (issuances: DashboardIssuance[], campaignTitles: Map<string, string>): Blob => {
+  const sheet = XLSX.utils.json_to_sheet(reportRows(issuances, campaignTitles));
+  return new Blob(['\uFEFF' + XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+};
+
+export const issuanceReportXlsx = (issuances: DashboardIssuance[], campaignTitles: Map<string, string>): Blob => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(reportRows(issuances, campaignTitles)), 'Sertifikalar');
+  const bytes: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,88 @@
+import { PDF_STRINGS } from '../i18n/pdfStrings';
+import { dateLocaleTag, primaryLocale } from '../i18n';
+import { displayName } from './personName';
+import { participationSummary } from './participation';
+import { CertificateInput, OpenBadgeCredential, OpenBadgeProfile } from '../types';
+
+// ---------- Open Badges 3.0 ----------
+// The same certificate data as the PDF, as a credential that wallets, portfolios and
+// profile pages understand. The server adds the issuer's signature (server/credentials.ts).
+
+export const OPEN_BADGE_CONTEXT = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+];
+
+export interface OpenBadgeOptions {
+  issuerId: string;      // e.g. the issuer key's did:key
+  achievementId: string; // the campaign page, or a urn when the portal address is unknown
+  portalUrl?: string;
+  // Revocation list of this credential; without it, a later revocation cannot be seen by verifiers
+  statusUrl?: string;
+}
+
+type IssuedInput = CertificateInput & { certificateNo: string; issuedAt: string };
+
+// The verification page when the portal address is known, so the id resolves for people as well.
+export const openBadgeCredentialId = (certificateNo: string, verificationUrl: string | undefined): string =>
+  verificationUrl ?? `urn:certificate-no:${certificateNo}`;
+
+// Participation days are calendar dates; the credential wants date-times.
+const startOfDay = (day: string | undefined) => (day ? `${day}T00:00:00Z` : undefined);
+
+export const buildOpenBadgeCredential = (data: IssuedInput, options: OpenBadgeOptions): OpenBadgeCredential => {
+  const locale = primaryLocale(data.language ?? 'tr');
+  const strings = PDF_STRINGS[locale];
+  const issuer: OpenBadgeProfile = {
+    id: options.issuerId,
+    type: ['Profile'],
+    name: data.institution ?? strings.institution,
+    url: options.portalUrl || undefined
+  };
+  // The introduction as printed on the certificate
+  const narrative = data.introText
+    ?? (data.studyTitle ? strings.introTextStudy.replace('{{studyTitle}}', data.studyTitle) : strings.introText);
+
+  return {
+    '@context': OPEN_BADGE_CONTEXT,
+    id: openBadgeCredentialId(data.certificateNo, data.verificationUrl),
+    type: ['VerifiableCredential', 'OpenBadgeCredential'],
+    issuer,
+    name: strings.title,
+    validFrom: data.issuedAt,
+    credentialSubject: {
+      type: ['AchievementSubject'],
+      identifier: [{ type: 'IdentityObject', identityHash: displayName(data), identityType: 'name', hashed: false }],
+      achievement: {
+        id: options.achievementId,
+        type: ['Achievement'],
+        name: data.studyTitle ?? data.departmentOrUnit ?? strings.departmentOrUnit,
+        description: participationSummary(data, locale) || narrative,
+        criteria: { narrative },
+        creator: issuer,
+        inLanguage: dateLocaleTag(locale)
+      },
+      activityStartDate: startOfDay(data.startDate),
+      activityEndDate: startOfDay(data.endDate),
+      role: data.role
+    },
+    evidence: data.impactMessage ? [{ type: ['Evidence'], narrative: data.impactMessage }] : undefined,
+    credentialStatus: options.statusUrl ? { id: options.statusUrl, type: '1EdTechRevocationList' } : undefined
+  };
+};
+
+// LinkedIn's "Add to profile" form, pre-filled with the certificate.
+export const addToProfileUrl = (data: IssuedInput): string => {
+  const strings = PDF_STRINGS[primaryLocale(data.language ?? 'tr')];
+  const issued = new Date(data.issuedAt);
+  const params = new URLSearchParams({
+    startTask: 'CERTIFICATION_NAME',
+    name: data.studyTitle ? `${strings.title} – ${data.studyTitle}` : strings.title,
+    organizationName: data.institution ?? strings.institution,
+    issueYear: String(issued.getFullYear()),
+    issueMonth: String(issued.getMonth() + 1),
+    certId: data.certificateNo
+  });
+  if (data.verificationUrl) params.set('certUrl', data.verificationUrl);
+  return `https://www.linkedin.com/profile/add?${params}`;
+};
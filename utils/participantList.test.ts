@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as XLSX from 'xlsx';
+import { parseParticipantFile, readWorkbook } from './participantList';
+
+// Participant lists are read as typed: certificate numbers that look like numbers or dates keep
+// their exact text, and the date columns accept the usual spellings from both CSV and Excel.
+
+const csvFile = (text: string) => new File([text], 'liste.csv', { type: 'text/csv' });
+
+const firstSheetRows = async (file: File) => {
+  const workbook = await readWorkbook(file);
+  return XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], { header: 1, raw: false, defval: '' });
+};
+
+test('CSV values that look like numbers or dates keep their text', async () => {
+  const rows = await firstSheetRows(csvFile('name;certificateNo;totalHours\nAyşe Yılmaz;2025-0007;7,5\nAli Veli;00123;1e3\n'));
+  assert.deepEqual(rows, [
+    ['name', 'certificateNo', 'totalHours'],
+    ['Ayşe Yılmaz', '2025-0007', '7,5'],
+    ['Ali Veli', '00123', '1e3']
+  ]);
+});
+
+test('CSV dates in ISO and Turkish spelling become calendar days', async () => {
+  const { rows } = await parseParticipantFile(csvFile(
+    'Ad Soyad,Belge No,Başlangıç Tarihi,Bitiş Tarihi\nAyşe Yılmaz,2025-0007,09.03.2026,2026-03-09\n'
+  ));
+  assert.equal(rows.length, 1);
+  assert.deepEqual(rows[0].errors, []);
+  assert.equal(rows[0].row.certificateNo, '2025-0007');
+  assert.equal(rows[0].row.startDate, '2026-03-09');
+  assert.equal(rows[0].row.endDate, '2026-03-09');
+});
+
+test('XLSX cells are read as displayed, dates as calendar days', async () => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['name', 'certificateNo', 'startDate', 'endDate', 'totalHours'],
+    ['Ayşe Yılmaz', 7, 46090, '09.03.2026', 7.5]
+  ]);
+  sheet.B2.z = '"2025-"0000';
+  sheet.C2.z = 'm/d/yy';
+  const data = XLSX.write({ SheetNames: ['Liste'], Sheets: { Liste: sheet } }, { type: 'array', bookType: 'xlsx' });
+
+  const { rows } = await parseParticipantFile(new File([data], 'liste.xlsx'));
+  assert.deepEqual(rows[0].errors, []);
+  assert.deepEqual(rows[0].row, {
+    name: 'Ayşe Yılmaz',
+    certificateNo: '2025-0007',
+    startDate: '2026-03-09',
+    endDate: '2026-03-09',
+    totalHours: 7.5
+  });
+});
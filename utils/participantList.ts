@@ -0,0 +1,193 @@
+import * as XLSX from 'xlsx';
+import { NAME_ERROR_MESSAGES, checkPersonName } from './personName';
+import { parseDay, parseHours } from './participation';
+import { BatchRow, RosterEntry } from '../types';
+
+// ---------- Participant list import (CSV / XLSX) ----------
+
+export interface ParsedParticipantRow {
+  line: number;          // 1-based line in the source file (header is line 1)
+  row: BatchRow;
+  errors: string[];
+}
+
+export interface ParsedParticipantList {
+  rows: ParsedParticipantRow[];
+  unknownColumns: string[];
+}
+
+type BatchField = keyof BatchRow;
+
+// Accepted header spellings, compared after normalizeHeader().
+const COLUMN_ALIASES: Record<BatchField, string[]> = {
+  name: ['name', 'fullname', 'adsoyad', 'adisoyadi', 'isim', 'katilimci'],
+  academicTitle: ['academictitle', 'akademikunvan', 'katilimciunvani'],
+  certificateNo: ['certificateno', 'belgeno', 'sertifikano'],
+  coordinatorName: ['coordinatorname', 'koordinator', 'koordinatoradi'],
+  coordinatorTitle: ['coordinatortitle', 'koordinatorunvani', 'unvan'],
+  location: ['location', 'yer', 'sehir'],
+  institution: ['institution', 'kurum'],
+  departmentOrUnit: ['departmentorunit', 'department', 'unit', 'birim', 'bolum'],
+  impactMessage: ['impactmessage', 'mesaj', 'tesekkurmesaji'],
+  introText: ['introtext', 'girismetni'],
+  closingText: ['closingtext', 'kapanismetni'],
+  studyTitle: ['studytitle', 'study', 'calisma', 'calismaadi', 'calismabasligi'],
+  ethicsApprovalNo: ['ethicsapprovalno', 'ethicsapproval', 'etikkurul', 'etikkurulno', 'etikkurulonayno'],
+  role: ['role', 'rol', 'katilimrolu', 'gorev'],
+  startDate: ['startdate', 'baslangic', 'baslangictarihi'],
+  endDate: ['enddate', 'bitis', 'bitistarihi'],
+  totalHours: ['totalhours', 'hours', 'saat', 'toplamsaat', 'sure']
+};
+
+const normalizeHeader = (header: string): string =>
+  header
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ğ/g, 'g').replace(/ü/g, 'u').replace(/ş/g, 's')
+    .replace(/ı/g, 'i').replace(/ö/g, 'o').replace(/ç/g, 'c')
+    .replace(/[^a-z0-9]/g, '');
+
+const fieldForHeader = <F extends string>(aliases: Record<F, string[]>, header: string): F | null => {
+  const normalized = normalizeHeader(header);
+  const match = (Object.keys(aliases) as F[]).find((field) => aliases[field].includes(normalized));
+  return match ?? null;
+};
+
+// Number formats that show a calendar day ("m/d/yy", "dd.mm.yyyy", "[$-41F]d mmmm yyyy"), once
+// quoted literals, [locale/colour] blocks and escaped characters are left out.
+const isDayFormat = (format: string): boolean => /[dy]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+// Excel counts days from 1899-12-30 (from 1904-01-01 in 1904-based workbooks).
+const serialDay = (serial: number, date1904: boolean): string =>
+  new Date(Date.UTC(1899, 11, 30) + (Math.floor(serial) + (date1904 ? 1462 : 0)) * 86400000).toISOString().slice(0, 10);
+
+// Spreadsheet cells are read as the text Excel shows (their "w"), so "0007" or "2025-0007" stay
+// as typed. Date cells are the exception: their shown text follows the sheet's locale ("3/9/26"),
+// so they become YYYY-MM-DD from the serial day number instead.
+const withIsoDays = (workbook: XLSX.WorkBook): XLSX.WorkBook => {
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  for (const sheet of Object.values(workbook.Sheets)) {
+    for (const [address, cell] of Object.entries(sheet)) {
+      if (address.startsWith('!') || cell.t !== 'n' || typeof cell.z !== 'string' || !isDayFormat(cell.z)) continue;
+      cell.w = serialDay(cell.v, date1904);
+    }
+  }
+  return workbook;
+};
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    return withIsoDays(XLSX.read(await file.arrayBuffer(), { type: 'array', cellNF: true }));
+  }
+  // CSV: decode as UTF-8 ourselves (SheetJS would otherwise guess a legacy codepage);
+  // the delimiter (comma or semicolon) is detected by SheetJS. raw keeps every value as the
+  // text in the file: without it "2025-0007" would be taken for a date and "00123" for a number.
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  return XLSX.read(text, { type: 'string', raw: true });
+};
+
+// Reads the first sheet and maps its header row onto known fields; a name column is required.
+const readColumns = async <F extends string>(file: File, aliases: Record<F, string[]>) => {
+  const workbook = await readWorkbook(file);
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('Dosyada okunabilir bir sayfa bulunamadı.');
+
+  const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '' });
+  const [headers = [], ...body] = table;
+
+  const columns = headers.map((h) => fieldForHeader(aliases, String(h)));
+  if (!columns.includes('name' as F)) {
+    throw new Error('Dosyada "name" (veya "Ad Soyad") sütunu bulunamadı.');
+  }
+
+  const unknownColumns = headers.filter((h, i) => String(h).trim() && columns[i] === null).map(String);
+  return { columns, body, unknownColumns };
+};
+
+export const parseParticipantFile = async (file: File): Promise<ParsedParticipantList> => {
+  const { columns, body, unknownColumns } = await readColumns(file, COLUMN_ALIASES);
+  const seenNumbers = new Map<string, number>();
+  const rows: ParsedParticipantRow[] = [];
+
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => !String(cell).trim())) return;
+
+    const row: BatchRow = { name: '' };
+    const line = index + 2;
+    const errors: string[] = [];
+    columns.forEach((field, i) => {
+      const value = String(cells[i] ?? '').trim();
+      if (!field || !value) return;
+      if (field === 'totalHours') {
+        const hours = parseHours(value);
+        if (hours === null) errors.push(`Toplam saat geçersiz: "${value}".`);
+        else row.totalHours = hours;
+      } else if (field === 'startDate' || field === 'endDate') {
+        const day = parseDay(value);
+        if (!day) errors.push(`Tarih geçersiz: "${value}" (GG.AA.YYYY veya YYYY-AA-GG).`);
+        else row[field] = day;
+      } else {
+        row[field] = value;
+      }
+    });
+    if (row.startDate && row.endDate && row.startDate > row.endDate) errors.push('Başlangıç tarihi bitiş tarihinden sonra olamaz.');
+
+    const checked = checkPersonName(row.name);
+    if (!checked.ok) errors.push(NAME_ERROR_MESSAGES[checked.error]);
+    if (row.certificateNo) {
+      const firstLine = seenNumbers.get(row.certificateNo);
+      if (firstLine) errors.push(`Belge numarası ${firstLine}. satırda da kullanılmış.`);
+      else seenNumbers.set(row.certificateNo, line);
+    }
+
+    rows.push({ line, row, errors });
+  });
+
+  return { rows, unknownColumns };
+};
+
+// ---------- Roster import ----------
+// Same file formats as the batch list; access codes are generated by the server when the column is empty.
+
+export interface ParsedRosterRow {
+  line: number;
+  entry: Partial<RosterEntry> & { name: string };
+  errors: string[];
+}
+
+const ROSTER_ALIASES: Record<keyof RosterEntry, string[]> = {
+  name: COLUMN_ALIASES.name,
+  accessCode: ['accesscode', 'code', 'kod', 'erisimkodu'],
+  email: ['email', 'eposta', 'mail']
+};
+
+export const parseRosterFile = async (file: File): Promise<{ rows: ParsedRosterRow[]; unknownColumns: string[] }> => {
+  const { columns, body, unknownColumns } = await readColumns(file, ROSTER_ALIASES);
+  const rows: ParsedRosterRow[] = [];
+
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => !String(cell).trim())) return;
+
+    const entry: ParsedRosterRow['entry'] = { name: '' };
+    columns.forEach((field, i) => {
+      const value = String(cells[i] ?? '').trim();
+      if (field && value) entry[field] = value;
+    });
+
+    const errors: string[] = [];
+    const checked = checkPersonName(entry.name);
+    if (!checked.ok) errors.push(NAME_ERROR_MESSAGES[checked.error]);
+    if (entry.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry.email)) errors.push('E-posta adresi geçersiz.');
+
+    rows.push({ line: index + 2, entry, errors });
+  });
+
+  return { rows, unknownColumns };
+};
+
+// Codes to send out by mail merge; the BOM keeps Turkish characters intact in Excel.
+export const rosterCsv = (entries: RosterEntry[]): Blob => {
+  const sheet = XLSX.utils.json_to_sheet(
+    entries.map(({ name, accessCode, email }) => ({ name, accessCode, email: email ?? '' }))
+  );
+  return new Blob(['\uFEFF' + XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,74 @@
+import { PDF_STRINGS } from '../i18n/pdfStrings';
+import { dateLocaleTag, formatCertificateDate } from '../i18n';
+import { Locale, ParticipationActivity, ParticipationDetails } from '../types';
+
+// ---------- Participation details ----------
+// Study title, role, dates and hours as printed on certificates and shown on the verification
+// page. Dates are calendar days (YYYY-MM-DD), formatted without any time zone shift.
+
+export const MAX_TOTAL_HOURS = 10000;
+
+const ISO_DAY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DOTTED_DAY = /^(\d{1,2})[./](\d{1,2})[./](\d{4})$/;
+
+const isRealDay = (year: number, month: number, day: number): boolean => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// Accepts "2026-03-01" and the Turkish "01.03.2026" (or "01/03/2026"); returns YYYY-MM-DD.
+export const parseDay = (value: unknown): string | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const iso = ISO_DAY.exec(text);
+  const dotted = DOTTED_DAY.exec(text);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : dotted ? [Number(dotted[3]), Number(dotted[2]), Number(dotted[1])] : [0, 0, 0];
+  if (!year || !isRealDay(year, month, day)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Positive hours, "7,5" or "7.5"; null when the value is not usable.
+export const parseHours = (value: unknown): number | null => {
+  const hours = typeof value === 'number' ? value : Number(String(value ?? '').trim().replace(',', '.'));
+  return Number.isFinite(hours) && hours > 0 && hours <= MAX_TOTAL_HOURS ? Math.round(hours * 100) / 100 : null;
+};
+
+export const formatDay = (day: string, locale: Locale): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return formatCertificateDate(new Date(year, month - 1, date), locale);
+};
+
+export const formatHours = (hours: number, locale: Locale): string => {
+  const strings = PDF_STRINGS[locale];
+  return `${hours.toLocaleString(dateLocaleTag(locale))} ${hours === 1 ? strings.hourUnit : strings.hoursUnit}`;
+};
+
+export const formatPeriod = ({ startDate, endDate }: ParticipationDetails, locale: Locale): string => {
+  if (startDate && endDate && startDate !== endDate) return `${formatDay(startDate, locale)} – ${formatDay(endDate, locale)}`;
+  const day = startDate ?? endDate;
+  return day ? formatDay(day, locale) : '';
+};
+
+export const hasParticipationDetails = (details: ParticipationDetails): boolean =>
+  Boolean(details.studyTitle || details.ethicsApprovalNo || details.role || details.startDate
+    || details.endDate || details.totalHours);
+
+// One line for the certificate: "Study (Ethics approval no: …) · Role · Period · 12 hours".
+export const participationSummary = (details: ParticipationDetails, locale: Locale): string => {
+  const strings = PDF_STRINGS[locale];
+  const ethics = details.ethicsApprovalNo ? `${strings.ethicsApprovalLabel}: ${details.ethicsApprovalNo}` : '';
+  const study = details.studyTitle
+    ? `${details.studyTitle}${ethics ? ` (${ethics})` : ''}`
+    : ethics;
+
+  return [
+    study,
+    details.role ?? '',
+    formatPeriod(details, locale),
+    details.totalHours ? formatHours(details.totalHours, locale) : ''
+  ].filter(Boolean).join(' · ');
+};
+
+export const activityDescription = (activity: ParticipationActivity, locale: Locale): string =>
+  (locale === 'en' ? activity.translations?.en?.description : undefined) ?? activity.description;
@@ -0,0 +1,227 @@
+import { jsPDF } from 'jspdf';
+import { pdfWriter } from './pdfTags';
+
+// ---------- PDF/A-2b ----------
+// Archival certificates: the document properties repeated as XMP metadata (plus who holds the
+// certificate, who issued it and for which study), and an sRGB output intent so the colours
+// are defined without the viewer's help. Fonts are always embedded by the renderer.
+
+export const CREATOR_TOOL = 'Scientific Volunteer Portal';
+
+export interface ArchivalMetadata {
+  title: string;
+  author: string;    // the issuing institution
+  subject: string;
+  keywords: string;
+  language: string;
+  holder: string;
+  issuer: string;
+  certificateNo?: string;
+  study: string;
+}
+
+const CERTIFICATE_NS = 'urn:scientific-certificate-portal:xmp:certificate:1.0:';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// jsPDF's "D:20260301120000+03'00'" as XMP's "2026-03-01T12:00:00+03:00".
+const xmpDate = (pdfDate: string): string => {
+  const match = /^D:(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})([+-])(\d{2})'(\d{2})'$/.exec(pdfDate);
+  if (!match) throw new Error(`Unexpected PDF date "${pdfDate}"`);
+  const [, year, month, day, hour, minute, second, sign, zoneHour, zoneMinute] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${sign}${zoneHour}:${zoneMinute}`;
+};
+
+// Properties outside the predefined XMP schemas must be described for PDF/A validators.
+const CERTIFICATE_SCHEMA = [
+  ['holder', 'Certificate holder'],
+  ['issuer', 'Issuing institution'],
+  ['certificateNo', 'Certificate number'],
+  ['study', 'Study or unit the participation was in']
+].map(([name, description]) => `
+          <rdf:li rdf:parseType="Resource">
+            <pdfaProperty:name>${name}</pdfaProperty:name>
+            <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+            <pdfaProperty:category>external</pdfaProperty:category>
+            <pdfaProperty:description>${description}</pdfaProperty:description>
+          </rdf:li>`).join('');
+
+const xmpPacket = (meta: ArchivalMetadata, producer: string, createDate: string): string => {
+  const x = escapeXml;
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>2</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${x(meta.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${x(meta.author)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${x(meta.subject)}</rdf:li></rdf:Alt></dc:description>
+      <dc:language><rdf:Bag><rdf:li>${x(meta.language)}</rdf:li></rdf:Bag></dc:language>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>${x(producer)}</pdf:Producer>
+      <pdf:Keywords>${x(meta.keywords)}</pdf:Keywords>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreateDate>${createDate}</xmp:CreateDate>
+      <xmp:CreatorTool>${CREATOR_TOOL}</xmp:CreatorTool>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:cert="${CERTIFICATE_NS}">
+      <cert:holder>${x(meta.holder)}</cert:holder>
+      <cert:issuer>${x(meta.issuer)}</cert:issuer>${meta.certificateNo ? `
+      <cert:certificateNo>${x(meta.certificateNo)}</cert:certificateNo>` : ''}
+      <cert:study>${x(meta.study)}</cert:study>
+    </rdf:Description>
+    <rdf:Description rdf:about=""
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas><rdf:Bag>
+        <rdf:li rdf:parseType="Resource">
+          <pdfaSchema:schema>Volunteer participation certificate</pdfaSchema:schema>
+          <pdfaSchema:namespaceURI>${CERTIFICATE_NS}</pdfaSchema:namespaceURI>
+          <pdfaSchema:prefix>cert</pdfaSchema:prefix>
+          <pdfaSchema:property><rdf:Seq>${CERTIFICATE_SCHEMA}
+          </rdf:Seq></pdfaSchema:property>
+        </rdf:li>
+      </rdf:Bag></pdfaExtension:schemas>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+};
+
+// ---------- sRGB ICC profile ----------
+// A small ICC v2 display profile (D50-adapted sRGB primaries and tone curve), built here rather
+// than shipped as a binary file so the renderer keeps working in the browser and in Node.
+
+const D50: [number, number, number] = [0.9642, 1, 0.8249];
+const SRGB_PRIMARIES: Record<string, [number, number, number]> = {
+  rXYZ: [0.4361, 0.2225, 0.0139],
+  gXYZ: [0.3851, 0.7169, 0.0971],
+  bXYZ: [0.1431, 0.0606, 0.7141]
+};
+const PROFILE_DESCRIPTION = 'sRGB IEC61966-2.1';
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+const s15Fixed16 = (value: number) => uint32(Math.round(value * 65536));
+
+const xyzTag = ([x, y, z]: [number, number, number]) => [...ascii('XYZ '), 0, 0, 0, 0, ...s15Fixed16(x), ...s15Fixed16(y), ...s15Fixed16(z)];
+
+const srgbCurve = (): number[] => {
+  const points = Array.from({ length: 256 }, (_, i) => {
+    const v = i / 255;
+    const linear = v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+    return uint16(Math.round(linear * 65535));
+  });
+  return [...ascii('curv'), 0, 0, 0, 0, ...uint32(points.length), ...points.flat()];
+};
+
+const descriptionTag = (text: string) => [
+  ...ascii('desc'), 0, 0, 0, 0,
+  ...uint32(text.length + 1), ...ascii(text), 0,
+  ...uint32(0), ...uint32(0),              // no Unicode description
+  ...uint16(0), 0, ...new Array(67).fill(0) // no ScriptCode description
+];
+
+const textTag = (text: string) => [...ascii('text'), 0, 0, 0, 0, ...ascii(text), 0];
+
+const buildSrgbProfile = (): Uint8Array => {
+  const curve = srgbCurve();
+  const tags: [string, number[]][] = [
+    ['desc', descriptionTag(PROFILE_DESCRIPTION)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50)],
+    ...Object.entries(SRGB_PRIMARIES).map(([signature, xyz]): [string, number[]] => [signature, xyzTag(xyz)]),
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve]
+  ];
+
+  // Tag data follows the header (128 bytes) and the tag table; the three curves share one copy.
+  const table: number[] = [...uint32(tags.length)];
+  const data: number[] = [];
+  const placed = new Map<number[], number>();
+  let offset = 128 + 4 + tags.length * 12;
+  for (const [signature, bytes] of tags) {
+    if (!placed.has(bytes)) {
+      placed.set(bytes, offset);
+      const padded = [...bytes, ...new Array((4 - (bytes.length % 4)) % 4).fill(0)];
+      data.push(...padded);
+      offset += padded.length;
+    }
+    table.push(...ascii(signature), ...uint32(placed.get(bytes)!), ...uint32(bytes.length));
+  }
+
+  const header = [
+    ...uint32(offset),
+    0, 0, 0, 0,                     // preferred CMM
+    2, 0x10, 0, 0,                  // version 2.1
+    ...ascii('mntr'), ...ascii('RGB '), ...ascii('XYZ '),
+    ...uint16(2026), ...uint16(1), ...uint16(1), 0, 0, 0, 0, 0, 0,
+    ...ascii('acsp'),
+    ...new Array(24).fill(0),       // platform, flags, manufacturer, model, attributes
+    ...uint32(0),                   // perceptual intent
+    ...s15Fixed16(D50[0]), ...s15Fixed16(D50[1]), ...s15Fixed16(D50[2]),
+    ...new Array(48).fill(0)        // creator, profile id, reserved
+  ];
+  return Uint8Array.from([...header, ...table, ...data]);
+};
+
+// jsPDF writes strings byte by byte, so binary data goes in as one char per byte.
+const binaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (const byte of bytes) result += String.fromCharCode(byte);
+  return result;
+};
+
+let srgbProfile: string | undefined;
+
+// ---------- Document setup ----------
+
+// Registers the metadata stream and output intent; call before the document is output.
+export const makeArchival = (doc: jsPDF, meta: ArchivalMetadata) => {
+  const writer = pdfWriter(doc);
+  srgbProfile ??= binaryString(buildSrgbProfile());
+  let metadataId = 0;
+  let intentId = 0;
+
+  writer.events.subscribe('postPutResources', () => {
+    // The same producer and date jsPDF writes into the document information dictionary
+    const createDate = xmpDate(doc.getCreationDate('pdf') as unknown as string);
+    const xmp = binaryString(new TextEncoder().encode(xmpPacket(meta, `jsPDF ${jsPDF.version}`, createDate)));
+    metadataId = writer.newObjectDeferred();
+    writer.newObjectDeferredBegin(metadataId, true);
+    writer.write(`<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>`);
+    writer.write('stream');
+    writer.write(xmp);
+    writer.write('endstream');
+    writer.write('endobj');
+
+    const profileId = writer.newObjectDeferred();
+    writer.newObjectDeferredBegin(profileId, true);
+    writer.write(`<< /N 3 /Length ${srgbProfile!.length} >>`);
+    writer.write('stream');
+    writer.write(srgbProfile!);
+    writer.write('endstream');
+    writer.write('endobj');
+
+    intentId = writer.newObjectDeferred();
+    writer.newObjectDeferredBegin(intentId, true);
+    writer.write(`<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (${PROFILE_DESCRIPTION}) /Info (${PROFILE_DESCRIPTION}) /DestOutputProfile ${profileId} 0 R >>`);
+    writer.write('endobj');
+  });
+
+  writer.events.subscribe('putCatalog', () => {
+    writer.write(`/Metadata ${metadataId} 0 R`);
+    writer.write(`/OutputIntents [${intentId} 0 R]`);
+  });
+};
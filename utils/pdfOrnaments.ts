@@ -0,0 +1,372 @@
+import { jsPDF } from 'jspdf';
+import { BorderStyle, DecorationTheme, OrnamentKind, RgbColor } from '../types';
+
+// ---------- Ornaments ----------
+// Vector ornaments for the decoration themes (themes/index.ts). Each is drawn around (x, y) in
+// millimetres at the given scale, except the vertical bands (dna, network, stars, trend), which
+// start at (x, y) and run down for `height`, 14 × scale wide.
+
+type Palette = DecorationTheme['palette'];
+
+const BAND_WIDTH = 14;
+
+const stroke = (doc: jsPDF, color: RgbColor, width: number) => {
+  doc.setDrawColor(...color);
+  doc.setLineWidth(width);
+};
+
+// A leaf from (x, y) pointing at `angle` (radians): two curves meeting at the tip.
+const leaf = (doc: jsPDF, x: number, y: number, angle: number, length: number, width: number) => {
+  const [dx, dy] = [Math.cos(angle) * length, Math.sin(angle) * length];
+  const [nx, ny] = [-Math.sin(angle) * width, Math.cos(angle) * width];
+  doc.lines([
+    [0.3 * dx + nx, 0.3 * dy + ny, 0.7 * dx + nx, 0.7 * dy + ny, dx, dy],
+    [-0.3 * dx - nx, -0.3 * dy - ny, -0.7 * dx - nx, -0.7 * dy - ny, -dx, -dy]
+  ], x, y, [1, 1], 'F', true);
+};
+
+// ---------- Biomedical ----------
+
+const drawAtom = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  doc.setFillColor(...palette.secondary);
+  doc.circle(x, y, 2.5 * scale, 'F');
+
+  stroke(doc, palette.secondary, 0.4 * scale);
+  doc.ellipse(x, y, 9 * scale, 3 * scale, 'S');
+  doc.ellipse(x, y, 3 * scale, 9 * scale, 'S');
+  doc.circle(x, y, 7 * scale, 'S');
+
+  doc.setFillColor(...palette.accent);
+  doc.circle(x + 9 * scale, y, 1 * scale, 'F');
+  doc.circle(x, y - 9 * scale, 1 * scale, 'F');
+  doc.circle(x - 5 * scale, y + 5 * scale, 1 * scale, 'F');
+};
+
+const drawDNAHelix = (doc: jsPDF, x: number, y: number, height: number, scale: number, palette: Palette) => {
+  const width = BAND_WIDTH * scale;
+  const steps = 12;
+  const stepHeight = height / steps;
+
+  for (let i = 0; i < steps; i++) {
+    const curY = y + i * stepHeight;
+    const offset1 = Math.sin(i * 0.9) * (width / 2);
+    const offset2 = Math.sin(i * 0.9 + Math.PI) * (width / 2);
+
+    const x1 = x + width / 2 + offset1;
+    const x2 = x + width / 2 + offset2;
+
+    stroke(doc, palette.muted, 0.5 * scale);
+    doc.line(x1, curY, x2, curY);
+
+    doc.setFillColor(...palette.secondary);
+    doc.circle(x1, curY, 1.2 * scale, 'F');
+    doc.circle(x2, curY, 1.2 * scale, 'F');
+  }
+};
+
+const drawMicroscope = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  doc.setFillColor(...palette.secondary);
+  stroke(doc, palette.secondary, 0.6 * scale);
+
+  doc.rect(x - 6 * scale, y + 8 * scale, 12 * scale, 2 * scale, 'F');
+  doc.line(x - 3 * scale, y + 8 * scale, x - 3 * scale, y - 2 * scale);
+  doc.line(x - 3 * scale, y - 2 * scale, x + 2 * scale, y - 5 * scale);
+
+  doc.rect(x + 1 * scale, y - 8 * scale, 2.5 * scale, 6 * scale, 'S');
+  doc.line(x + 2 * scale, y - 8 * scale, x + 5 * scale, y - 8 * scale);
+
+  doc.setLineWidth(1 * scale);
+  doc.line(x - 3 * scale, y + 4 * scale, x + 4 * scale, y + 4 * scale);
+};
+
+// ---------- Psychology and neuroscience ----------
+
+const drawNeuron = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  stroke(doc, palette.secondary, 0.6 * scale);
+  doc.setFillColor(...palette.accent);
+  for (const degrees of [20, 95, 160, 215, 300]) {
+    const angle = (degrees * Math.PI) / 180;
+    const end = [x + Math.cos(angle) * 8 * scale, y + Math.sin(angle) * 8 * scale];
+    const fork = [x + Math.cos(angle) * 5 * scale, y + Math.sin(angle) * 5 * scale];
+    doc.line(x, y, end[0], end[1]);
+    for (const turn of [-0.6, 0.6]) {
+      doc.line(fork[0], fork[1], fork[0] + Math.cos(angle + turn) * 3 * scale, fork[1] + Math.sin(angle + turn) * 3 * scale);
+    }
+    doc.circle(end[0], end[1], 0.9 * scale, 'F');
+  }
+  doc.setFillColor(...palette.secondary);
+  doc.circle(x, y, 2.5 * scale, 'F');
+};
+
+// Nodes of a small neural network, each linked to the next two.
+const drawNetwork = (doc: jsPDF, x: number, y: number, height: number, scale: number, palette: Palette) => {
+  const width = BAND_WIDTH * scale;
+  const steps = 10;
+  const nodes = Array.from({ length: steps }, (_, i) => [
+    x + width / 2 + Math.sin(i * 1.7) * (width / 2.4),
+    y + (i * height) / (steps - 1)
+  ]);
+
+  stroke(doc, palette.muted, 0.4 * scale);
+  nodes.forEach(([nx, ny], i) => {
+    for (const [tx, ty] of nodes.slice(i + 1, i + 3)) doc.line(nx, ny, tx, ty);
+  });
+  nodes.forEach(([nx, ny], i) => {
+    doc.setFillColor(...(i % 3 === 1 ? palette.accent : palette.secondary));
+    doc.circle(nx, ny, 1.2 * scale, 'F');
+  });
+};
+
+// A wavy line from (x, y), `waves` full waves over `width`.
+const wave = (doc: jsPDF, x: number, y: number, width: number, amplitude: number, waves: number) => {
+  const half = width / (2 * waves);
+  const segments = Array.from({ length: 2 * waves }, (_, i) => {
+    const a = i % 2 === 0 ? -amplitude : amplitude;
+    return [half / 3, a, (2 * half) / 3, a, half, 0];
+  });
+  doc.lines(segments, x, y, [1, 1], 'S', false);
+};
+
+// Two hemispheres seen from above, with a few folds.
+const drawBrain = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  stroke(doc, palette.secondary, 0.7 * scale);
+  for (const side of [-1, 1]) {
+    const cx = x + side * 3.6 * scale;
+    doc.ellipse(cx, y, 3.4 * scale, 6 * scale, 'S');
+    stroke(doc, palette.muted, 0.4 * scale);
+    for (const row of [-3, 0, 3]) wave(doc, cx - 2.2 * scale, y + row * scale, 4.4 * scale, 0.6 * scale, 2);
+    stroke(doc, palette.secondary, 0.7 * scale);
+  }
+  doc.setFillColor(...palette.accent);
+  doc.circle(x, y - 6.5 * scale, 0.8 * scale, 'F');
+};
+
+// ---------- Astronomy ----------
+
+const drawPlanet = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  doc.setFillColor(...palette.secondary);
+  doc.circle(x, y, 3.5 * scale, 'F');
+  stroke(doc, palette.accent, 0.6 * scale);
+  doc.ellipse(x, y, 7 * scale, 2 * scale, 'S');
+  doc.setFillColor(...palette.accent);
+  doc.circle(x + 6 * scale, y - 5 * scale, 0.9 * scale, 'F');
+};
+
+const sparkle = (doc: jsPDF, x: number, y: number, radius: number) => {
+  doc.line(x - radius, y, x + radius, y);
+  doc.line(x, y - radius, x, y + radius);
+  doc.line(x - radius / 2, y - radius / 2, x + radius / 2, y + radius / 2);
+  doc.line(x - radius / 2, y + radius / 2, x + radius / 2, y - radius / 2);
+};
+
+const drawStars = (doc: jsPDF, x: number, y: number, height: number, scale: number, palette: Palette) => {
+  const width = BAND_WIDTH * scale;
+  const steps = 9;
+  for (let i = 0; i < steps; i++) {
+    const sx = x + width / 2 + Math.sin(i * 2.3) * (width / 2.5);
+    const sy = y + (i * height) / (steps - 1);
+    stroke(doc, i % 2 === 0 ? palette.accent : palette.muted, 0.35 * scale);
+    sparkle(doc, sx, sy, (1 + (i % 3)) * scale);
+    doc.setFillColor(...palette.secondary);
+    doc.circle(x + width - (sx - x), sy + height / (2 * (steps - 1)), 0.5 * scale, 'F');
+  }
+};
+
+const drawTelescope = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  // Tube pointing up and to the right, wider at the lens end
+  const angle = (-30 * Math.PI) / 180;
+  const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+  const [nx, ny] = [-dy, dx];
+  const start = [x - 6 * scale * dx, y - 1 * scale - 6 * scale * dy];
+  const length = 11 * scale;
+  const [back, front] = [0.9 * scale, 1.5 * scale];
+  doc.setFillColor(...palette.secondary);
+  doc.lines([
+    [length * dx + (front - back) * nx, length * dy + (front - back) * ny],
+    [-2 * front * nx, -2 * front * ny],
+    [-length * dx + (front - back) * nx, -length * dy + (front - back) * ny]
+  ], start[0] + back * nx, start[1] + back * ny, [1, 1], 'F', true);
+
+  doc.setFillColor(...palette.accent);
+  doc.circle(start[0] + length * dx, start[1] + length * dy, 1.1 * scale, 'F');
+
+  // Tripod
+  stroke(doc, palette.secondary, 0.6 * scale);
+  const mount = [x, y + 0.5 * scale];
+  for (const foot of [-4, 0, 4]) doc.line(mount[0], mount[1], x + foot * scale, y + 8 * scale);
+};
+
+// ---------- Social sciences ----------
+
+const drawSurvey = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  stroke(doc, palette.secondary, 0.5 * scale);
+  doc.roundedRect(x - 4.5 * scale, y - 6 * scale, 9 * scale, 12 * scale, scale, scale, 'S');
+  doc.setFillColor(...palette.secondary);
+  doc.rect(x - 2 * scale, y - 7 * scale, 4 * scale, 2 * scale, 'F');
+
+  for (let row = 0; row < 3; row++) {
+    const top = y - 3 * scale + row * 3.2 * scale;
+    stroke(doc, palette.secondary, 0.35 * scale);
+    doc.rect(x - 3 * scale, top, 1.8 * scale, 1.8 * scale, 'S');
+    stroke(doc, palette.muted, 0.35 * scale);
+    doc.line(x - 0.5 * scale, top + 0.9 * scale, x + 3.2 * scale, top + 0.9 * scale);
+    if (row < 2) {
+      stroke(doc, palette.accent, 0.45 * scale);
+      doc.line(x - 2.7 * scale, top + 0.9 * scale, x - 2.1 * scale, top + 1.5 * scale);
+      doc.line(x - 2.1 * scale, top + 1.5 * scale, x - 1 * scale, top + 0.2 * scale);
+    }
+  }
+};
+
+// A line chart running down the page
+const drawTrend = (doc: jsPDF, x: number, y: number, height: number, scale: number, palette: Palette) => {
+  const width = BAND_WIDTH * scale;
+  const steps = 11;
+  const points = Array.from({ length: steps }, (_, i) => [
+    x + width / 2 + (Math.sin(i * 1.1) + Math.sin(i * 2.9) / 2) * (width / 3.5),
+    y + (i * height) / (steps - 1)
+  ]);
+
+  stroke(doc, palette.muted, 0.5 * scale);
+  points.slice(1).forEach(([px, py], i) => doc.line(points[i][0], points[i][1], px, py));
+  points.forEach(([px, py], i) => {
+    doc.setFillColor(...(i % 3 === 2 ? palette.accent : palette.secondary));
+    doc.circle(px, py, 1 * scale, 'F');
+  });
+};
+
+const drawChart = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  const base = y + 6 * scale;
+  const heights = [4, 7, 5, 10];
+  heights.forEach((h, i) => {
+    doc.setFillColor(...(i % 2 === 0 ? palette.muted : palette.secondary));
+    doc.rect(x - 4.5 * scale + i * 3 * scale, base - h * scale, 2 * scale, h * scale, 'F');
+  });
+
+  stroke(doc, palette.secondary, 0.7 * scale);
+  doc.line(x - 6 * scale, y - 7 * scale, x - 6 * scale, base);
+  doc.line(x - 6 * scale, base, x + 7 * scale, base);
+
+  stroke(doc, palette.accent, 0.5 * scale);
+  doc.setFillColor(...palette.accent);
+  const tops = heights.map((h, i) => [x - 3.5 * scale + i * 3 * scale, base - (h + 1.5) * scale]);
+  tops.slice(1).forEach(([tx, ty], i) => doc.line(tops[i][0], tops[i][1], tx, ty));
+  tops.forEach(([tx, ty]) => doc.circle(tx, ty, 0.6 * scale, 'F'));
+};
+
+// ---------- Academic ----------
+
+const drawFlourish = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  stroke(doc, palette.primary, 0.4 * scale);
+  doc.circle(x, y, 5 * scale, 'S');
+  doc.setFillColor(...palette.secondary);
+  doc.lines([[3 * scale, 3 * scale], [-3 * scale, 3 * scale], [-3 * scale, -3 * scale]], x, y - 3 * scale, [1, 1], 'F', true);
+  doc.setFillColor(...palette.accent);
+  for (const [dx, dy] of [[1, 0], [0, 1], [-1, 0], [0, -1]]) doc.circle(x + dx * 5 * scale, y + dy * 5 * scale, 0.8 * scale, 'F');
+};
+
+// Two laurel branches curving up around the centre
+const drawLaurel = (doc: jsPDF, x: number, y: number, scale: number, palette: Palette) => {
+  const radius = 7 * scale;
+  const cy = y + 1 * scale;
+  doc.setFillColor(...palette.secondary);
+  for (const side of [-1, 1]) {
+    for (let i = 0; i < 6; i++) {
+      const angle = ((90 + side * (10 + i * 24)) * Math.PI) / 180;
+      const px = x + Math.cos(angle) * radius;
+      const py = cy + Math.sin(angle) * radius;
+      // Along the branch (upwards), turned slightly outwards
+      const along = angle + (side * Math.PI) / 2;
+      leaf(doc, px, py, along + side * 0.45, 3.2 * scale, 0.9 * scale);
+      leaf(doc, px, py, along - side * 0.25, 2.6 * scale, 0.7 * scale);
+    }
+  }
+  doc.setFillColor(...palette.accent);
+  doc.circle(x, cy + radius + 0.6 * scale, 0.9 * scale, 'F');
+};
+
+const ORNAMENTS: Record<OrnamentKind, (doc: jsPDF, x: number, y: number, scale: number, palette: Palette, height: number) => void> = {
+  atom: drawAtom,
+  dna: (doc, x, y, scale, palette, height) => drawDNAHelix(doc, x, y, height, scale, palette),
+  microscope: drawMicroscope,
+  neuron: drawNeuron,
+  network: (doc, x, y, scale, palette, height) => drawNetwork(doc, x, y, height, scale, palette),
+  brain: drawBrain,
+  planet: drawPlanet,
+  stars: (doc, x, y, scale, palette, height) => drawStars(doc, x, y, height, scale, palette),
+  telescope: drawTelescope,
+  survey: drawSurvey,
+  trend: (doc, x, y, scale, palette, height) => drawTrend(doc, x, y, height, scale, palette),
+  chart: drawChart,
+  flourish: drawFlourish,
+  laurel: drawLaurel
+};
+
+export const ORNAMENT_KINDS = Object.keys(ORNAMENTS) as OrnamentKind[];
+
+export const drawOrnament = (
+  doc: jsPDF,
+  kind: OrnamentKind,
+  x: number,
+  y: number,
+  scale: number,
+  palette: Palette,
+  height = 120
+) => ORNAMENTS[kind](doc, x, y, scale, palette, height);
+
+// No ornament reaches further than 12 × scale from its centre.
+const ORNAMENT_REACH = 12;
+const BANDS: OrnamentKind[] = ['dna', 'network', 'stars', 'trend'];
+
+// The box an ornament is drawn in, for keeping it clear of the trim line on print sheets.
+export const ornamentBounds = (kind: OrnamentKind, x: number, y: number, scale: number, height = 120) =>
+  BANDS.includes(kind)
+    ? { x, y, width: BAND_WIDTH * scale, height }
+    : { x: x - ORNAMENT_REACH * scale, y: y - ORNAMENT_REACH * scale, width: 2 * ORNAMENT_REACH * scale, height: 2 * ORNAMENT_REACH * scale };
+
+// ---------- Borders ----------
+
+interface BorderBox {
+  width: number;   // page size
+  height: number;
+  inset: number;   // distance of the outer line from the page edge
+  gap: number;     // distance between the outer and inner line
+  lineWidths: [number, number];
+}
+
+const frame = (doc: jsPDF, box: BorderBox, inset: number) =>
+  doc.rect(inset, inset, box.width - 2 * inset, box.height - 2 * inset, 'S');
+
+export const drawBorder = (doc: jsPDF, style: BorderStyle, box: BorderBox, palette: Palette) => {
+  const [heavy, fine] = box.lineWidths;
+  switch (style) {
+    case 'double':
+      stroke(doc, palette.secondary, heavy);
+      frame(doc, box, box.inset);
+      stroke(doc, palette.primary, fine);
+      frame(doc, box, box.inset + box.gap);
+      break;
+
+    case 'single':
+      stroke(doc, palette.primary, fine * 1.5);
+      frame(doc, box, box.inset + box.gap / 2);
+      break;
+
+    // A fine frame with heavy brackets at the corners
+    case 'corners': {
+      stroke(doc, palette.primary, fine);
+      frame(doc, box, box.inset + box.gap);
+      stroke(doc, palette.secondary, heavy);
+      const arm = box.gap * 5;
+      const [left, top, right, bottom] = [box.inset, box.inset, box.width - box.inset, box.height - box.inset];
+      for (const [cx, cy, sx, sy] of [[left, top, 1, 1], [right, top, -1, 1], [left, bottom, 1, -1], [right, bottom, -1, -1]]) {
+        doc.line(cx, cy, cx + sx * arm, cy);
+        doc.line(cx, cy, cx, cy + sy * arm);
+      }
+      break;
+    }
+
+    case 'none':
+      break;
+  }
+};
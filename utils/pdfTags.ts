@@ -0,0 +1,118 @@
+import { jsPDF } from 'jspdf';
+
+// ---------- Tagged PDF ----------
+// A structure tree (heading, paragraphs, the QR code as a figure) so screen readers read the
+// certificate in order and in the right language; borders and ornaments are marked as artifacts.
+
+// Payloads of the jsPDF output events the tagging and PDF/A code listens to.
+export interface PdfWriterEvents {
+  putPage: { pageNumber: number };
+  postPutResources: undefined;
+  putCatalog: undefined;
+}
+
+// The low-level writer jsPDF's own plugins use; its typings only cover part of doc.internal.
+export interface PdfWriter {
+  write: (...parts: (string | number)[]) => void;
+  newObjectDeferred: () => number;
+  newObjectDeferredBegin: (objectId: number, doOutput: boolean) => number;
+  getPageInfo: (pageNumber: number) => { objId: number };
+  getCurrentPageInfo: () => { pageNumber: number };
+  pdfEscape: (text: string, flags?: Record<string, unknown>) => string;
+  events: { subscribe: <T extends keyof PdfWriterEvents>(topic: T, handler: (payload: PdfWriterEvents[T]) => void) => void };
+}
+
+export const pdfWriter = (doc: jsPDF): PdfWriter => doc.internal as unknown as PdfWriter;
+
+export type StructureTag = 'H1' | 'H2' | 'P' | 'Figure';
+
+export interface TagOptions {
+  lang?: string;  // when the content is not in the document's language
+  alt?: string;   // replacement text, required for figures
+}
+
+export interface StructureTagger {
+  tagged: (tag: StructureTag, draw: () => void, options?: TagOptions) => void;
+  artifact: (draw: () => void) => void;
+}
+
+interface MarkedContent extends TagOptions {
+  tag: StructureTag;
+  pageNumber: number;
+  mcid: number;
+}
+
+// Sets the document language and writes the structure tree when the document is output.
+export const tagStructure = (doc: jsPDF, lang: string): StructureTagger => {
+  const writer = pdfWriter(doc);
+  const contents: MarkedContent[] = [];
+  const nextMcid = new Map<number, number>();
+  const text = (value: string) => `(${writer.pdfEscape(value, {})})`;
+  let rootId = 0;
+
+  doc.setLanguage(lang as Parameters<jsPDF['setLanguage']>[0]);
+
+  writer.events.subscribe('putPage', ({ pageNumber }) => {
+    writer.write(`/StructParents ${pageNumber - 1}`);
+  });
+
+  writer.events.subscribe('postPutResources', () => {
+    rootId = writer.newObjectDeferred();
+    const documentId = writer.newObjectDeferred();
+    const parentTreeId = writer.newObjectDeferred();
+    const elementIds = contents.map(() => writer.newObjectDeferred());
+    const pageCount = doc.getNumberOfPages();
+
+    writer.newObjectDeferredBegin(rootId, true);
+    writer.write(`<< /Type /StructTreeRoot /K ${documentId} 0 R /ParentTree ${parentTreeId} 0 R /ParentTreeNextKey ${pageCount} >>`);
+    writer.write('endobj');
+
+    writer.newObjectDeferredBegin(documentId, true);
+    writer.write(`<< /Type /StructElem /S /Document /P ${rootId} 0 R /K [${elementIds.map((id) => `${id} 0 R`).join(' ')}] >>`);
+    writer.write('endobj');
+
+    contents.forEach((content, index) => {
+      writer.newObjectDeferredBegin(elementIds[index], true);
+      writer.write([
+        `<< /Type /StructElem /S /${content.tag} /P ${documentId} 0 R`,
+        `/Pg ${writer.getPageInfo(content.pageNumber).objId} 0 R /K ${content.mcid}`,
+        content.lang ? `/Lang ${text(content.lang)}` : '',
+        content.alt ? `/Alt ${text(content.alt)}` : '',
+        '>>'
+      ].filter(Boolean).join(' '));
+      writer.write('endobj');
+    });
+
+    // Per page, the structure element of each marked-content id in order
+    const pages = Array.from({ length: pageCount }, (_, page) => {
+      const ids = contents.flatMap((content, index) => (content.pageNumber === page + 1 ? [`${elementIds[index]} 0 R`] : []));
+      return `${page} [${ids.join(' ')}]`;
+    });
+    writer.newObjectDeferredBegin(parentTreeId, true);
+    writer.write(`<< /Nums [${pages.join(' ')}] >>`);
+    writer.write('endobj');
+  });
+
+  writer.events.subscribe('putCatalog', () => {
+    writer.write(`/StructTreeRoot ${rootId} 0 R`);
+    writer.write('/MarkInfo << /Marked true >>');
+  });
+
+  return {
+    tagged: (tag, draw, options = {}) => {
+      const { pageNumber } = writer.getCurrentPageInfo();
+      const mcid = nextMcid.get(pageNumber) ?? 0;
+      nextMcid.set(pageNumber, mcid + 1);
+      contents.push({ tag, pageNumber, mcid, ...options });
+
+      writer.write(`/${tag} << /MCID ${mcid} >> BDC`);
+      draw();
+      writer.write('EMC');
+    },
+    artifact: (draw) => {
+      writer.write('/Artifact BMC');
+      draw();
+      writer.write('EMC');
+    }
+  };
+};
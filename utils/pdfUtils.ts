@@ -1,20 +1,33 @@
 import { jsPDF } from 'jspdf';
-import { CertificateData } from '../types';
-
-type CertificateExtras = {
-  institution?: string;       // e.g. "Tıpta Profesyonellik Bloğu"
-  departmentOrUnit?: string;  // e.g. "Araştırma ve Geliştirme Birimi"
-  coordinatorTitle?: string;  // e.g. "Koordinatör" / "Sorumlu Öğretim Üyesi"
-  coordinatorName?: string;   // e.g. "Dr. Öğr. Üyesi Ayşe Yılmaz"
-  location?: string;          // e.g. "İstanbul"
-  certificateNo?: string;     // e.g. "2025-TPB-0142"
-};
-
-type CertificateInput = CertificateData & CertificateExtras;
-
-// ---------- Helper: Transliterate Turkish to ASCII ----------
-// Used ONLY as a catastrophic fallback if fonts absolutely fail to load.
-// This prevents the PDF from crashing or showing "0" rectangles.
+import QRCode from 'qrcode';
+import { DEFAULT_TEMPLATE } from '../templates';
+import { PDF_FILE_SUFFIX, PDF_STRINGS } from '../i18n/pdfStrings';
+import { dateLocaleTag, primaryLocale } from '../i18n';
+import { NAME_CASING, displayName, splitNameLines } from './personName';
+import { activityDescription, formatDay, formatHours, formatPeriod, participationSummary } from './participation';
+import { StructureTagger, tagStructure } from './pdfTags';
+import { CREATOR_TOOL, makeArchival } from './pdfA';
+import { drawBorder, drawOrnament, ornamentBounds } from './pdfOrnaments';
+import { Box, DEFAULT_PRINT_OPTIONS, SheetLayout, backSlot, layoutSheet, templatePageSize } from './printLayout';
+import { DEFAULT_THEME, ornamentFor } from '../themes';
+import { DEFAULT_FONT_ID, FontStyle, MissingGlyphsError, fontChain, loadFontFile, missingCharacters } from '../fonts';
+import {
+  CertificateInput,
+  CertificateLanguage,
+  CertificateTemplate,
+  DecorationTheme,
+  PrintOptions,
+  RgbColor,
+  TemplateColor,
+  TemplateCoord,
+  TemplateElement,
+  TemplateQRElement,
+  TemplateTextElement,
+  TranslatableFields
+} from '../types';
+
+// ---------- Helper: ASCII file names ----------
+// Downloaded file names stay ASCII so they survive ZIP tools and e-mail clients.
 const sanitizeText = (text: string): string => {
   return text
     .replace(/ğ/g, 'g').replace(/Ğ/g, 'G')
@@ -26,317 +39,639 @@ const sanitizeText = (text: string): string => {
     .replace(/â/g, 'a').replace(/Â/g, 'A');
 };
 
-// ---------- Font loading (Unicode-safe) ----------
+// ---------- Fonts ----------
 
-// Convert ArrayBuffer -> base64 (chunked for safety)
-const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
-  const bytes = new Uint8Array(buffer);
-  const chunkSize = 0x8000; 
-  let binary = '';
+type EmbeddedFonts = Map<string, Record<FontStyle, Set<number>>>;
 
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
+type SetFont = (text: string, familyId: string, style: FontStyle) => void;
+
+// Embeds every family the templates use (with their fallbacks) and returns their glyph coverage.
+const embedFonts = async (doc: jsPDF, templates: CertificateTemplate[]): Promise<EmbeddedFonts> => {
+  const ids = new Set([DEFAULT_FONT_ID]);
+  for (const el of templates.flatMap((template) => template.elements)) {
+    if (el.type === 'text' && el.font) ids.add(el.font);
   }
 
-  return btoa(binary);
+  const embedded: EmbeddedFonts = new Map();
+  for (const family of [...ids].flatMap(fontChain)) {
+    if (embedded.has(family.id)) continue;
+
+    const coverage = {} as Record<FontStyle, Set<number>>;
+    for (const style of ['normal', 'bold'] as const) {
+      const file = await loadFontFile(family.files[style]);
+      const vfsName = `${family.id}-${style}.ttf`;
+      doc.addFileToVFS(vfsName, file.base64);
+      doc.addFont(vfsName, family.id, style);
+      coverage[style] = file.codePoints;
+    }
+    embedded.set(family.id, coverage);
+  }
+  return embedded;
 };
 
-const fetchFirstAvailable = async (urls: string[]): Promise<ArrayBuffer> => {
-  let lastErr: unknown = null;
-
-  for (const url of urls) {
-    try {
-      // mode: 'cors' is crucial for CDN font fetching
-      const res = await fetch(url, { mode: 'cors', cache: 'force-cache' });
-      if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
-      return await res.arrayBuffer();
-    } catch (e) {
-      console.warn(`Failed to fetch font from ${url}`, e);
-      lastErr = e;
+// The element's family if it has every glyph of the text, else the first fallback that does.
+const fontSetter = (doc: jsPDF, fonts: EmbeddedFonts): SetFont => (text, familyId, style) => {
+  let missing: string[] = [];
+  for (const family of fontChain(familyId)) {
+    missing = missingCharacters(text, fonts.get(family.id)![style]);
+    if (missing.length === 0) {
+      doc.setFont(family.id, style);
+      return;
     }
   }
-
-  throw lastErr ?? new Error('All font mirrors failed.');
+  throw new MissingGlyphsError(missing);
 };
 
-// Returns true if fonts loaded successfully, false otherwise.
-const loadCustomFonts = async (doc: jsPDF): Promise<boolean> => {
-  try {
-    // Using Cloudflare CDN (cdnjs) which is extremely reliable for pdfmake/Roboto
-    const regularBuf = await fetchFirstAvailable([
-      'https://cdnjs.cloudflare.com/ajax/libs/pdfmake/0.1.66/fonts/Roboto/Roboto-Regular.ttf',
-      'https://fonts.gstatic.com/s/roboto/v30/KFOmCnqEu92Fr1Me5Q.ttf'
-    ]);
-
-    const boldBuf = await fetchFirstAvailable([
-      'https://cdnjs.cloudflare.com/ajax/libs/pdfmake/0.1.66/fonts/Roboto/Roboto-Medium.ttf', // Medium often works better as Bold in PDF
-      'https://fonts.gstatic.com/s/roboto/v30/KFOlCnqEu92Fr1MmWUlfBBc4.ttf'
-    ]);
-
-    const regularB64 = arrayBufferToBase64(regularBuf);
-    const boldB64 = arrayBufferToBase64(boldBuf);
-
-    doc.addFileToVFS('Roboto-Regular.ttf', regularB64);
-    doc.addFont('Roboto-Regular.ttf', 'Roboto', 'normal');
-
-    doc.addFileToVFS('Roboto-Bold.ttf', boldB64);
-    doc.addFont('Roboto-Bold.ttf', 'Roboto', 'bold');
-    
-    return true;
-  } catch (e) {
-    console.error("CRITICAL: Font loading failed. Turkish characters will be transliterated.", e);
-    return false;
+// ---------- QR code ----------
+
+// Vector QR code (one filled square per dark module), so it stays sharp when printed.
+const drawQRCode = (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const cell = size / modules.size;
+
+  doc.setFillColor(255, 255, 255);
+  doc.rect(x - cell, y - cell, size + 2 * cell, size + 2 * cell, 'F');
+
+  doc.setFillColor(15, 23, 42);
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        // Slight overlap avoids hairline gaps between neighbouring modules in some viewers.
+        doc.rect(x + col * cell, y + row * cell, cell + 0.02, cell + 0.02, 'F');
+      }
+    }
   }
 };
 
-// ---------- Decorations ----------
+// ---------- Images ----------
 
-const drawAtom = (doc: jsPDF, x: number, y: number, scale: number) => {
-  doc.setDrawColor(71, 85, 105);
-  doc.setLineWidth(0.4 * scale);
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg);base64,/;
 
-  doc.setFillColor(8, 51, 68);
-  doc.circle(x, y, 2.5 * scale, 'F');
+// Fits the image into the box (keeping its aspect ratio), centred horizontally and
+// resting on the box's bottom edge, so a handwritten signature sits on the signature line.
+const drawImage = (doc: jsPDF, src: string, x: number, y: number, width: number, height: number) => {
+  const match = IMAGE_DATA_URL.exec(src);
+  if (!match) return;
 
-  doc.setDrawColor(8, 51, 68);
-  doc.ellipse(x, y, 9 * scale, 3 * scale, 'S');
-  doc.ellipse(x, y, 3 * scale, 9 * scale, 'S');
-  doc.circle(x, y, 7 * scale, 'S');
-
-  doc.setFillColor(6, 182, 212);
-  doc.circle(x + 9 * scale, y, 1 * scale, 'F');
-  doc.circle(x, y - 9 * scale, 1 * scale, 'F');
-  doc.circle(x - 5 * scale, y + 5 * scale, 1 * scale, 'F');
+  const image = doc.getImageProperties(src);
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  doc.addImage(src, match[1] === 'png' ? 'PNG' : 'JPEG', x + (width - w) / 2, y + height - h, w, h);
 };
 
-const drawDNAHelix = (doc: jsPDF, x: number, y: number, height: number, scale: number) => {
-  const width = 14 * scale;
-  const steps = 12;
-  const stepHeight = height / steps;
+// ---------- Template rendering ----------
+
+interface PageBox {
+  width: number;
+  height: number;
+}
 
-  for (let i = 0; i < steps; i++) {
-    const curY = y + i * stepHeight;
-    const offset1 = Math.sin(i * 0.9) * (width / 2);
-    const offset2 = Math.sin(i * 0.9 + Math.PI) * (width / 2);
+const PT_TO_MM = 25.4 / 72;
 
-    const x1 = x + width / 2 + offset1;
-    const x2 = x + width / 2 + offset2;
+const COORD_PATTERN = /^(left|center|right|width|top|middle|bottom|height)?\s*(?:([+-])\s*(\d+(?:\.\d+)?))?$/;
 
-    doc.setDrawColor(148, 163, 184);
-    doc.setLineWidth(0.5 * scale);
-    doc.line(x1, curY, x2, curY);
+// Resolves "right-78" style coordinates against the page size.
+const resolveCoord = (value: TemplateCoord, page: PageBox): number => {
+  if (typeof value === 'number') return value;
 
-    doc.setFillColor(8, 51, 68);
-    doc.circle(x1, curY, 1.2 * scale, 'F');
-    doc.circle(x2, curY, 1.2 * scale, 'F');
+  const match = COORD_PATTERN.exec(value.trim());
+  if (!match || (!match[1] && !match[3])) {
+    throw new Error(`Invalid template coordinate "${value}"`);
   }
+
+  const anchors: Record<string, number> = {
+    left: 0, center: page.width / 2, right: page.width, width: page.width,
+    top: 0, middle: page.height / 2, bottom: page.height, height: page.height
+  };
+  const base = match[1] ? anchors[match[1]] : 0;
+  const offset = match[3] ? Number(match[3]) * (match[2] === '-' ? -1 : 1) : 0;
+  return base + offset;
 };
 
-const drawMicroscope = (doc: jsPDF, x: number, y: number, scale: number) => {
-  doc.setDrawColor(8, 51, 68);
-  doc.setFillColor(8, 51, 68);
-  doc.setLineWidth(0.6 * scale);
+// Placeholders that hold a person's name or title.
+const PERSON_NAME_FIELDS = ['name', 'academicTitle', 'coordinatorName'];
+
+// Fills {{field}} and keeps {{#field}}...{{/field}} sections only when the field is non-empty.
+const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text
+    .replace(/\{\{#([\w.]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, key: string, inner: string) => (values[key] ? inner : ''))
+    .replace(/\{\{([\w.]+)\}\}/g, (_, key: string) => values[key] ?? '');
+
+// The English side of a bilingual certificate: the study keeps its title unless translated,
+// a role written only in Turkish is left out.
+const englishParticipation = (data: CertificateInput): CertificateInput => ({
+  ...data,
+  studyTitle: data.translations?.en?.studyTitle?.trim() || data.studyTitle,
+  role: data.translations?.en?.role?.trim() || undefined
+});
+
+// Placeholder values: certificate data first, then the template's defaults, then the
+// localized wording for the certificate's language.
+const placeholderValues = (data: CertificateInput, template: CertificateTemplate): Record<string, string> => {
+  const language = data.language ?? 'tr';
+  const values: Record<string, string> = { ...PDF_STRINGS[primaryLocale(language)], ...template.defaults };
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === 'string' && value.trim()) values[key] = value.trim();
+  }
 
-  doc.rect(x - 6 * scale, y + 8 * scale, 12 * scale, 2 * scale, 'F');
-  doc.line(x - 3 * scale, y + 8 * scale, x - 3 * scale, y - 2 * scale);
-  doc.line(x - 3 * scale, y - 2 * scale, x + 2 * scale, y - 5 * scale);
+  // Bilingual certificates also get the English wording as {{en.*}}. A field the issuer
+  // customised in Turkish only is left out rather than replaced by the generic English default.
+  if (language === 'tr-en') {
+    const translated = data.translations?.en ?? {};
+    for (const [key, fallback] of Object.entries(PDF_STRINGS.en)) {
+      const own = translated[key as keyof TranslatableFields]?.trim();
+      const customised = typeof data[key as keyof CertificateInput] === 'string' && values[key] !== PDF_STRINGS.tr[key];
+      if (own) values[`en.${key}`] = own;
+      else if (!customised) values[`en.${key}`] = fallback;
+    }
+  }
+
+  // Participation details are printed as one summary line ({{participationSummary}}), and a
+  // named study is also named in the standard introduction.
+  const locale = primaryLocale(language);
+  const summary = participationSummary(data, locale);
+  if (summary) values.participationSummary = summary;
+  if (values.studyTitle && values.introText === PDF_STRINGS[locale].introText) {
+    values.introText = fillPlaceholders(PDF_STRINGS[locale].introTextStudy, values);
+  }
 
-  doc.rect(x + 1 * scale, y - 8 * scale, 2.5 * scale, 6 * scale, 'S');
-  doc.line(x + 2 * scale, y - 8 * scale, x + 5 * scale, y - 8 * scale);
+  if (language === 'tr-en') {
+    const english = englishParticipation(data);
+    const summaryEn = participationSummary(english, 'en');
+    if (summaryEn) values['en.participationSummary'] = summaryEn;
+    if (english.studyTitle && values['en.introText'] === PDF_STRINGS.en.introText) {
+      values['en.introText'] = fillPlaceholders(PDF_STRINGS.en.introTextStudy, { studyTitle: english.studyTitle });
+    }
+  }
 
-  doc.setLineWidth(1 * scale);
-  doc.line(x - 3 * scale, y + 4 * scale, x + 4 * scale, y + 4 * scale);
+  return values;
 };
 
-// ---------- Main generator ----------
+// ---------- Participation details page ----------
+
+const DETAILS_MARGIN = 20;
+const DETAILS_TEXT: [number, number, number] = [51, 65, 85];
+const DETAILS_MUTED: [number, number, number] = [100, 116, 139];
+
+// Lists the activities (and the participation summary) on pages after the certificate, with
+// the certificate number in each footer. Bilingual certificates show the English below.
+const drawDetailsPages = (doc: jsPDF, data: CertificateInput, page: PageBox, setFont: SetFont, tags: StructureTagger, heading: RgbColor) => {
+  const language = data.language ?? 'tr';
+  const locale = primaryLocale(language);
+  const strings = PDF_STRINGS[locale];
+  const english = language === 'tr-en' ? englishParticipation(data) : undefined;
+  const label = (key: keyof typeof strings) =>
+    english ? `${strings[key]} / ${PDF_STRINGS.en[key]}` : strings[key];
+
+  const left = DETAILS_MARGIN;
+  const right = page.width - DETAILS_MARGIN;
+  const bottom = page.height - DETAILS_MARGIN - 6;
+  const lineHeight = (size: number) => size * 1.3 * PT_TO_MM;
+  let y = 0;
+
+  const write = (text: string, x: number, size: number, options: { style?: FontStyle; color?: [number, number, number]; maxWidth?: number; align?: 'left' | 'right'; tag?: 'H2'; lang?: string } = {}): number => {
+    setFont(text, DEFAULT_FONT_ID, options.style ?? 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(...(options.color ?? DETAILS_TEXT));
+    const lines: string[] = options.maxWidth ? doc.splitTextToSize(text, options.maxWidth) : [text];
+    tags.tagged(options.tag ?? 'P', () => {
+      doc.text(lines, x, y, { align: options.align ?? 'left', lineHeightFactor: 1.3 });
+    }, { lang: options.lang });
+    return lines.length * lineHeight(size);
+  };
 
-export const generateCertificatePDF = async (data: CertificateInput) => {
-  const doc = new jsPDF({
-    orientation: 'landscape',
-    unit: 'mm',
-    format: 'a4'
-  });
+  const newPage = () => {
+    doc.addPage();
+    y = DETAILS_MARGIN + 6;
+    if (data.certificateNo) {
+      const top = y;
+      y = page.height - DETAILS_MARGIN + 6;
+      write(`${label('certificateNoLabel')}: ${data.certificateNo}`, left, 8, { color: DETAILS_MUTED });
+      y = top;
+    }
+  };
+
+  newPage();
+  y += write(label('detailsTitle'), left, 15, { style: 'bold', color: heading, tag: 'H2' }) + 1;
+  y += write(displayName(data), left, 12, { style: 'bold', color: [15, 23, 42] }) + 4;
+
+  const labelWidth = (right - left) * 0.3;
+  const rows: [string, string | undefined, string | undefined][] = [
+    [label('studyTitleLabel'), data.studyTitle, english?.studyTitle],
+    [label('ethicsApprovalLabel'), data.ethicsApprovalNo, undefined],
+    [label('roleLabel'), data.role, english?.role],
+    [label('periodLabel'), formatPeriod(data, locale), english && formatPeriod(data, 'en')],
+    [label('totalHoursLabel'), data.totalHours ? formatHours(data.totalHours, locale) : undefined, english && data.totalHours ? formatHours(data.totalHours, 'en') : undefined]
+  ];
+  for (const [name, value, valueEn] of rows) {
+    if (!value) continue;
+    write(name, left, 9.5, { color: DETAILS_MUTED, maxWidth: labelWidth - 4 });
+    y += write(value, left + labelWidth, 9.5, { maxWidth: right - left - labelWidth });
+    if (valueEn && valueEn !== value) y += write(valueEn, left + labelWidth, 8.5, { color: DETAILS_MUTED, maxWidth: right - left - labelWidth, lang: 'en' });
+    y += 1.5;
+  }
+
+  // Activity table: date | activity | time
+  const dateWidth = 34;
+  const hoursWidth = 24;
+  const descriptionX = left + dateWidth;
+  const descriptionWidth = right - left - dateWidth - hoursWidth - 4;
+
+  const tableHeader = () => {
+    write(label('activityDateLabel'), left, 9, { style: 'bold' });
+    write(label('activityLabel'), descriptionX, 9, { style: 'bold' });
+    y += write(label('activityHoursLabel'), right, 9, { style: 'bold', align: 'right' }) - 2;
+    tags.artifact(() => {
+      doc.setDrawColor(203, 213, 225);
+      doc.setLineWidth(0.3);
+      doc.line(left, y, right, y);
+    });
+    y += lineHeight(9.5) + 1;
+  };
 
-  // Attempt to load custom fonts. 
-  const fontLoaded = await loadCustomFonts(doc);
+  y += 6;
+  y += write(label('activitiesLabel'), left, 11, { style: 'bold', color: heading }) + 1;
+  tableHeader();
 
-  // If font loaded, use text as-is (Turkish supported).
-  // If font failed, sanitize to ASCII (English letters) to prevent garbage.
-  const t = (text: string) => fontLoaded ? text : sanitizeText(text);
+  for (const activity of data.activities ?? []) {
+    doc.setFontSize(9.5);
+    const descriptionLines: string[] = doc.splitTextToSize(activityDescription(activity, locale), descriptionWidth);
+    const englishDescription = english ? activityDescription(activity, 'en') : undefined;
+    const height = descriptionLines.length * lineHeight(9.5) + (englishDescription && englishDescription !== activity.description ? lineHeight(8.5) : 0);
+    if (y + height > bottom) {
+      newPage();
+      tableHeader();
+    }
 
-  // Helper: Set font based on availability
-  const setFont = (style: 'normal' | 'bold') => {
-    if (fontLoaded) {
-      doc.setFont('Roboto', style);
-    } else {
-      doc.setFont('times', style);
+    if (activity.date) write(formatDay(activity.date, locale), left, 9.5);
+    if (activity.hours) write(formatHours(activity.hours, locale), right, 9.5, { align: 'right' });
+    y += write(activityDescription(activity, locale), descriptionX, 9.5, { maxWidth: descriptionWidth });
+    if (englishDescription && englishDescription !== activity.description) {
+      y += write(englishDescription, descriptionX, 8.5, { color: DETAILS_MUTED, maxWidth: descriptionWidth, lang: 'en' });
     }
-  };
+    y += 2;
+  }
+};
 
-  setFont('normal');
+// ---------- Template drawing ----------
+
+interface TemplateCanvas {
+  page: PageBox;
+  setFont: SetFont;
+  tags: StructureTagger;
+  theme: DecorationTheme;
+  // On print sheets, backgrounds reaching the trim line run on into the bleed, and borders and
+  // ornaments keep the safe margin clear.
+  print?: Pick<PrintOptions, 'bleed' | 'safeMargin'>;
+}
+
+// Sides of a box that lie on the trim line move out by the bleed.
+const intoBleed = (box: Box, page: PageBox, bleed: number): Box => {
+  const left = box.x <= 0 ? box.x - bleed : box.x;
+  const top = box.y <= 0 ? box.y - bleed : box.y;
+  const right = box.x + box.width >= page.width ? box.x + box.width + bleed : box.x + box.width;
+  const bottom = box.y + box.height >= page.height ? box.y + box.height + bleed : box.y + box.height;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
 
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const centerX = pageWidth / 2;
+// How far a box has to move to stay `margin` inside the page edges.
+const shiftInside = (box: Box, page: PageBox, margin: number): [number, number] => {
+  const shift = (start: number, size: number, limit: number) =>
+    start < margin ? margin - start : Math.min(0, limit - margin - (start + size));
+  return [shift(box.x, box.width, page.width), shift(box.y, box.height, page.height)];
+};
 
-  // Optional fields with professional defaults
-  const institution = data.institution ?? 'Tıpta Profesyonellik Bloğu';
-  const unit = data.departmentOrUnit ?? 'Bilimsel Araştırmalar ve Uygulamalar';
-  const coordinatorTitle = data.coordinatorTitle ?? 'Koordinatör';
-  const coordinatorName = data.coordinatorName ?? '';
-  const location = data.location ?? '';
-  const certificateNo = data.certificateNo ?? '';
+// Draws the template's elements on the current page, with (0, 0) at the page's top-left corner.
+const drawTemplate = (
+  doc: jsPDF,
+  template: CertificateTemplate,
+  values: Record<string, string>,
+  language: CertificateLanguage,
+  { page, setFont, tags, theme, print }: TemplateCanvas
+) => {
+  const coord = (value: TemplateCoord) => resolveCoord(value, page);
+  const rgb = (color: TemplateColor): RgbColor => (typeof color === 'string' ? theme.palette[color] : color);
+  const upperCaseLocale = dateLocaleTag(primaryLocale(language));
+  // Names are capitalised by Turkish rules (see NAME_CASING), the wording around them by the
+  // certificate's language; upper-casing the result again leaves the names as they are.
+  const upperCaseValues = { ...values };
+  for (const key of PERSON_NAME_FIELDS) {
+    if (values[key]) upperCaseValues[key] = values[key].toLocaleUpperCase(NAME_CASING);
+  }
 
-  // Background
-  doc.setFillColor(255, 255, 255);
-  doc.rect(0, 0, pageWidth, pageHeight, 'F');
+  // Bottom edge of each text block drawn so far, for { "after": id } positioning.
+  const blockBottoms = new Map<string, number>();
+
+  const drawText = (el: TemplateTextElement) => {
+    const text = el.transform === 'uppercase'
+      ? fillPlaceholders(el.text, upperCaseValues).toLocaleUpperCase(upperCaseLocale)
+      : fillPlaceholders(el.text, values);
+
+    setFont(text, el.font ?? DEFAULT_FONT_ID, el.style ?? 'normal');
+    doc.setTextColor(...rgb(el.color));
+
+    let size = el.size;
+    doc.setFontSize(size);
+
+    const maxWidth = el.maxWidth !== undefined ? coord(el.maxWidth) : undefined;
+    let lines: string[] = maxWidth !== undefined && !el.shrinkToFit
+      ? doc.splitTextToSize(text, maxWidth)
+      : text.split('\n');
+
+    const lineHeightFactor = el.lineHeightFactor ?? 1.15;
+
+    // Lines added above the anchor by a two-line split
+    let raise = 0;
+    if (el.shrinkToFit && maxWidth !== undefined) {
+      while (doc.getTextWidth(text) > maxWidth && size > el.shrinkToFit.minSize) {
+        size -= el.shrinkToFit.step;
+        doc.setFontSize(size);
+      }
+      if (el.shrinkToFit.twoLines && doc.getTextWidth(text) > maxWidth) {
+        lines = splitNameLines(text);
+        raise = (lines.length - 1) * size * lineHeightFactor * PT_TO_MM;
+      }
+    }
+
+    const y = (typeof el.y === 'object'
+      ? (blockBottoms.get(el.y.after) ?? 0) + (el.y.offset ?? 0)
+      : coord(el.y)) - raise;
 
-  // Borders
-  doc.setDrawColor(8, 51, 68);
-  doc.setLineWidth(2.5);
-  doc.rect(8, 8, pageWidth - 16, pageHeight - 16);
+    tags.tagged(el.tag ?? 'P', () => {
+      doc.text(lines, coord(el.x), y, { align: el.align ?? 'left', lineHeightFactor });
+    }, { lang: el.lang });
 
-  doc.setDrawColor(22, 78, 99);
-  doc.setLineWidth(0.8);
-  doc.rect(12, 12, pageWidth - 24, pageHeight - 24);
+    if (el.id) {
+      blockBottoms.set(el.id, y + lines.length * size * lineHeightFactor * PT_TO_MM);
+    }
+  };
 
-  // Decorations
-  drawDNAHelix(doc, 20, 35, 120, 0.9);
-  drawDNAHelix(doc, pageWidth - 35, 35, 120, 0.9);
+  const drawDecorative = (el: Exclude<TemplateElement, TemplateTextElement | TemplateQRElement>) => {
+    switch (el.type) {
+      case 'rect': {
+        if (el.fill) doc.setFillColor(...rgb(el.fill));
+        if (el.stroke) doc.setDrawColor(...rgb(el.stroke));
+        if (el.lineWidth !== undefined) doc.setLineWidth(el.lineWidth);
+        const mode = el.fill && el.stroke ? 'FD' : el.fill ? 'F' : 'S';
+        let box: Box = { x: coord(el.x), y: coord(el.y), width: coord(el.width), height: coord(el.height) };
+        if (print && el.fill) box = intoBleed(box, page, print.bleed);
+        doc.rect(box.x, box.y, box.width, box.height, mode);
+        break;
+      }
+
+      case 'line':
+        doc.setDrawColor(...rgb(el.color));
+        doc.setLineWidth(el.lineWidth);
+        doc.line(coord(el.x1), coord(el.y1), coord(el.x2), coord(el.y2));
+        break;
+
+      case 'circle': {
+        if (el.fill) doc.setFillColor(...rgb(el.fill));
+        if (el.stroke) doc.setDrawColor(...rgb(el.stroke));
+        if (el.lineWidth !== undefined) doc.setLineWidth(el.lineWidth);
+        const mode = el.fill && el.stroke ? 'FD' : el.fill ? 'F' : 'S';
+        doc.circle(coord(el.x), coord(el.y), el.radius, mode);
+        break;
+      }
+
+      case 'decoration': {
+        const kind = ornamentFor(theme, el.kind);
+        if (!kind) break;
+        let [x, y] = [coord(el.x), coord(el.y)];
+        if (print) {
+          const [dx, dy] = shiftInside(ornamentBounds(kind, x, y, el.scale, el.height), page, print.safeMargin);
+          [x, y] = [x + dx, y + dy];
+        }
+        drawOrnament(doc, kind, x, y, el.scale, theme.palette, el.height);
+        break;
+      }
+
+      case 'border': {
+        // The heavy line is centred on the inset, so half of it lies outside.
+        const inset = print ? Math.max(el.inset, print.safeMargin + el.lineWidths[0] / 2) : el.inset;
+        drawBorder(doc, theme.border, { ...page, inset, gap: el.gap, lineWidths: el.lineWidths }, theme.palette);
+        break;
+      }
+
+      case 'image':
+        drawImage(doc, fillPlaceholders(el.src, values), coord(el.x), coord(el.y), coord(el.width), coord(el.height));
+        break;
+    }
+  };
 
-  drawAtom(doc, 22, 22, 1.3);
-  drawAtom(doc, pageWidth - 22, 22, 1.3);
-  drawAtom(doc, 22, pageHeight - 22, 1.3);
-  drawAtom(doc, pageWidth - 22, pageHeight - 22, 1.3);
+  // Text and the QR code are content; everything else is decoration that screen readers skip.
+  const drawElement = (el: TemplateElement) => {
+    switch (el.type) {
+      case 'text':
+        drawText(el);
+        break;
+
+      case 'qr': {
+        const value = fillPlaceholders(el.value, values);
+        tags.tagged('Figure', () => drawQRCode(doc, value, coord(el.x), coord(el.y), el.size), {
+          alt: `${values.scanToVerify}: ${value}`
+        });
+        break;
+      }
+
+      default:
+        tags.artifact(() => drawDecorative(el));
+    }
+  };
 
-  // Header emblem
-  doc.setDrawColor(22, 78, 99);
-  doc.setFillColor(255, 255, 255);
-  doc.setLineWidth(1);
-  doc.circle(centerX, 36, 12, 'FD');
-  drawMicroscope(doc, centerX, 36, 0.9);
-
-  // Institution lines
-  doc.setFontSize(12);
-  doc.setTextColor(51, 65, 85);
-  setFont('normal');
-  doc.text(t(institution), centerX, 55, { align: 'center' });
-
-  doc.setFontSize(10.5);
-  doc.setTextColor(100, 116, 139);
-  doc.text(t(unit), centerX, 61, { align: 'center' });
-
-  // Title
-  setFont('bold');
-  doc.setFontSize(32);
-  doc.setTextColor(22, 78, 99);
-  doc.text(t('GÖNÜLLÜ KATILIM SERTİFİKASI'), centerX, 78, { align: 'center' });
-
-  // Intro paragraph
-  setFont('normal');
-  doc.setFontSize(14);
-  doc.setTextColor(51, 65, 85);
-
-  const introRaw = 'Bu sertifika, yürütülen bilimsel çalışmalara gönüllü katılımı ve sunduğu değerli katkılar nedeniyle aşağıda adı yazılı katılımcıya takdim edilmiştir.';
-  const intro = t(introRaw);
-  const introLines = doc.splitTextToSize(intro, pageWidth - 90);
-  doc.text(introLines, centerX, 92, { align: 'center', lineHeightFactor: 1.45 });
-
-  // Name (dynamic sizing)
-  // We use standard toLocaleUpperCase. 
-  // IMPORTANT: We do NOT force sanitized ASCII if font is loaded.
-  const rawName = data.name.toLocaleUpperCase('tr-TR');
-  const cleanName = t(rawName);
-
-  setFont('bold');
-  doc.setTextColor(15, 23, 42);
-
-  let nameFontSize = 40;
-  doc.setFontSize(nameFontSize);
-
-  const maxNameWidth = pageWidth - 90;
-  while (doc.getTextWidth(cleanName) > maxNameWidth && nameFontSize > 20) {
-    nameFontSize -= 2;
-    doc.setFontSize(nameFontSize);
+  for (const el of template.elements) {
+    if (el.when && !values[el.when]) {
+      // A skipped text block takes no space, so blocks flowing after it move up.
+      if (el.type === 'text' && el.id) {
+        const y = typeof el.y === 'object' ? blockBottoms.get(el.y.after) ?? 0 : coord(el.y);
+        blockBottoms.set(el.id, y);
+      }
+      continue;
+    }
+    drawElement(el);
   }
+};
 
-  const nameY = 122;
-  doc.text(cleanName, centerX, nameY, { align: 'center' });
-
-  // Underline
-  doc.setDrawColor(203, 213, 225);
-  doc.setLineWidth(0.5);
-  doc.line(centerX - 55, nameY + 8, centerX + 55, nameY + 8);
-
-  // Optional impact message
-  const impactRaw = (data.impactMessage ?? '').trim();
-  const impactTextBase = impactRaw.length > 0
-      ? impactRaw
-      : 'Katkılarınız, araştırma sürecimizin niteliğini ve güvenilirliğini güçlendirmiştir.';
-  
-  const impactText = t(impactTextBase);
-
-  setFont('normal');
-  doc.setFontSize(12.5);
-  doc.setTextColor(71, 85, 105);
-
-  const impactLines = doc.splitTextToSize(impactText, pageWidth - 100);
-  const impactY = 142;
-  doc.text(impactLines, centerX, impactY, { align: 'center', lineHeightFactor: 1.5 });
-
-  // Closing line
-  doc.setFontSize(12.5);
-  doc.setTextColor(51, 65, 85);
-  const closingRaw = 'Sayın katılımcımıza teşekkür eder, akademik ve mesleki yaşamında başarılarının devamını dileriz.';
-  const closing = t(closingRaw);
-  
-  const closingY = impactY + impactLines.length * 7.2 + 8;
-  const closingLines = doc.splitTextToSize(closing, pageWidth - 90);
-  doc.text(closingLines, centerX, closingY, { align: 'center', lineHeightFactor: 1.35 });
-
-  // Footer
-  const footerY = pageHeight - 28;
-
-  // Left: location + date + certificate no
-  setFont('normal');
-  doc.setFontSize(10.5);
-  doc.setTextColor(100, 116, 139);
-
-  const leftX = 30;
-  const dateLabel = t('Düzenlenme Tarihi');
-  const locPart = location ? `${t(location)}, ` : '';
-  doc.text(`${locPart}${dateLabel}: ${data.date}`, leftX, footerY);
-
-  if (certificateNo) {
-    doc.setFontSize(9.5);
-    doc.text(`${t('Belge No')}: ${certificateNo}`, leftX, footerY + 6);
+// ---------- Main generator ----------
+
+// jsPDF otherwise stamps every file with the current time and a random id.
+const fixDocumentIdentity = async (doc: jsPDF, certificateNo: string, issuedAt: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${certificateNo}|${issuedAt}`));
+  const fileId = Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('');
+  doc.setCreationDate(new Date(issuedAt));
+  doc.setFileId(fileId.toUpperCase());
+};
+
+export interface CertificatePdfOptions {
+  // Ornaments, palette and border style (themes/index.ts); biomedical by default
+  theme?: DecorationTheme;
+  // PDF/A-2b: XMP metadata and an sRGB output intent on top of the tagged, font-embedded file
+  pdfA?: boolean;
+}
+
+// Title, issuer, study and certificate number as document properties, which viewers show
+// instead of the file name and archives index.
+const describeDocument = (doc: jsPDF, data: CertificateInput, values: Record<string, string>, pdfA: boolean) => {
+  const holder = displayName(data);
+  const study = values.studyTitle ?? values.departmentOrUnit;
+  const properties = {
+    title: `${values.title} – ${holder}`,
+    author: values.institution,
+    subject: values.participationSummary ?? study,
+    keywords: [values.title, study, values.certificateNo].filter(Boolean).join(', '),
+    creator: CREATOR_TOOL
+  };
+  doc.setDocumentProperties(properties);
+  doc.viewerPreferences({ DisplayDocTitle: true });
+
+  if (pdfA) {
+    makeArchival(doc, {
+      ...properties,
+      language: primaryLocale(data.language ?? 'tr'),
+      holder,
+      issuer: values.institution,
+      certificateNo: values.certificateNo,
+      study
+    });
   }
+};
 
-  // Right: signature
-  const sigX = pageWidth - 78;
-  doc.setDrawColor(15, 23, 42);
-  doc.setLineWidth(0.5);
-  doc.line(sigX, footerY - 6, sigX + 48, footerY - 6);
+// Draws the certificate and returns the document without delivering it.
+export const buildCertificatePDF = async (
+  data: CertificateInput,
+  template: CertificateTemplate = DEFAULT_TEMPLATE,
+  options: CertificatePdfOptions = {}
+): Promise<jsPDF> => {
+  const doc = new jsPDF({
+    orientation: template.page.orientation,
+    unit: 'mm',
+    format: template.page.format,
+    // Only the bundled fonts, all embedded; no references to the viewer's standard fonts
+    putOnlyUsedFonts: true
+  });
+  if (data.issuedAt) await fixDocumentIdentity(doc, data.certificateNo ?? '', data.issuedAt);
 
-  setFont('bold');
-  doc.setFontSize(10.5);
-  doc.setTextColor(15, 23, 42);
-  doc.text(t(coordinatorTitle), sigX + 24, footerY, { align: 'center' });
+  // Bundled fonts; a failure here is an error, never a silent switch to ASCII.
+  const setFont = fontSetter(doc, await embedFonts(doc, [template]));
+  doc.setFont(DEFAULT_FONT_ID, 'normal');
 
-  if (coordinatorName.trim()) {
-    setFont('normal');
-    doc.setFontSize(9.5);
-    doc.setTextColor(51, 65, 85);
-    doc.text(t(coordinatorName), sigX + 24, footerY + 5.5, { align: 'center' });
+  const page: PageBox = {
+    width: doc.internal.pageSize.getWidth(),
+    height: doc.internal.pageSize.getHeight()
+  };
+  const language = data.language ?? 'tr';
+  const theme = options.theme ?? DEFAULT_THEME;
+  const values = placeholderValues(data, template);
+  describeDocument(doc, data, values, options.pdfA ?? false);
+  const tags = tagStructure(doc, primaryLocale(language));
+
+  drawTemplate(doc, template, values, language, { page, setFont, tags, theme });
+
+  if (data.activities?.length) drawDetailsPages(doc, data, page, setFont, tags, theme.palette.primary);
+
+  return doc;
+};
+
+// ---------- Print sheets ----------
+
+// Draws one certificate with its top-left trim corner on the slot's, clipped to its bleed.
+const drawInSlot = (doc: jsPDF, slot: Box, bleed: number, draw: () => void) => {
+  const k = doc.internal.scaleFactor;
+  doc.saveGraphicsState();
+  doc.setCurrentTransformationMatrix(doc.Matrix(1, 0, 0, 1, slot.x * k, -slot.y * k));
+  doc.rect(-bleed, -bleed, slot.width + 2 * bleed, slot.height + 2 * bleed, null);
+  doc.clip();
+  doc.discardPath();
+  draw();
+  doc.restoreGraphicsState();
+};
+
+// Hairlines in registration black, so they print on every plate of an offset press too.
+const drawCropMarks = (doc: jsPDF, marks: SheetLayout['marks'], tags: StructureTagger) => {
+  tags.artifact(() => {
+    doc.setDrawColor(1, 1, 1, 1);
+    doc.setLineWidth(0.1);
+    for (const [x1, y1, x2, y2] of marks) doc.line(x1, y1, x2, y2);
+  });
+};
+
+// The certificates several to a sheet (utils/printLayout.ts), each sheet followed by its back
+// when print.back is set. Participation details pages are left out.
+export const buildPrintSheetsPDF = async (
+  certificates: CertificateInput[],
+  template: CertificateTemplate = DEFAULT_TEMPLATE,
+  print: PrintOptions = DEFAULT_PRINT_OPTIONS,
+  options: Pick<CertificatePdfOptions, 'theme'> = {}
+): Promise<jsPDF> => {
+  const layout = layoutSheet(templatePageSize(template), print);
+  const doc = new jsPDF({
+    orientation: layout.orientation,
+    unit: 'mm',
+    format: [layout.sheet.width, layout.sheet.height],
+    putOnlyUsedFonts: true
+  });
+  const issuedAt = certificates[0]?.issuedAt;
+  if (issuedAt) await fixDocumentIdentity(doc, certificates.map((data) => data.certificateNo ?? data.name).join('|'), issuedAt);
+
+  const setFont = fontSetter(doc, await embedFonts(doc, print.back ? [template, print.back] : [template]));
+  doc.setFont(DEFAULT_FONT_ID, 'normal');
+  doc.setDocumentProperties({ creator: CREATOR_TOOL });
+
+  const canvas: TemplateCanvas = {
+    page: templatePageSize(template),
+    setFont,
+    tags: tagStructure(doc, primaryLocale(certificates[0]?.language ?? 'tr')),
+    theme: options.theme ?? DEFAULT_THEME,
+    print
+  };
+  const drawSide = (side: CertificateTemplate, sheet: CertificateInput[], slotOf: (slot: Box) => Box) => {
+    sheet.forEach((data, index) => drawInSlot(doc, slotOf(layout.slots[index]), print.bleed, () =>
+      drawTemplate(doc, side, placeholderValues(data, side), data.language ?? 'tr', canvas)));
+    drawCropMarks(doc, layout.marks, canvas.tags);
+  };
+
+  const perSheet = layout.slots.length;
+  for (let start = 0; start < certificates.length; start += perSheet) {
+    const sheet = certificates.slice(start, start + perSheet);
+    if (start > 0) doc.addPage();
+    drawSide(template, sheet, (slot) => slot);
+    if (print.back) {
+      doc.addPage();
+      drawSide(print.back, sheet, (slot) => backSlot(slot, layout.sheet));
+    }
   }
 
-  // Save
-  // We sanitize the filename just to be safe for OS file systems
-  const safeFileName = sanitizeText(data.name)
+  return doc;
+};
+
+// We sanitize the filename just to be safe for OS file systems
+export const certificateFileName = (name: string, language: CertificateLanguage = 'tr'): string => {
+  const safeFileName = sanitizeText(name)
     .trim()
     .replace(/\s+/g, '_')
     .replace(/[^a-zA-Z0-9_]/g, '_');
 
-  doc.save(`${safeFileName}_GonulluKatilimSertifikasi.pdf`);
+  return `${safeFileName}_${PDF_FILE_SUFFIX[primaryLocale(language)]}.pdf`;
+};
+
+// The finished file. Delivery (download, e-mail, writing to disk) is up to the caller, so this
+// runs in the browser and in Node alike.
+export const renderCertificatePDF = async (
+  data: CertificateInput,
+  template: CertificateTemplate = DEFAULT_TEMPLATE,
+  options: CertificatePdfOptions = {}
+): Promise<Uint8Array> => {
+  const doc = await buildCertificatePDF(data, template, options);
+  return new Uint8Array(doc.output('arraybuffer'));
+};
+
+export const renderPrintSheetsPDF = async (
+  certificates: CertificateInput[],
+  template: CertificateTemplate = DEFAULT_TEMPLATE,
+  print: PrintOptions = DEFAULT_PRINT_OPTIONS,
+  options: Pick<CertificatePdfOptions, 'theme'> = {}
+): Promise<Uint8Array> => {
+  const doc = await buildPrintSheetsPDF(certificates, template, print, options);
+  return new Uint8Array(doc.output('arraybuffer'));
 };
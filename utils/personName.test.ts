@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { NAME_CASING, checkPersonName, normalizePersonName } from './personName';
+
+// Holder names keep their Turkish letters on certificates in every language.
+
+test('names are cased by Turkish rules on English certificates too', () => {
+  const checked = checkPersonName('ismail ışık', 'en');
+  assert.ok(checked.ok);
+  assert.equal(checked.value.name, 'İsmail Işık');
+  assert.equal(checked.value.name.toLocaleUpperCase(NAME_CASING), 'İSMAİL IŞIK');
+  assert.equal(normalizePersonName('İSMAİL IŞIK', 'en').name, 'İsmail Işık');
+});
+
+test('"Doc" is read as "Doç." on Turkish input only', () => {
+  assert.deepEqual(normalizePersonName('doc. dr. ayşe yılmaz', 'tr'), { academicTitle: 'Doç. Dr.', name: 'Ayşe Yılmaz' });
+  assert.deepEqual(normalizePersonName('Doç. Dr. Ayşe Yılmaz', 'en'), { academicTitle: 'Doç. Dr.', name: 'Ayşe Yılmaz' });
+  assert.deepEqual(normalizePersonName('Doc Brown', 'en'), { academicTitle: undefined, name: 'Doc Brown' });
+});
@@ -0,0 +1,148 @@
+import { Locale } from '../types';
+
+// ---------- Holder names ----------
+// Names are typed by visitors and coordinators in every possible way ("ayşe yılmaz",
+// "PROF. DR. ALİ  VELİ", "Dr Ayşe Yılmaz 😊"). They are cleaned up and checked here, by the
+// portal before a preview and by the API on every issuance, so the same rules apply everywhere.
+
+export const NAME_LIMITS = {
+  maxLength: 120,
+  minLetters: 2
+};
+
+export type NameError = 'nameRequired' | 'nameTooLong' | 'nameTooShort' | 'nameHasDigits' | 'nameInvalidCharacters' | 'nameTitleOnly';
+
+// Turkish fallbacks for server responses and list validation; the portal shows errors.<code>.
+export const NAME_ERROR_MESSAGES: Record<NameError, string> = {
+  nameRequired: 'Ad soyad zorunludur.',
+  nameTooLong: `Ad soyad en fazla ${NAME_LIMITS.maxLength} karakter olabilir.`,
+  nameTooShort: 'Ad soyad en az iki harften oluşmalıdır.',
+  nameHasDigits: 'Ad soyad rakam içeremez.',
+  nameInvalidCharacters: 'Ad soyad yalnızca harf, boşluk, kesme işareti, nokta ve tire içerebilir.',
+  nameTitleOnly: 'Unvanın yanında ad soyad da yazılmalıdır.'
+};
+
+export interface PersonName {
+  // Leading academic or professional title, e.g. "Prof. Dr."; printed before the name
+  academicTitle?: string;
+  name: string;
+}
+
+export type NameCheck = { ok: true; value: PersonName } | { ok: false; error: NameError };
+
+// Title words (lower case, without the dot) and how they are printed.
+const TITLE_WORDS: Record<string, string> = {
+  prof: 'Prof.',
+  doç: 'Doç.',
+  dr: 'Dr.',
+  yrd: 'Yrd.',
+  öğr: 'Öğr.',
+  ogr: 'Öğr.',
+  üyesi: 'Üyesi',
+  uyesi: 'Üyesi',
+  gör: 'Gör.',
+  gor: 'Gör.',
+  arş: 'Arş.',
+  ars: 'Arş.',
+  uzm: 'Uzm.',
+  dt: 'Dt.',
+  ecz: 'Ecz.',
+  assoc: 'Assoc.',
+  asst: 'Asst.',
+  assist: 'Asst.'
+};
+
+// Particles that stay lower case inside a name when typed that way ("Ludwig van Beethoven").
+const PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'del', 'da', 'di', 'du', 'la', 'le', 'bin', 'ibn', 'al']);
+
+// Letters, combining accents, and the separators names actually use.
+const ALLOWED = /^[\p{L}\p{M}\s'’.-]+$/u;
+const DIGITS = /\p{Nd}/u;
+const LETTERS = /\p{L}/gu;
+
+// Names are cased by Turkish rules whatever the certificate's language, so "ismail ışık" is
+// "İsmail Işık" (and "İSMAİL IŞIK" in capitals) on an English certificate as well.
+export const NAME_CASING = 'tr-TR';
+
+// "Doc" is also an English word and nickname, so "Doc." stands for "Doç." on Turkish input only.
+const TURKISH_ONLY_TITLE_WORDS: Record<string, string> = { doc: 'Doç.' };
+
+// Turkish lower-casing turns "I" into "ı", so title words are matched in both forms.
+const titleWordOf = (word: string, locale: Locale): string | undefined => {
+  const bare = word.replace(/\.+$/, '');
+  const words = locale === 'tr' ? { ...TITLE_WORDS, ...TURKISH_ONLY_TITLE_WORDS } : TITLE_WORDS;
+  return words[bare.toLocaleLowerCase('tr-TR')] ?? words[bare.toLowerCase()];
+};
+
+const capitalize = (part: string, tag: string): string =>
+  part.charAt(0).toLocaleUpperCase(tag) + part.slice(1).toLocaleLowerCase(tag);
+
+// Words typed all in lower or all in upper case get a capital initial ("İlker", "Işık");
+// mixed-case words ("McKenzie") are kept as typed. Hyphenated parts are cased separately.
+const caseWord = (word: string, index: number, tag: string): string => {
+  const lower = word.toLocaleLowerCase(tag);
+  const upper = word.toLocaleUpperCase(tag);
+  if (word !== lower && word !== upper) return word;
+  if (index > 0 && word === lower && PARTICLES.has(lower)) return word;
+  return word.split('-').map((part) => capitalize(part, tag)).join('-');
+};
+
+// Cleans up spacing and casing and splits off leading titles. `locale` is the certificate's
+// language; it only decides which title abbreviations are recognised.
+export const normalizePersonName = (raw: string, locale: Locale = 'tr'): PersonName => {
+  const words = raw
+    .normalize('NFC')
+    // "Doç.Dr." and "A.Yılmaz" become "Doç. Dr." and "A. Yılmaz"
+    .replace(/\.(?=\p{L})/gu, '. ')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  const title: string[] = [];
+  while (words.length > 0 && titleWordOf(words[0], locale)) {
+    title.push(titleWordOf(words.shift()!, locale)!);
+  }
+
+  return {
+    academicTitle: title.length > 0 ? title.join(' ') : undefined,
+    name: words.map((word, index) => caseWord(word, index, NAME_CASING)).join(' ')
+  };
+};
+
+export const checkPersonName = (raw: string, locale: Locale = 'tr'): NameCheck => {
+  const trimmed = raw.trim();
+  if (!trimmed) return { ok: false, error: 'nameRequired' };
+  if (trimmed.length > NAME_LIMITS.maxLength) return { ok: false, error: 'nameTooLong' };
+  if (DIGITS.test(trimmed)) return { ok: false, error: 'nameHasDigits' };
+  if (!ALLOWED.test(trimmed)) return { ok: false, error: 'nameInvalidCharacters' };
+
+  const value = normalizePersonName(trimmed, locale);
+  if (!value.name) return { ok: false, error: value.academicTitle ? 'nameTitleOnly' : 'nameRequired' };
+  if ((value.name.match(LETTERS) ?? []).length < NAME_LIMITS.minLetters) return { ok: false, error: 'nameTooShort' };
+  return { ok: true, value };
+};
+
+// The name as printed, title first.
+export const displayName = ({ academicTitle, name }: PersonName): string =>
+  academicTitle ? `${academicTitle} ${name}` : name;
+
+// Splits a name into two lines of roughly equal length at a word boundary, for names that
+// do not fit on one line even at the smallest allowed size.
+export const splitNameLines = (name: string): string[] => {
+  const words = name.split(' ');
+  if (words.length < 2) return [name];
+
+  let best = [name];
+  let bestWidth = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const lines = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+    const width = Math.max(...lines.map((line) => line.length));
+    if (width < bestWidth) {
+      best = lines;
+      bestWidth = width;
+    }
+  }
+  return best;
+};
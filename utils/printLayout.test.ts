@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { backSlot, layoutSheet, sheetCapacity, templatePageSize } from './printLayout';
+import { getTemplate } from '../templates';
+
+// Trim boxes sit bleed-to-bleed in the middle of the sheet, and crop marks extend every trim
+// line into the margin without reaching any certificate's bleed.
+
+const A4_LANDSCAPE = { width: 297, height: 210 };
+
+test('A4 certificates go two to an SRA3 sheet with their bleed and crop marks', () => {
+  const layout = layoutSheet(A4_LANDSCAPE, { paper: 'sra3', bleed: 3, cropMarks: true, safeMargin: 5 });
+
+  assert.deepEqual(layout.sheet, { width: 320, height: 450 });
+  assert.equal(layout.orientation, 'portrait');
+  assert.deepEqual([layout.columns, layout.rows], [1, 2]);
+  // 303 × 216 mm cells centred on the sheet; the trim box is 3 mm inside each.
+  assert.deepEqual(layout.slots, [
+    { x: 11.5, y: 12, ...A4_LANDSCAPE },
+    { x: 11.5, y: 228, ...A4_LANDSCAPE }
+  ]);
+
+  // Vertical trim lines at x = 11.5 and 308.5, above and below the stack.
+  assert.deepEqual(layout.marks.filter(([x1, , x2]) => x1 === x2), [
+    [11.5, 3.5, 11.5, 7.5], [11.5, 442.5, 11.5, 446.5],
+    [308.5, 3.5, 308.5, 7.5], [308.5, 442.5, 308.5, 446.5]
+  ]);
+  // Horizontal trim lines of both certificates, left and right of the stack.
+  const horizontal = layout.marks.filter(([, y1, , y2]) => y1 === y2);
+  assert.deepEqual([...new Set(horizontal.map(([, y]) => y))], [12, 222, 228, 438]);
+  for (const [x1, , x2] of horizontal) {
+    assert.ok(x2 <= 8.5 - 1.5 || x1 >= 311.5 + 1.5, 'marks stay clear of the bleed');
+  }
+});
+
+test('without crop marks the margin shrinks and no marks are drawn', () => {
+  const trim = { width: 200, height: 280 };
+  const options = { paper: 'a4' as const, bleed: 0, cropMarks: true, safeMargin: 5 };
+  assert.equal(sheetCapacity(trim, options), 0);
+
+  const layout = layoutSheet(trim, { ...options, cropMarks: false });
+  assert.deepEqual(layout.marks, []);
+  assert.deepEqual(layout.slots, [{ x: 5, y: 8.5, ...trim }]);
+});
+
+test('a certificate that does not fit is refused', () => {
+  const options = { paper: 'a4' as const, bleed: 3, cropMarks: true, safeMargin: 5 };
+  assert.throws(() => layoutSheet(A4_LANDSCAPE, options), /does not fit/);
+  assert.equal(sheetCapacity(A4_LANDSCAPE, options), 0);
+  assert.equal(sheetCapacity(A4_LANDSCAPE, { ...options, paper: 'a3' }), 1);
+});
+
+test('backs are mirrored across the vertical axis of the sheet', () => {
+  const sheet = { width: 320, height: 450 };
+  assert.deepEqual(backSlot({ x: 11.5, y: 12, width: 200, height: 100 }, sheet), { x: 108.5, y: 12, width: 200, height: 100 });
+});
+
+test('the trim size follows the template page', () => {
+  assert.deepEqual(templatePageSize(getTemplate('default')), A4_LANDSCAPE);
+  assert.deepEqual(templatePageSize(getTemplate('a5-portrait')), { width: 148, height: 210 });
+});
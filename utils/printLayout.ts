@@ -0,0 +1,119 @@
+import { CertificateTemplate, PaperFormat, PrintOptions } from '../types';
+
+// ---------- Print imposition ----------
+// Where the certificates go on a print sheet: a grid of trim boxes centred on the paper, each with
+// its bleed around it and no gutter in between, and crop marks in the sheet margin that extend
+// every trim line. All sizes are in millimetres.
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Box extends Size {
+  x: number;
+  y: number;
+}
+
+export interface SheetLayout {
+  sheet: Size;
+  orientation: 'portrait' | 'landscape';
+  columns: number;
+  rows: number;
+  // Trim boxes in reading order
+  slots: Box[];
+  // [x1, y1, x2, y2]; empty without crop marks
+  marks: [number, number, number, number][];
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { paper: 'sra3', bleed: 3, cropMarks: true, safeMargin: 5 };
+
+export const PAPER_FORMATS: Record<PaperFormat, [number, number]> = {
+  a4: [210, 297],
+  a3: [297, 420],
+  sra3: [320, 450],
+  letter: [215.9, 279.4],
+  tabloid: [279.4, 431.8]
+};
+
+const PAGE_FORMATS = { a4: [210, 297], a5: [148, 210] } as const;
+
+// Most printers leave this much of the paper edge blank.
+const PRINTER_MARGIN = 3;
+// Crop marks start this far outside the bleed, so they never show on a trimmed certificate.
+const MARK_OFFSET = 1.5;
+const MARK_LENGTH = 4;
+
+const oriented = ([a, b]: readonly [number, number], orientation: 'portrait' | 'landscape'): Size => {
+  const [short, long] = a < b ? [a, b] : [b, a];
+  return orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+};
+
+// The certificate's trim size, as jsPDF lays out the template's page.
+export const templatePageSize = ({ page }: CertificateTemplate): Size =>
+  oriented(typeof page.format === 'string' ? PAGE_FORMATS[page.format] : page.format, page.orientation);
+
+// Throws when not even one certificate fits on the paper.
+export const layoutSheet = (trim: Size, options: PrintOptions): SheetLayout => {
+  const cell = { width: trim.width + 2 * options.bleed, height: trim.height + 2 * options.bleed };
+  const margin = PRINTER_MARGIN + (options.cropMarks ? MARK_OFFSET + MARK_LENGTH : 0);
+  const paper = typeof options.paper === 'string' ? PAPER_FORMATS[options.paper] : options.paper;
+
+  const candidates = (options.orientation ? [options.orientation] : ['portrait', 'landscape'] as const).map((orientation) => {
+    const sheet = oriented(paper, orientation);
+    return {
+      sheet,
+      orientation,
+      columns: Math.max(0, Math.floor((sheet.width - 2 * margin) / cell.width)),
+      rows: Math.max(0, Math.floor((sheet.height - 2 * margin) / cell.height))
+    };
+  });
+  const { sheet, orientation, columns, rows } = candidates.reduce((best, next) =>
+    (next.columns * next.rows > best.columns * best.rows ? next : best));
+  if (columns * rows === 0) {
+    throw new Error(`A ${trim.width} × ${trim.height} mm certificate with ${options.bleed} mm bleed does not fit on ${paper[0]} × ${paper[1]} mm paper.`);
+  }
+
+  const left = (sheet.width - columns * cell.width) / 2;
+  const top = (sheet.height - rows * cell.height) / 2;
+  const slots: Box[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        x: left + column * cell.width + options.bleed,
+        y: top + row * cell.height + options.bleed,
+        ...trim
+      });
+    }
+  }
+
+  const marks: SheetLayout['marks'] = [];
+  if (options.cropMarks) {
+    const [right, bottom] = [sheet.width - left, sheet.height - top];
+    const trimLines = (start: number, count: number, cellSize: number, trimSize: number) =>
+      Array.from({ length: count }, (_, i) => start + i * cellSize + options.bleed).flatMap((edge) => [edge, edge + trimSize]);
+    for (const x of trimLines(left, columns, cell.width, trim.width)) {
+      marks.push([x, top - MARK_OFFSET - MARK_LENGTH, x, top - MARK_OFFSET]);
+      marks.push([x, bottom + MARK_OFFSET, x, bottom + MARK_OFFSET + MARK_LENGTH]);
+    }
+    for (const y of trimLines(top, rows, cell.height, trim.height)) {
+      marks.push([left - MARK_OFFSET - MARK_LENGTH, y, left - MARK_OFFSET, y]);
+      marks.push([right + MARK_OFFSET, y, right + MARK_OFFSET + MARK_LENGTH, y]);
+    }
+  }
+
+  return { sheet, orientation, columns, rows, slots, marks };
+};
+
+// The same slot on the back of the sheet, for a sheet turned over side to side (around its
+// vertical axis); printers call this "flip on long edge" for portrait sheets.
+export const backSlot = (slot: Box, sheet: Size): Box => ({ ...slot, x: sheet.width - slot.x - slot.width });
+
+// Certificates per sheet, 0 when not even one fits.
+export const sheetCapacity = (trim: Size, options: PrintOptions): number => {
+  try {
+    return layoutSheet(trim, options).slots.length;
+  } catch {
+    return 0;
+  }
+};
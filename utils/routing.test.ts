@@ -0,0 +1,11 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseRoute } from './routing';
+
+test('route segments are decoded', () => {
+  assert.deepEqual(parseRoute('#/verify/SRT-2026%2F0001'), { name: 'verify', certificateNo: 'SRT-2026/0001' });
+});
+
+test('a malformed escape keeps the segment as typed', () => {
+  assert.deepEqual(parseRoute('#/verify/%E0'), { name: 'verify', certificateNo: '%E0' });
+});
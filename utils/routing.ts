@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+
+// ---------- Hash routing ----------
+// The portal is served from GitHub Pages, which cannot rewrite deep paths to
+// index.html, so routes live in the hash: "#/verify/2025-ABCD-EFGH-JKMN".
+
+// Campaign served on the home page (matches server/campaigns.ts).
+export const DEFAULT_CAMPAIGN_SLUG = 'default';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'campaign'; slug: string; completionToken?: string }
+  | { name: 'roster'; slug: string }
+  | { name: 'privacy'; slug: string }
+  | { name: 'verify'; certificateNo: string }
+  | { name: 'revoke'; certificateNo: string }
+  | { name: 'batch' }
+  | { name: 'dashboard' }
+  | { name: 'mine' };
+
+// A hand-edited link can hold a malformed escape ("#/verify/%E0"); that segment is kept as typed.
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const parseRoute = (hash: string): Route => {
+  const path = hash.replace(/^#/, '').replace(/\/+$/, '');
+  const segments = path.split('/').filter(Boolean).map(decodeSegment);
+
+  if (segments[0] === 'c' && segments[1] && segments[2] === 'roster') {
+    return { name: 'roster', slug: segments[1] };
+  }
+  if (segments[0] === 'c' && segments[1] && segments[2] === 'privacy') {
+    return { name: 'privacy', slug: segments[1] };
+  }
+  // Survey tools link finishing participants to "#/c/<slug>/complete/<token>".
+  if (segments[0] === 'c' && segments[1] && segments[2] === 'complete' && segments[3]) {
+    return { name: 'campaign', slug: segments[1], completionToken: segments[3] };
+  }
+  if (segments[0] === 'c' && segments[1]) {
+    return { name: 'campaign', slug: segments[1] };
+  }
+  if (segments[0] === 'verify') {
+    return { name: 'verify', certificateNo: segments[1] ?? '' };
+  }
+  if (segments[0] === 'revoke') {
+    return { name: 'revoke', certificateNo: segments[1] ?? '' };
+  }
+  if (segments[0] === 'batch') {
+    return { name: 'batch' };
+  }
+  if (segments[0] === 'dashboard') {
+    return { name: 'dashboard' };
+  }
+  if (segments[0] === 'my') {
+    return { name: 'mine' };
+  }
+  if (segments[0] === 'privacy') {
+    return { name: 'privacy', slug: DEFAULT_CAMPAIGN_SLUG };
+  }
+
+  return { name: 'home' };
+};
+
+export const navigate = (path: string) => {
+  window.location.hash = path;
+};
+
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  return route;
+};
+
+// Each study's privacy policy lists its own controller and retention period.
+export const privacyHref = (slug: string): string =>
+  slug === DEFAULT_CAMPAIGN_SLUG ? '#/privacy' : `#/c/${encodeURIComponent(slug)}/privacy`;
+
+// Absolute URL printed into the QR code of each certificate.
+export const buildVerifyUrl = (certificateNo: string): string => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#/verify/${encodeURIComponent(certificateNo)}`;
+};
@@ -0,0 +1,52 @@
+import '../fonts/node';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_THEME, getTheme, listThemes, ornamentFor } from '../themes';
+import { buildCertificatePDF } from './pdfUtils';
+import { DecorationTheme, RgbColor } from '../types';
+
+// A study's themeId picks its ornaments and palette; anything unknown keeps the biomedical look.
+
+const certificate = {
+  name: 'Ayşe Yılmaz',
+  impactMessage: 'Katkınız için teşekkürler.',
+  certificateNo: 'TR-2026-0001',
+  issuedAt: '2026-06-01T09:00:00Z',
+  date: '01.06.2026'
+};
+
+// Fill and stroke colours set in the PDF content, as 0-255 RGB.
+const paintedColors = async (theme: DecorationTheme): Promise<RgbColor[]> => {
+  const doc = await buildCertificatePDF(certificate, undefined, { theme });
+  return [...doc.output().matchAll(/([\d.]+) ([\d.]+) ([\d.]+) (?:rg|RG)\b/g)]
+    .map((m) => [Number(m[1]), Number(m[2]), Number(m[3])].map((c) => Math.round(c * 255)) as RgbColor);
+};
+
+// Colours are written with two decimals, so they come back within ±2 of the palette.
+const paints = (colors: RgbColor[], color: RgbColor) =>
+  colors.some((painted) => painted.every((c, i) => Math.abs(c - color[i]) <= 2));
+
+test('unknown or missing theme ids fall back to the biomedical theme', () => {
+  assert.equal(getTheme(undefined), DEFAULT_THEME);
+  assert.equal(getTheme('no-such-theme'), DEFAULT_THEME);
+  assert.equal(getTheme('neuroscience').id, 'neuroscience');
+  assert.ok(listThemes().some((theme) => theme.id === DEFAULT_THEME.id));
+});
+
+test('template ornament slots resolve to the theme ornaments', () => {
+  const academic = getTheme('academic');
+  assert.equal(ornamentFor(DEFAULT_THEME, 'corner'), 'atom');
+  assert.equal(ornamentFor(DEFAULT_THEME, 'side'), 'dna');
+  assert.equal(ornamentFor(academic, 'side'), null);
+  // Named ornaments are drawn whatever the theme.
+  assert.equal(ornamentFor(academic, 'microscope'), 'microscope');
+});
+
+test('certificates are painted with the theme palette', async () => {
+  const neuroscience = getTheme('neuroscience');
+  const colors = await paintedColors(neuroscience);
+  for (const key of ['primary', 'secondary', 'accent'] as const) {
+    assert.ok(paints(colors, neuroscience.palette[key]), `${key} colour is used`);
+  }
+  assert.equal(paints(colors, DEFAULT_THEME.palette.primary), false);
+});
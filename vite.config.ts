@@ -5,7 +5,15 @@ export default defineConfig({
   plugins: [react()],
   base: './', // Ensures assets load correctly on GitHub Pages subpaths
   define: {
-    // Injects the API key from the environment variable during build
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    // Everything here ends up in the public bundle, so no keys: the impact message provider is
+    // configured on the API server (server/impactMessages.ts).
+    // Base URL of the portal API (server/); empty means same origin
+    'process.env.API_BASE_URL': JSON.stringify(process.env.API_BASE_URL ?? '')
+  },
+  server: {
+    proxy: {
+      // `npm run server` listens on 8787
+      '/api': { target: 'http://localhost:8787', xfwd: true }
+    }
   }
 });